@@ -3,7 +3,10 @@ import type { NextConfig } from 'next';
 const nextConfig: NextConfig = {
   // 👇 Add this
   experimental: {
-    serverActions: true,
+    serverActions: {
+      // Identity documents are uploaded through a server action
+      bodySizeLimit: '11mb',
+    },
     allowedDevOrigins: [
       'https://9003-idx-studio-1745089594276.cluster-6vyo4gb53jczovun3dxslzjahs.cloudworkstations.dev',
     ],
@@ -1,5 +1,432 @@
 'use server';
 
-export async function registerClient(data: any) {
-  console.log('registerClient server action called');
+import { headers } from 'next/headers';
+import {
+  forgotPasswordSchema,
+  loginSchema,
+  newPasswordSchema,
+  resetCodeSchema,
+  type ForgotPasswordFormValues,
+  type LoginFormValues,
+  type CompanyAccountFormValues,
+  type IndividualChauffeurFormValues,
+  type IndividualClientFormValues,
+  type IndividualDeliveryFormValues,
+  type NewPasswordFormValues,
+} from '@/lib/schemas';
+import { verifyAccountPassword } from '@/services/account-password';
+import {
+  completePasswordReset,
+  requestPasswordReset,
+  verifyPasswordResetCode,
+  type RequestResetResult,
+  type VerifyResetCodeResult,
+} from '@/services/password-reset';
+import { createSession, destroyCurrentSession } from '@/services/session';
+import {
+  checkLoginAllowed,
+  clearLoginFailures,
+  clientIpFrom,
+  recordLoginFailure,
+  type LoginThrottleKey,
+} from '@/services/login-throttle';
+import { getCurrentUser } from '@/services/auth-guard';
+import { findUserByEmailOrPhone, type AccountType } from '@/services/users';
+import {
+  CONFLICT_MESSAGES,
+  registerAccount,
+  registrationSchemas,
+  type RegistrationUserType,
+} from '@/services/registration';
+import { ROLE_HOME, type AccountRole } from '@/lib/roles';
+import { DOCUMENT_FIELDS, DOCUMENT_KIND_LABELS, type DocumentKind } from '@/lib/documents';
+import {
+  claimDocuments,
+  findUnclaimableDocuments,
+  storeDocument,
+  type DocumentRef,
+} from '@/services/documents';
+import { resubmitDocuments } from '@/services/kyc';
+import {
+  createLoginChallenge,
+  hasTwoFactor,
+  resendLoginChallengeCode,
+  verifyLoginChallenge,
+  type ResendChallengeResult,
+  type TwoFactorMethod,
+} from '@/services/two-factor';
+import {
+  deleteDraft,
+  loadDraft,
+  saveDraft,
+  sendResumeLink,
+  type DraftInput,
+  type RegistrationDraft,
+  type SendResumeLinkResult,
+} from '@/services/registration-drafts';
+import {
+  confirmWhatsApp,
+  isAccountActive,
+  sendVerification,
+  type ConfirmWhatsAppResult,
+  type SendVerificationResult,
+  type VerificationChannel,
+} from '@/services/signup-verification';
+
+export type LoginResult =
+  | { ok: true; redirectTo: string }
+  // Password accepted; the login completes with `verifyLoginTwoFactor`
+  | { ok: true; twoFactor: { challenge: string; method: TwoFactorMethod } }
+  | { ok: false; error: 'invalid_input' | 'account_not_found' }
+  | { ok: false; error: 'wrong_password'; attemptsLeft: number }
+  | { ok: false; error: 'locked' | 'throttled'; retryAfterSeconds: number };
+
+export type TwoFactorLoginResult =
+  | { ok: true; redirectTo: string; usedRecoveryCode: boolean }
+  | { ok: false; error: 'invalid_code' | 'expired' | 'too_many_attempts' }
+  | { ok: false; error: 'locked' | 'throttled'; retryAfterSeconds: number };
+
+export interface CurrentAccount {
+  role: AccountRole;
+  dashboard: string;
+}
+
+export type UploadDocumentResult =
+  | { ok: true; document: { id: string; name: string; mimeType: string; size: number } }
+  | { ok: false; error: string };
+
+export type PasswordResetRequestResult =
+  | RequestResetResult
+  | { ok: false; error: 'invalid_input' };
+
+export type PasswordResetResult =
+  | { ok: true }
+  | { ok: false; error: 'invalid_input' | 'invalid_token' | 'weak' | 'reused' };
+
+export type SendVerificationActionResult =
+  | SendVerificationResult
+  | { ok: false; error: 'not_signed_in' };
+
+export type ConfirmWhatsAppActionResult =
+  | ConfirmWhatsAppResult
+  | { ok: false; error: 'not_signed_in' };
+
+export type SaveDraftResult = { ok: true; token: string } | { ok: false };
+
+export type ResubmitKycResult = { ok: true } | { ok: false; error: string };
+
+export type RegistrationResult =
+  | { ok: true; redirectTo: string }
+  | { ok: false; fieldErrors: Record<string, string> };
+
+async function register(
+  userType: RegistrationUserType,
+  accountType: AccountType,
+  values: unknown,
+  draftToken?: string | null
+): Promise<RegistrationResult> {
+  // The account type comes from the form, so it is checked before the lookup
+  if (!Object.hasOwn(registrationSchemas[userType], accountType)) {
+    return { ok: false, fieldErrors: { accountType: "Type de compte invalide." } };
+  }
+  const parsed = registrationSchemas[userType][accountType].safeParse(values);
+  if (!parsed.success) {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of parsed.error.issues) {
+      fieldErrors[issue.path.join('.')] ??= issue.message;
+    }
+    return { ok: false, fieldErrors };
+  }
+
+  // Documents were uploaded before submitting; the form only holds their ids
+  const documentRefs: (DocumentRef & { field: string })[] = [];
+  for (const [field, kind] of Object.entries(DOCUMENT_FIELDS)) {
+    const id = (parsed.data as Record<string, unknown>)[field];
+    if (typeof id === 'string' && id) {
+      documentRefs.push({ field, id, kind });
+    }
+  }
+  const unclaimable = await findUnclaimableDocuments(documentRefs);
+  if (unclaimable.length > 0) {
+    const fieldErrors: Record<string, string> = {};
+    for (const ref of unclaimable) {
+      fieldErrors[ref.field] = "Fichier introuvable. Veuillez le téléverser à nouveau.";
+    }
+    return { ok: false, fieldErrors };
+  }
+
+  const result = await registerAccount(userType, accountType, parsed.data);
+  if (!result.ok) {
+    const fieldErrors: Record<string, string> = {};
+    for (const field of result.conflicts) {
+      fieldErrors[field] = CONFLICT_MESSAGES[field];
+    }
+    return { ok: false, fieldErrors };
+  }
+  await claimDocuments(result.user.id, documentRefs);
+  if (draftToken) {
+    await deleteDraft(draftToken);
+  }
+
+  // The account stays inactive until both are confirmed; failed sends can be
+  // retried from the verification page
+  await sendVerification(result.user, 'whatsapp');
+  await sendVerification(result.user, 'email');
+
+  await createSession(result.user);
+  return { ok: true, redirectTo: '/verify' };
+}
+
+const uploadErrors: Record<string, string> = {
+  empty: "Le fichier est vide.",
+  too_large: "Le fichier dépasse 10 Mo.",
+  unsupported_type: "Format non accepté. Utilisez un PDF, JPEG, PNG ou WebP.",
+};
+
+/**
+ * Stores an identity or business document. Visitors may upload during
+ * signup; the document is attached to the account when it is created.
+ */
+export async function uploadDocument(formData: FormData): Promise<UploadDocumentResult> {
+  const file = formData.get('file');
+  const kind = formData.get('kind');
+  if (!(file instanceof File) || typeof kind !== 'string' || !(kind in DOCUMENT_KIND_LABELS)) {
+    return { ok: false, error: "Fichier manquant." };
+  }
+
+  const current = await getCurrentUser();
+  const result = await storeDocument(file, kind as DocumentKind, current?.user.id ?? null);
+  if (!result.ok) {
+    return { ok: false, error: uploadErrors[result.error] };
+  }
+  const { document } = result;
+  return {
+    ok: true,
+    document: { id: document.id, name: document.originalName, mimeType: document.mimeType, size: document.size },
+  };
+}
+
+/**
+ * Sends the documents an admin asked a livreur or chauffeur to upload again
+ * and puts the account back in the review queue.
+ */
+export async function resubmitKycDocuments(
+  documentIds: Partial<Record<DocumentKind, string>>
+): Promise<ResubmitKycResult> {
+  const current = await getCurrentUser();
+  if (!current) {
+    return { ok: false, error: "Session expirée. Veuillez vous reconnecter." };
+  }
+  const result = await resubmitDocuments(current.user, documentIds);
+  if (!result.ok) {
+    return {
+      ok: false,
+      error:
+        result.error === 'nothing_requested'
+          ? "Aucun document n'est demandé pour le moment."
+          : "Veuillez téléverser chacun des documents demandés.",
+    };
+  }
+  return { ok: true };
+}
+
+export async function registerClient(
+  accountType: AccountType,
+  values: IndividualClientFormValues | CompanyAccountFormValues,
+  draftToken?: string | null
+): Promise<RegistrationResult> {
+  return register('client', accountType, values, draftToken);
+}
+
+export async function registerDelivery(
+  accountType: AccountType,
+  values: IndividualDeliveryFormValues | CompanyAccountFormValues,
+  draftToken?: string | null
+): Promise<RegistrationResult> {
+  return register('delivery', accountType, values, draftToken);
+}
+
+export async function registerChauffeur(
+  accountType: AccountType,
+  values: IndividualChauffeurFormValues | CompanyAccountFormValues,
+  draftToken?: string | null
+): Promise<RegistrationResult> {
+  return register('chauffeur', accountType, values, draftToken);
+}
+
+const registrationUserTypes: RegistrationUserType[] = ['client', 'delivery', 'chauffeur'];
+const accountTypes: AccountType[] = ['individual', 'company'];
+
+/**
+ * Saves the registration form as a draft, without the password. Returns the
+ * token that identifies the draft; pass it back on later saves.
+ */
+export async function saveRegistrationDraft(token: string | null, input: DraftInput): Promise<SaveDraftResult> {
+  if (!registrationUserTypes.includes(input.userType) || !accountTypes.includes(input.accountType)) {
+    return { ok: false };
+  }
+  return { ok: true, token: await saveDraft(token, input) };
+}
+
+export async function loadRegistrationDraft(token: string): Promise<RegistrationDraft | null> {
+  return loadDraft(token);
+}
+
+/**
+ * Sends a link to resume a draft to the WhatsApp number or email it holds.
+ */
+export async function sendRegistrationResumeLink(
+  token: string,
+  channel: 'whatsapp' | 'email'
+): Promise<SendResumeLinkResult> {
+  return sendResumeLink(token, channel === 'email' ? 'email' : 'whatsapp', clientIpFrom(await headers()));
+}
+
+/**
+ * Checks the credentials against the user store and opens a session.
+ * Failures are counted per account and per IP; past a few of them each new
+ * attempt must wait longer, and too many lock the account for a while.
+ */
+export async function login(values: LoginFormValues): Promise<LoginResult> {
+  const parsed = loginSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: 'invalid_input' };
+  }
+
+  const ipKey: LoginThrottleKey = { scope: 'ip', value: clientIpFrom(await headers()) };
+  const user = await findUserByEmailOrPhone(parsed.data.emailOrPhone);
+  // Unknown identifiers are throttled too, so probing for accounts is slowed
+  const accountKey: LoginThrottleKey = {
+    scope: 'account',
+    value: user?.id ?? parsed.data.emailOrPhone.trim().toLowerCase(),
+  };
+
+  const allowed = await checkLoginAllowed([ipKey, accountKey]);
+  if (!allowed.ok) {
+    return allowed;
+  }
+
+  if (!user) {
+    await recordLoginFailure([ipKey, accountKey]);
+    return { ok: false, error: 'account_not_found' };
+  }
+  if (!(await verifyAccountPassword(user, parsed.data.password))) {
+    const attemptsLeft = await recordLoginFailure([ipKey, accountKey]);
+    return { ok: false, error: 'wrong_password', attemptsLeft: attemptsLeft ?? 0 };
+  }
+
+  // With 2FA, failures are only cleared once the second factor is checked
+  if (hasTwoFactor(user)) {
+    const challenge = await createLoginChallenge(user);
+    if (!challenge.ok) {
+      return { ok: false, error: 'throttled', retryAfterSeconds: challenge.retryAfterSeconds };
+    }
+    return { ok: true, twoFactor: { challenge: challenge.token, method: user.twoFactor!.method } };
+  }
+  await clearLoginFailures(accountKey);
+  const session = await createSession(user);
+  return { ok: true, redirectTo: isAccountActive(user) ? ROLE_HOME[session.role] : '/verify' };
+}
+
+/**
+ * Second login step: checks the authenticator, WhatsApp or recovery code
+ * and opens the session. Wrong codes are throttled like wrong passwords.
+ */
+export async function verifyLoginTwoFactor(challenge: string, code: string): Promise<TwoFactorLoginResult> {
+  const ipKey: LoginThrottleKey = { scope: 'ip', value: clientIpFrom(await headers()) };
+  const result = await verifyLoginChallenge(challenge, code, ipKey);
+  if (!result.ok) {
+    return result;
+  }
+  await clearLoginFailures({ scope: 'account', value: result.user.id });
+  const session = await createSession(result.user);
+  return {
+    ok: true,
+    redirectTo: isAccountActive(result.user) ? ROLE_HOME[session.role] : '/verify',
+    usedRecoveryCode: result.usedRecoveryCode,
+  };
+}
+
+export async function resendLoginTwoFactorCode(challenge: string): Promise<ResendChallengeResult> {
+  return resendLoginChallengeCode(challenge);
+}
+
+export async function logout(): Promise<void> {
+  await destroyCurrentSession();
+}
+
+/**
+ * Role and dashboard of the signed-in account, or null for visitors.
+ */
+export async function getCurrentAccount(): Promise<CurrentAccount | null> {
+  const current = await getCurrentUser();
+  if (!current) {
+    return null;
+  }
+  return {
+    role: current.session.role,
+    dashboard: isAccountActive(current.user) ? ROLE_HOME[current.session.role] : '/verify',
+  };
+}
+
+/**
+ * Sends a new signup verification code on WhatsApp or link by email to the
+ * signed-in account.
+ */
+export async function resendVerification(channel: VerificationChannel): Promise<SendVerificationActionResult> {
+  const current = await getCurrentUser();
+  if (!current) {
+    return { ok: false, error: 'not_signed_in' };
+  }
+  return sendVerification(current.user, channel === 'email' ? 'email' : 'whatsapp');
+}
+
+/**
+ * Confirms the WhatsApp number of the signed-in account.
+ */
+export async function confirmWhatsAppCode(code: string): Promise<ConfirmWhatsAppActionResult> {
+  const current = await getCurrentUser();
+  if (!current) {
+    return { ok: false, error: 'not_signed_in' };
+  }
+  const parsed = resetCodeSchema.safeParse({ code });
+  if (!parsed.success) {
+    return { ok: false, error: 'invalid_code' };
+  }
+  return confirmWhatsApp(current.user, parsed.data.code);
+}
+
+/**
+ * Sends a 6-digit password reset code over WhatsApp or email.
+ */
+export async function requestPasswordResetCode(
+  values: ForgotPasswordFormValues
+): Promise<PasswordResetRequestResult> {
+  const parsed = forgotPasswordSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: 'invalid_input' };
+  }
+  return requestPasswordReset(parsed.data.emailOrPhone, parsed.data.channel);
+}
+
+export async function verifyResetCode(requestId: string, code: string): Promise<VerifyResetCodeResult> {
+  const parsed = resetCodeSchema.safeParse({ code });
+  if (!parsed.success) {
+    return { ok: false, error: 'invalid_code' };
+  }
+  return verifyPasswordResetCode(requestId, parsed.data.code);
+}
+
+/**
+ * Sets the new password. Every existing session of the account is revoked.
+ */
+export async function resetPassword(
+  resetToken: string,
+  values: NewPasswordFormValues
+): Promise<PasswordResetResult> {
+  const parsed = newPasswordSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: 'invalid_input' };
+  }
+  return completePasswordReset(resetToken, parsed.data.password);
 }
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { getAuthorizedUser } from '@/services/auth-guard';
+import { recordCourierPosition } from '@/services/courier-positions';
+
+const positionSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+/**
+ * GPS position reported by the livreur and chauffeur apps while they work,
+ * shown on the tracking page of the order they are delivering.
+ */
+export async function POST(request: Request) {
+  const current = await getAuthorizedUser();
+  if (!current) {
+    return NextResponse.json({ error: 'unauthenticated' }, { status: 401 });
+  }
+  if (current.session.role !== 'livreur' && current.session.role !== 'chauffeur') {
+    return NextResponse.json({ error: 'forbidden' }, { status: 403 });
+  }
+
+  const parsed = positionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'invalid_position' }, { status: 400 });
+  }
+  await recordCourierPosition(current.user.id, parsed.data);
+  return new NextResponse(null, { status: 204 });
+}
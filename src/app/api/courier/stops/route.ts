@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { getAuthorizedUser } from '@/services/auth-guard';
+import { updateStopStatus } from '@/services/orders';
+
+const stopUpdateSchema = z.object({
+  orderId: z.string().min(1),
+  stopId: z.string().min(1),
+  status: z.enum(['done', 'failed']),
+  reason: z.string().trim().max(300).optional(),
+});
+
+const ERROR_STATUS = { not_found: 404, not_assigned: 403, not_under_way: 409 } as const;
+
+/**
+ * Outcome of a pickup or drop-off of a multi-stop order, reported by the
+ * livreur or chauffeur in charge of it.
+ */
+export async function POST(request: Request) {
+  const current = await getAuthorizedUser();
+  if (!current) {
+    return NextResponse.json({ error: 'unauthenticated' }, { status: 401 });
+  }
+  if (current.session.role !== 'livreur' && current.session.role !== 'chauffeur') {
+    return NextResponse.json({ error: 'forbidden' }, { status: 403 });
+  }
+
+  const parsed = stopUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'invalid_stop_update' }, { status: 400 });
+  }
+  const { orderId, stopId, status, reason } = parsed.data;
+  const result = await updateStopStatus(orderId, stopId, status, current.user.id, reason || undefined);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: ERROR_STATUS[result.error] });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getAuthorizedUser } from '@/services/auth-guard';
+import { findDocument, readDocumentFile } from '@/services/documents';
+
+/**
+ * Streams a stored document to its owner or to an admin.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const current = await getAuthorizedUser();
+  if (!current) {
+    return NextResponse.json({ error: 'unauthenticated' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const document = await findDocument(id);
+  // Same answer for missing and forbidden documents, so ids cannot be probed
+  if (!document || (document.ownerId !== current.user.id && current.session.role !== 'admin')) {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 });
+  }
+
+  const bytes = await readDocumentFile(document);
+  if (!bytes) {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(bytes), {
+    headers: {
+      'Content-Type': document.mimeType,
+      'Content-Length': String(bytes.length),
+      'Content-Disposition': `inline; filename="${encodeURIComponent(document.originalName)}"`,
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getAuthorizedUser } from '@/services/auth-guard';
+import { readDataExport } from '@/services/personal-data';
+
+/**
+ * Sends a personal data archive to the account it was built for.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const current = await getAuthorizedUser();
+  if (!current) {
+    return NextResponse.json({ error: 'unauthenticated' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const archive = await readDataExport(current.user.id, id);
+  if (!archive) {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(archive), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Length': String(archive.length),
+      'Content-Disposition': `attachment; filename="mapyoo-donnees-${id.slice(0, 8)}.zip"`,
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
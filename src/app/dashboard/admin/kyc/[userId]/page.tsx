@@ -0,0 +1,100 @@
+import React from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import DocumentViewer from '@/components/document-viewer';
+import KycReviewActions from '@/components/kyc-review-actions';
+import { DOCUMENT_KIND_LABELS, type DocumentKind } from '@/lib/documents';
+import { KYC_STATUS_LABELS } from '@/lib/kyc';
+import { ROLE_LABELS } from '@/lib/roles';
+import { requireRole } from '@/services/auth-guard';
+import { kycOf, latestDocumentsByKind, requiresKyc } from '@/services/kyc';
+import { accountRoleOf, displayNameOf, findUserById } from '@/services/users';
+
+export default async function KycReviewPage({ params }: { params: Promise<{ userId: string }> }) {
+  await requireRole('admin');
+  const { userId } = await params;
+  const user = await findUserById(userId);
+  if (!user || !requiresKyc(user)) {
+    notFound();
+  }
+
+  const kyc = kycOf(user);
+  const documents = await latestDocumentsByKind(user.id);
+  const documentKinds = Object.keys(documents) as DocumentKind[];
+
+  // Form data shown next to the documents, in the order of the signup form
+  const fields: [string, string | undefined][] = [
+    ['Type', `${ROLE_LABELS[accountRoleOf(user)]} · ${user.accountType === 'company' ? 'Société' : 'Individuel'}`],
+    ['Prénom', user.firstName],
+    ['Nom', user.lastName],
+    ["Nom de l'entreprise", user.companyName],
+    ['Téléphone', user.phone],
+    ['WhatsApp', user.whatsappPhone],
+    ['Email', user.email],
+    ['Numéro CIN', user.cin],
+    ['Numéro CAE', user.cae],
+    ['Permis de conduire', user.drivingLicense],
+    ['RC ou IF', user.rcOrIfNumber],
+    ['ICE', user.ice],
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Link href="/dashboard/admin/kyc" className="text-primary text-sm">
+        ← Retour à la file de vérification
+      </Link>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              {displayNameOf(user)}
+              <Badge variant={kyc.status === 'rejected' ? 'destructive' : 'secondary'}>
+                {KYC_STATUS_LABELS[kyc.status]}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="space-y-2 text-sm">
+              {fields
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="font-medium">{value}</dd>
+                  </div>
+                ))}
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Documents</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {documentKinds.length === 0 ? (
+              <p className="text-muted-foreground">Aucun document téléversé.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {documentKinds.map((kind) => (
+                  <DocumentViewer key={kind} document={documents[kind]!} label={DOCUMENT_KIND_LABELS[kind]} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Décision</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <KycReviewActions userId={user.id} documentKinds={documentKinds} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use server';
+
+import * as z from 'zod';
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/services/auth-guard';
+import { reviewAccount, type KycDecision } from '@/services/kyc';
+import { DOCUMENT_KIND_LABELS, type DocumentKind } from '@/lib/documents';
+
+export type KycDecisionResult = { ok: true } | { ok: false; error: string };
+
+const documentKinds = Object.keys(DOCUMENT_KIND_LABELS) as [DocumentKind, ...DocumentKind[]];
+
+const kycDecisionSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approve') }),
+  z.object({
+    decision: z.literal('reject'),
+    reason: z.string().trim().min(3, { message: "Veuillez indiquer le motif du refus." }),
+  }),
+  z.object({
+    decision: z.literal('request_reupload'),
+    kinds: z.array(z.enum(documentKinds)).min(1, { message: "Choisissez au moins un document." }),
+    reason: z.string().trim().min(3, { message: "Veuillez expliquer ce qui doit être corrigé." }),
+  }),
+]);
+
+/**
+ * Approves, rejects or asks for new documents on a livreur or chauffeur
+ * account.
+ */
+export async function decideKyc(userId: string, decision: KycDecision): Promise<KycDecisionResult> {
+  const { user: admin } = await requireRole('admin');
+  const parsed = kycDecisionSchema.safeParse(decision);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+
+  const updated = await reviewAccount(userId, admin.id, parsed.data);
+  if (!updated) {
+    return { ok: false, error: "Compte introuvable." };
+  }
+  revalidatePath('/dashboard/admin/kyc');
+  return { ok: true };
+}
@@ -0,0 +1,64 @@
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ROLE_LABELS } from '@/lib/roles';
+import { formatMoroccoTime } from '@/lib/scheduling';
+import { requireRole } from '@/services/auth-guard';
+import { kycOf, listKycQueue } from '@/services/kyc';
+import { accountRoleOf, displayNameOf } from '@/services/users';
+
+export default async function KycQueuePage() {
+  await requireRole('admin');
+  const queue = await listKycQueue();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vérification des comptes ({queue.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {queue.length === 0 ? (
+          <p className="text-muted-foreground">Aucun compte en attente de vérification.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Compte</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Téléphone</TableHead>
+                <TableHead>Soumis le</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell className="font-medium">{displayNameOf(user)}</TableCell>
+                  <TableCell>
+                    {ROLE_LABELS[accountRoleOf(user)]} · {user.accountType === 'company' ? 'Société' : 'Individuel'}
+                  </TableCell>
+                  <TableCell>{user.phone}</TableCell>
+                  <TableCell>{formatMoroccoTime(kycOf(user).submittedAt, { dateStyle: 'short', timeStyle: 'short' })}</TableCell>
+                  <TableCell className="text-right">
+                    <Link href={`/dashboard/admin/kyc/${user.id}`}>
+                      <Button size="sm">Examiner</Button>
+                    </Link>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { requireRole } from '@/services/auth-guard';
+import { listKycQueue } from '@/services/kyc';
+import { displayNameOf } from '@/services/users';
+
+export default async function AdminDashboardPage() {
+  const { user } = await requireRole('admin');
+  const queue = await listKycQueue();
+
+  return (
+    <div className="space-y-4">
+      <div className="text-2xl font-semibold">
+        Bienvenue, {displayNameOf(user)} !
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Vérification des comptes</CardTitle>
+          <CardDescription>
+            {queue.length === 0
+              ? "Aucun livreur ou chauffeur en attente."
+              : `${queue.length} compte(s) en attente de vérification.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/dashboard/admin/kyc">
+            <Button>Ouvrir la file</Button>
+          </Link>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Tarification</CardTitle>
+          <CardDescription>Tarifs par type de livraison, poids, horaires et zones.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/dashboard/admin/pricing">
+            <Button>Modifier les tarifs</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/services/auth-guard';
+import { savePricingRules } from '@/services/pricing';
+import { pricingRulesSchema, type PricingRulesFormValues } from '@/lib/schemas';
+
+export type SavePricingResult = { ok: true } | { ok: false; error: string };
+
+export async function savePricing(values: PricingRulesFormValues): Promise<SavePricingResult> {
+  const { user: admin } = await requireRole('admin');
+  const parsed = pricingRulesSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  await savePricingRules(parsed.data, admin.id);
+  revalidatePath('/dashboard/admin/pricing');
+  return { ok: true };
+}
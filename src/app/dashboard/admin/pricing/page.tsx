@@ -0,0 +1,33 @@
+import React from 'react';
+import Link from 'next/link';
+import PricingRulesForm from '@/components/pricing-rules-form';
+import { formatMoroccoTime } from '@/lib/scheduling';
+import { requireRole } from '@/services/auth-guard';
+import { getPricingRules } from '@/services/pricing';
+import { displayNameOf, findUserById } from '@/services/users';
+
+export default async function PricingPage() {
+  await requireRole('admin');
+  const { rules, updatedAt, updatedBy } = await getPricingRules();
+  const editor = updatedBy ? await findUserById(updatedBy) : null;
+
+  return (
+    <div className="space-y-4">
+      <Link href="/dashboard/admin" className="text-primary text-sm">
+        ← Retour au tableau de bord
+      </Link>
+      <div>
+        <h1 className="text-2xl font-semibold">Tarification</h1>
+        <p className="text-sm text-muted-foreground">
+          {updatedAt
+            ? `Modifiée le ${formatMoroccoTime(updatedAt, { dateStyle: 'long', timeStyle: 'short' })}${
+                editor ? ` par ${displayNameOf(editor)}` : ''
+              }.`
+            : 'Tarifs par défaut.'}{' '}
+          Les commandes déjà passées gardent leur prix.
+        </p>
+      </div>
+      <PricingRulesForm defaultValues={rules} />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import React from 'react';
+import DashboardShell from '@/components/dashboard-shell';
+import { ROLE_LABELS } from '@/lib/roles';
+import { requireRole } from '@/services/auth-guard';
+
+export default async function ChauffeurDashboardLayout({ children }: { children: React.ReactNode }) {
+  await requireRole('chauffeur');
+  return <DashboardShell title={ROLE_LABELS.chauffeur}>{children}</DashboardShell>;
+}
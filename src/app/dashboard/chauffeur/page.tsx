@@ -0,0 +1,17 @@
+import React from 'react';
+import KycStatusCard from '@/components/kyc-status-card';
+import { requireRole } from '@/services/auth-guard';
+import { displayNameOf } from '@/services/users';
+
+export default async function ChauffeurDashboardPage() {
+  const { user } = await requireRole('chauffeur');
+
+  return (
+    <div className="space-y-4">
+      <div className="text-2xl font-semibold">
+        Bienvenue, {displayNameOf(user)} !
+      </div>
+      <KycStatusCard user={user} />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import React from 'react';
+import DashboardShell from '@/components/dashboard-shell';
+import { ROLE_LABELS } from '@/lib/roles';
+import { requireRole } from '@/services/auth-guard';
+
+export default async function ClientDashboardLayout({ children }: { children: React.ReactNode }) {
+  await requireRole('client_individual');
+  return <DashboardShell title={ROLE_LABELS.client_individual}>{children}</DashboardShell>;
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import Link from 'next/link';
+import OrderHistory from '@/components/order-history';
+import { parseOrderFilters } from '@/lib/orders';
+import { formatPrice } from '@/lib/pricing';
+import { requireRole } from '@/services/auth-guard';
+import { canPlaceOrders, customerIdOf, listCustomerOrders } from '@/services/orders';
+import { getPricingRules } from '@/services/pricing';
+import { walletBalanceOf } from '@/services/wallet';
+
+export default async function ClientOrdersPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | undefined>>;
+}) {
+  const { user } = await requireRole('client_individual');
+  const params = await searchParams;
+  const filters = parseOrderFilters(params);
+  const result = await listCustomerOrders(customerIdOf(user), filters, Number(params.page) || 1);
+  const { rules } = await getPricingRules();
+  const balance = await walletBalanceOf(customerIdOf(user));
+
+  return (
+    <div className="space-y-4">
+      <Link href="/dashboard/client" className="text-primary text-sm">
+        ← Retour au tableau de bord
+      </Link>
+      <h1 className="text-2xl font-semibold">Mes commandes</h1>
+      {balance !== 0 && <p className="text-sm">Crédit MapYOO : {formatPrice(balance)}</p>}
+      <OrderHistory
+        result={result}
+        filters={filters}
+        cancellationRules={rules.cancellation}
+        canCancel={canPlaceOrders(user)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { requireRole } from '@/services/auth-guard';
+import { displayNameOf } from '@/services/users';
+
+export default async function ClientDashboardPage() {
+  const { user } = await requireRole('client_individual');
+
+  return (
+    <div className="space-y-4">
+      <div className="text-2xl font-semibold">
+        Bienvenue, {displayNameOf(user)} !
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Livrer un colis</CardTitle>
+          <CardDescription>Ramassage et livraison de vos documents et colis.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/package-delivery">
+            <Button>Commander</Button>
+          </Link>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Mes commandes</CardTitle>
+          <CardDescription>Historique et suivi de vos livraisons.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/dashboard/client/orders">
+            <Button variant="outline">Voir l'historique</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
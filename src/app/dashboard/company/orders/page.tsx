@@ -0,0 +1,41 @@
+import React from 'react';
+import Link from 'next/link';
+import OrderHistory from '@/components/order-history';
+import { parseOrderFilters } from '@/lib/orders';
+import { formatPrice } from '@/lib/pricing';
+import { requireStaffPermission } from '@/services/auth-guard';
+import { canPlaceOrders, customerIdOf, listCustomerOrders } from '@/services/orders';
+import { getPricingRules } from '@/services/pricing';
+import { walletBalanceOf } from '@/services/wallet';
+
+export default async function CompanyOrdersPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | undefined>>;
+}) {
+  const { user } = await requireStaffPermission('view_orders');
+  const params = await searchParams;
+  const filters = parseOrderFilters(params);
+  const result = await listCustomerOrders(customerIdOf(user), filters, Number(params.page) || 1);
+  const { rules } = await getPricingRules();
+  const balance = await walletBalanceOf(customerIdOf(user));
+
+  return (
+    <div className="space-y-4">
+      <Link href="/dashboard/company" className="text-primary text-sm">
+        ← Retour au tableau de bord
+      </Link>
+      <div>
+        <h1 className="text-2xl font-semibold">Commandes de l'entreprise</h1>
+        <p className="text-sm text-muted-foreground">Toutes les commandes passées par les membres de l'équipe.</p>
+      </div>
+      {balance !== 0 && <p className="text-sm">Crédit MapYOO : {formatPrice(balance)}</p>}
+      <OrderHistory
+        result={result}
+        filters={filters}
+        cancellationRules={rules.cancellation}
+        canCancel={canPlaceOrders(user)}
+      />
+    </div>
+  );
+}
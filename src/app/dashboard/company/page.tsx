@@ -0,0 +1,62 @@
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { STAFF_ROLE_LABELS, hasStaffPermission } from '@/lib/company-roles';
+import { requireRole } from '@/services/auth-guard';
+import { companyIdOf, listStaff, staffRoleOf } from '@/services/companies';
+import { displayNameOf } from '@/services/users';
+
+export default async function CompanyDashboardPage() {
+  const { user } = await requireRole('client_company');
+  const staffRole = staffRoleOf(user) ?? 'owner';
+  const companyId = companyIdOf(user);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-2xl font-semibold">
+        Bienvenue, {displayNameOf(user)} !
+      </div>
+      <p className="text-muted-foreground">Rôle : {STAFF_ROLE_LABELS[staffRole]}</p>
+      {hasStaffPermission(staffRole, 'place_orders') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Livrer un colis</CardTitle>
+            <CardDescription>Ramassage et livraison de vos colis.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/package-delivery">
+              <Button>Commander</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+      {hasStaffPermission(staffRole, 'view_orders') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Commandes</CardTitle>
+            <CardDescription>Historique et suivi des livraisons de l'entreprise.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/dashboard/company/orders">
+              <Button variant="outline">Voir l'historique</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+      {companyId && hasStaffPermission(staffRole, 'manage_staff') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Équipe</CardTitle>
+            <CardDescription>{(await listStaff(companyId)).length} membre(s)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/dashboard/company/staff">
+              <Button>Gérer l'équipe</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use server';
+
+import * as z from 'zod';
+import { revalidatePath } from 'next/cache';
+import { requireStaffPermission } from '@/services/auth-guard';
+import { changeStaffRole, inviteStaff, removeStaff, revokeInvitation } from '@/services/companies';
+import { INVITABLE_STAFF_ROLES } from '@/lib/company-roles';
+import { staffInvitationSchema, type StaffInvitationFormValues } from '@/lib/schemas';
+
+export type StaffActionResult = { ok: true } | { ok: false; error: string };
+
+const inviteErrors: Record<string, string> = {
+  forbidden: "Seul le propriétaire peut gérer l'équipe.",
+  already_member: "Cette personne fait déjà partie de l'équipe.",
+  delivery_failed: "L'invitation n'a pas pu être envoyée. Veuillez réessayer.",
+};
+
+const changeErrors: Record<string, string> = {
+  forbidden: "Seul le propriétaire peut gérer l'équipe.",
+  not_found: "Membre ou invitation introuvable.",
+};
+
+const PATH = '/dashboard/company/staff';
+
+export async function inviteStaffMember(values: StaffInvitationFormValues): Promise<StaffActionResult> {
+  const { user } = await requireStaffPermission('manage_staff');
+  const parsed = staffInvitationSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  const result = await inviteStaff(user, parsed.data);
+  if (!result.ok) {
+    return { ok: false, error: inviteErrors[result.error] };
+  }
+  revalidatePath(PATH);
+  return { ok: true };
+}
+
+export async function cancelStaffInvitation(invitationId: string): Promise<StaffActionResult> {
+  const { user } = await requireStaffPermission('manage_staff');
+  const result = await revokeInvitation(user, invitationId);
+  if (!result.ok) {
+    return { ok: false, error: changeErrors[result.error] };
+  }
+  revalidatePath(PATH);
+  return { ok: true };
+}
+
+export async function updateStaffRole(userId: string, role: string): Promise<StaffActionResult> {
+  const { user } = await requireStaffPermission('manage_staff');
+  const parsed = z.enum(INVITABLE_STAFF_ROLES).safeParse(role);
+  if (!parsed.success) {
+    return { ok: false, error: "Rôle invalide." };
+  }
+  const result = await changeStaffRole(user, userId, parsed.data);
+  if (!result.ok) {
+    return { ok: false, error: changeErrors[result.error] };
+  }
+  revalidatePath(PATH);
+  return { ok: true };
+}
+
+export async function removeStaffMember(userId: string): Promise<StaffActionResult> {
+  const { user } = await requireStaffPermission('manage_staff');
+  const result = await removeStaff(user, userId);
+  if (!result.ok) {
+    return { ok: false, error: changeErrors[result.error] };
+  }
+  revalidatePath(PATH);
+  return { ok: true };
+}
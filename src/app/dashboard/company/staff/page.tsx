@@ -0,0 +1,100 @@
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import CancelInvitationButton from '@/components/cancel-invitation-button';
+import StaffInviteForm from '@/components/staff-invite-form';
+import StaffMemberActions from '@/components/staff-member-actions';
+import { STAFF_ROLE_LABELS } from '@/lib/company-roles';
+import { formatMoroccoTime } from '@/lib/scheduling';
+import { requireStaffPermission } from '@/services/auth-guard';
+import { companyIdOf, listPendingInvitations, listStaff, staffRoleOf } from '@/services/companies';
+import { displayNameOf } from '@/services/users';
+
+export default async function CompanyStaffPage() {
+  const { user } = await requireStaffPermission('manage_staff');
+  const companyId = companyIdOf(user)!;
+  const [staff, invitations] = await Promise.all([listStaff(companyId), listPendingInvitations(companyId)]);
+
+  return (
+    <div className="space-y-4">
+      <Link href="/dashboard/company" className="text-primary text-sm">
+        ← Retour au tableau de bord
+      </Link>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Équipe ({staff.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nom</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Rôle</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staff.map((member) => {
+                  const role = staffRoleOf(member)!;
+                  return (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">{displayNameOf(member)}</TableCell>
+                      <TableCell>{member.email}</TableCell>
+                      <TableCell>
+                        {role === 'owner' ? (
+                          STAFF_ROLE_LABELS.owner
+                        ) : (
+                          <StaffMemberActions userId={member.id} name={displayNameOf(member)} role={role} />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {invitations.length > 0 && (
+              <>
+                <h3 className="font-medium mt-6 mb-2">Invitations en attente</h3>
+                <Table>
+                  <TableBody>
+                    {invitations.map((invitation) => (
+                      <TableRow key={invitation.id}>
+                        <TableCell>{invitation.contact}</TableCell>
+                        <TableCell>{STAFF_ROLE_LABELS[invitation.role]}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          Expire le {formatMoroccoTime(invitation.expiresAt, { dateStyle: 'short' })}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <CancelInvitationButton invitationId={invitation.id} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Inviter un membre</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <StaffInviteForm />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/services/auth-guard';
+import { cancelCustomerOrder } from '@/services/order-cancellation';
+import type { RefundDestination } from '@/lib/cancellation';
+
+export type CancelOrderActionResult = { ok: true } | { ok: false; error: string };
+
+const cancelErrors: Record<string, string> = {
+  forbidden: "Votre rôle ne permet pas d'annuler des commandes.",
+  not_found: "Commande introuvable.",
+  not_cancellable: "Cette commande ne peut plus être annulée.",
+};
+
+// Order histories of individual clients and of companies
+const HISTORY_PATHS = ['/dashboard/client/orders', '/dashboard/company/orders'];
+
+export async function cancelMyOrder(
+  trackingNumber: string,
+  refundTo: RefundDestination
+): Promise<CancelOrderActionResult> {
+  const { user } = await requireRole('client_individual', 'client_company');
+  const result = await cancelCustomerOrder(user, trackingNumber, refundTo === 'card' ? 'card' : 'wallet');
+  if (!result.ok) {
+    return { ok: false, error: cancelErrors[result.error] };
+  }
+  for (const path of HISTORY_PATHS) {
+    revalidatePath(path);
+  }
+  return { ok: true };
+}
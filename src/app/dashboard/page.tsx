@@ -1,15 +1,9 @@
-"use client";
+import { redirect } from 'next/navigation';
+import { ROLE_HOME } from '@/lib/roles';
+import { requireRole } from '@/services/auth-guard';
 
-import React from 'react';
-
-const DashboardPage = () => {
-  return (
-    <div className="flex justify-center items-center min-h-screen bg-secondary">
-      <div className="text-2xl font-semibold">
-        Welcome to the Dashboard!
-      </div>
-    </div>
-  );
-};
-
-export default DashboardPage;
+// Sends each account to the dashboard of its role.
+export default async function DashboardPage() {
+  const { session } = await requireRole();
+  redirect(ROLE_HOME[session.role]);
+}
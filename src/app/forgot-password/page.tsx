@@ -0,0 +1,277 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useToast } from '@/hooks/use-toast';
+import {
+  forgotPasswordSchema,
+  newPasswordSchema,
+  resetCodeSchema,
+  type ForgotPasswordFormValues,
+  type NewPasswordFormValues,
+  type ResetCodeFormValues,
+} from '@/lib/schemas';
+import { requestPasswordResetCode, resetPassword, verifyResetCode } from '@/app/actions';
+import PasswordStrengthMeter from '@/components/password-strength-meter';
+
+type Step = 'request' | 'verify' | 'reset';
+
+const requestErrors: Record<string, string> = {
+  invalid_input: "Veuillez vérifier les informations saisies.",
+  account_not_found: "Aucun compte trouvé avec ces informations.",
+  delivery_failed: "Le code n'a pas pu être envoyé. Veuillez réessayer.",
+  cooldown: "Un code vient d'être envoyé. Patientez une minute avant d'en demander un nouveau.",
+  too_many_requests: "Trop de codes demandés pour ce compte. Veuillez réessayer dans une heure.",
+};
+
+const codeErrors: Record<string, string> = {
+  invalid_code: "Code incorrect.",
+  expired: "Ce code a expiré. Veuillez en demander un nouveau.",
+  too_many_attempts: "Trop de tentatives. Veuillez demander un nouveau code.",
+};
+
+const resetErrors: Record<string, string> = {
+  invalid_input: "Veuillez vérifier le mot de passe saisi.",
+  weak: "Ce mot de passe ne respecte pas les règles de sécurité.",
+  reused: "Vous avez déjà utilisé ce mot de passe récemment. Choisissez-en un nouveau.",
+};
+
+const ForgotPasswordPage = () => {
+  const [step, setStep] = useState<Step>('request');
+  const [requestId, setRequestId] = useState<string | null>(null);
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [channel, setChannel] = useState<ForgotPasswordFormValues['channel']>('whatsapp');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const requestForm = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { emailOrPhone: "", channel: 'whatsapp' },
+  });
+
+  const codeForm = useForm<ResetCodeFormValues>({
+    resolver: zodResolver(resetCodeSchema),
+    defaultValues: { code: "" },
+  });
+
+  const passwordForm = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  async function onRequest(values: ForgotPasswordFormValues) {
+    setIsLoading(true);
+    setError(null);
+    const result = await requestPasswordResetCode(values);
+    setIsLoading(false);
+
+    if (!result.ok) {
+      setError(requestErrors[result.error]);
+      return;
+    }
+    setRequestId(result.requestId);
+    setChannel(values.channel);
+    codeForm.reset();
+    setStep('verify');
+  }
+
+  async function onVerify(values: ResetCodeFormValues) {
+    if (!requestId) return;
+    setIsLoading(true);
+    setError(null);
+    const result = await verifyResetCode(requestId, values.code);
+    setIsLoading(false);
+
+    if (!result.ok) {
+      setError(codeErrors[result.error]);
+      if (result.error !== 'invalid_code') {
+        setStep('request');
+      }
+      return;
+    }
+    setResetToken(result.resetToken);
+    setStep('reset');
+  }
+
+  async function onReset(values: NewPasswordFormValues) {
+    if (!resetToken) return;
+    setIsLoading(true);
+    setError(null);
+    const result = await resetPassword(resetToken, values);
+    setIsLoading(false);
+
+    if (!result.ok) {
+      if (result.error === 'invalid_token') {
+        setError("La demande a expiré. Veuillez recommencer.");
+        setStep('request');
+      } else {
+        setError(resetErrors[result.error]);
+      }
+      return;
+    }
+    toast({
+      title: "Mot de passe modifié",
+      description: "Vous pouvez maintenant vous connecter avec votre nouveau mot de passe.",
+    });
+    router.push('/login');
+  }
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-secondary p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Mot de passe oublié</CardTitle>
+          <CardDescription>
+            {step === 'request' && "Choisissez comment recevoir votre code de vérification."}
+            {step === 'verify' && `Entrez le code à 6 chiffres envoyé par ${channel === 'whatsapp' ? 'WhatsApp' : 'email'}.`}
+            {step === 'reset' && "Choisissez votre nouveau mot de passe."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {step === 'request' && (
+            <Form {...requestForm}>
+              <form onSubmit={requestForm.handleSubmit(onRequest)} className="space-y-4">
+                <FormField
+                  control={requestForm.control}
+                  name="emailOrPhone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email ou numéro de téléphone</FormLabel>
+                      <FormControl>
+                        <Input placeholder="john.doe@example.com ou +212612345678" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={requestForm.control}
+                  name="channel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Recevoir le code par</FormLabel>
+                      <FormControl>
+                        <RadioGroup onValueChange={field.onChange} value={field.value} className="flex space-x-4">
+                          <FormItem className="flex items-center space-x-2 space-y-0">
+                            <FormControl>
+                              <RadioGroupItem value="whatsapp" />
+                            </FormControl>
+                            <FormLabel className="font-normal">WhatsApp</FormLabel>
+                          </FormItem>
+                          <FormItem className="flex items-center space-x-2 space-y-0">
+                            <FormControl>
+                              <RadioGroupItem value="email" />
+                            </FormControl>
+                            <FormLabel className="font-normal">Email</FormLabel>
+                          </FormItem>
+                        </RadioGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? "Envoi..." : "Envoyer le code"}
+                </Button>
+              </form>
+            </Form>
+          )}
+
+          {step === 'verify' && (
+            <Form {...codeForm}>
+              <form onSubmit={codeForm.handleSubmit(onVerify)} className="space-y-4">
+                <FormField
+                  control={codeForm.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Code de vérification</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" autoComplete="one-time-code" maxLength={6} placeholder="123456" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? "Vérification..." : "Vérifier"}
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => setStep('request')}>
+                    Renvoyer un code
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          )}
+
+          {step === 'reset' && (
+            <Form {...passwordForm}>
+              <form onSubmit={passwordForm.handleSubmit(onReset)} className="space-y-4">
+                <FormField
+                  control={passwordForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nouveau mot de passe</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <PasswordStrengthMeter password={field.value} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={passwordForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirmer le mot de passe</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? "Enregistrement..." : "Enregistrer"}
+                </Button>
+              </form>
+            </Form>
+          )}
+
+          <div className="text-sm mt-4">
+            <Link href="/login" className="text-primary">
+              Retour à la connexion
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
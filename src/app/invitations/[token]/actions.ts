@@ -0,0 +1,46 @@
+'use server';
+
+import { createSession } from '@/services/session';
+import { acceptInvitation } from '@/services/companies';
+import { CONFLICT_MESSAGES } from '@/services/registration';
+import { isAccountActive } from '@/services/signup-verification';
+import { ROLE_HOME } from '@/lib/roles';
+import { staffAccountSchema, type StaffAccountFormValues } from '@/lib/schemas';
+import type { RegistrationResult } from '@/app/actions';
+
+/**
+ * Creates the account of an invited staff member and signs them in.
+ */
+export async function acceptStaffInvitation(
+  token: string,
+  values: StaffAccountFormValues
+): Promise<RegistrationResult> {
+  const parsed = staffAccountSchema.safeParse(values);
+  if (!parsed.success) {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of parsed.error.issues) {
+      fieldErrors[issue.path.join('.')] ??= issue.message;
+    }
+    return { ok: false, fieldErrors };
+  }
+
+  const result = await acceptInvitation(token, parsed.data);
+  if (!result.ok) {
+    if ('conflicts' in result) {
+      return {
+        ok: false,
+        fieldErrors: Object.fromEntries(result.conflicts.map((field) => [field, CONFLICT_MESSAGES[field]])),
+      };
+    }
+    return {
+      ok: false,
+      fieldErrors:
+        result.error === 'contact_mismatch'
+          ? { contact: "Utilisez l'email ou le numéro WhatsApp qui a reçu l'invitation." }
+          : { contact: "Cette invitation n'est plus valide." },
+    };
+  }
+
+  const session = await createSession(result.user);
+  return { ok: true, redirectTo: isAccountActive(result.user) ? ROLE_HOME[session.role] : '/verify' };
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import StaffSignupForm from '@/components/staff-signup-form';
+import { STAFF_ROLE_LABELS } from '@/lib/company-roles';
+import { findInvitation } from '@/services/companies';
+import { displayNameOf } from '@/services/users';
+
+export default async function InvitationPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const found = await findInvitation(token);
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-secondary p-4">
+      <Card className="w-full max-w-md">
+        {found ? (
+          <>
+            <CardHeader>
+              <CardTitle>Rejoindre {displayNameOf(found.company)}</CardTitle>
+              <CardDescription>
+                Vous êtes invité en tant que {STAFF_ROLE_LABELS[found.invitation.role].toLowerCase()}. Créez votre
+                accès personnel.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <StaffSignupForm
+                token={token}
+                channel={found.invitation.channel}
+                contact={found.invitation.contact}
+              />
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>Invitation invalide</CardTitle>
+              <CardDescription>
+                Ce lien a expiré, a déjà été utilisé ou a été annulé. Demandez une nouvelle invitation à votre
+                entreprise.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/login" className="text-primary text-sm">
+                Se connecter
+              </Link>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
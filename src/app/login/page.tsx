@@ -3,7 +3,6 @@
 import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
 import {
   Form,
   FormControl,
@@ -19,18 +18,60 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { useState } from 'react';
-
-// Define the schema for the login form
-const loginSchema = z.object({
-  emailOrPhone: z.string().min(1, { message: "Veuillez entrer votre email ou numéro de téléphone." }),
-  password: z.string().min(8, { message: "Le mot de passe doit contenir au moins 8 caractères." }),
-});
-
-type LoginFormValues = z.infer<typeof loginSchema>;
+import { loginSchema, type LoginFormValues } from '@/lib/schemas';
+import { login, type LoginResult } from '@/app/actions';
+import TwoFactorLoginStep from '@/components/two-factor-login-step';
+import type { TwoFactorMethod } from '@/services/two-factor';
+
+type LoginError = Extract<LoginResult, { ok: false }>;
+
+function formatWait(seconds: number): string {
+  return seconds < 60 ? `${seconds} seconde(s)` : `${Math.ceil(seconds / 60)} minute(s)`;
+}
+
+// Message for a failed login, with links to the recovery and signup pages.
+const LoginErrorMessage = ({ error }: { error: LoginError }) => {
+  switch (error.error) {
+    case 'account_not_found':
+      return (
+        <p className="text-red-500 text-sm mt-2">
+          Aucun compte trouvé avec ces informations.{' '}
+          <Link href="/register" className="text-primary">Créer un compte</Link>
+        </p>
+      );
+    case 'wrong_password':
+      return (
+        <p className="text-red-500 text-sm mt-2">
+          Mot de passe incorrect.
+          {error.attemptsLeft > 0 && error.attemptsLeft <= 2 && (
+            <> Encore {error.attemptsLeft} tentative(s) avant le blocage temporaire du compte.</>
+          )}{' '}
+          <Link href="/forgot-password" className="text-primary">Mot de passe oublié ?</Link>
+        </p>
+      );
+    case 'throttled':
+      return (
+        <p className="text-red-500 text-sm mt-2">
+          Trop de tentatives. Veuillez patienter {formatWait(error.retryAfterSeconds)} avant de réessayer.
+        </p>
+      );
+    case 'locked':
+      return (
+        <p className="text-red-500 text-sm mt-2">
+          Connexion temporairement bloquée après plusieurs échecs. Réessayez dans{' '}
+          {formatWait(error.retryAfterSeconds)} ou{' '}
+          <Link href="/forgot-password" className="text-primary">réinitialisez votre mot de passe</Link>.
+        </p>
+      );
+    case 'invalid_input':
+      return <p className="text-red-500 text-sm mt-2">Veuillez vérifier les informations saisies.</p>;
+  }
+};
 
 const LoginPage = () => {
   const [isLoading, setIsLoading] = useState(false); // Add loading state
-  const [loginError, setLoginError] = useState<string | null>(null); // State for login errors
+  const [loginError, setLoginError] = useState<LoginError | null>(null); // State for login errors
+  const [twoFactor, setTwoFactor] = useState<{ challenge: string; method: TwoFactorMethod } | null>(null);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -48,42 +89,41 @@ const LoginPage = () => {
     setIsLoading(true); // Set loading to true
     setLoginError(null); // Clear any previous errors
 
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 2000)); // Simulate a longer API call
-
-    // Simulated check for account existence and password (replace with actual API call)
-    let accountExists = true;
-    let passwordCorrect = true;
+    const result = await login(values);
 
-     if (values.emailOrPhone === 'notfound'){
-      accountExists = false;
-    }
-    if (values.password === 'wrong'){
-      passwordCorrect = false;
-    }
-
-    if (!accountExists) {
-      setLoginError("Aucun compte trouvé avec ces informations. Veuillez créer un compte.");
-      setIsLoading(false); // Set loading to false
+    if (!result.ok) {
+      setLoginError(result);
+      setIsLoading(false);
       return;
     }
-
-    if (!passwordCorrect) {
-      setLoginError("Mot de passe incorrect.  <Link href='/forgot-password' className='text-primary'>Mot de passe oublié ?</Link>");
+    if ('twoFactor' in result) {
+      setTwoFactor(result.twoFactor);
       setIsLoading(false);
       return;
     }
 
-    // Handle form submission
-    console.log("Login Data:", values);
+    finishLogin(result.redirectTo);
+    setIsLoading(false); // Set loading to false
+  }
+
+  function finishLogin(redirectTo: string) {
     toast({
       title: "Connexion réussie",
       description: `Bienvenue!`,
     });
 
-    // Redirect to dashboard or show success message
-    router.push('/dashboard');
-    setIsLoading(false); // Set loading to false
+    router.push(localNext() ?? redirectTo);
+  }
+
+  // The protected page that sent us here, if any. Resolved the way the
+  // browser would, so `/\evil.com` and the like cannot leave the site
+  function localNext(): string | null {
+    const next = new URLSearchParams(window.location.search).get('next');
+    if (!next || !URL.canParse(next, window.location.origin)) {
+      return null;
+    }
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : null;
   }
 
   return (
@@ -93,42 +133,52 @@ const LoginPage = () => {
           <CardTitle>Se connecter à votre compte</CardTitle>
         </CardHeader>
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="emailOrPhone"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email ou numéro de téléphone</FormLabel>
-                    <FormControl>
-                      <Input placeholder="john.doe@example.com ou +15551234567" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Mot de passe</FormLabel>
-                    <FormControl>
-                      <Input type="password" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              {loginError && (
-                <div className="text-red-500 text-sm mt-2" dangerouslySetInnerHTML={{ __html: loginError }} />
-              )}
-              <Button type="submit" disabled={isLoading}>
-                {isLoading ? "Connexion..." : "Se connecter"}
-              </Button>
-            </form>
-          </Form>
+          {twoFactor ? (
+            <TwoFactorLoginStep
+              challenge={twoFactor.challenge}
+              method={twoFactor.method}
+              onSuccess={finishLogin}
+              onRestart={() => {
+                setTwoFactor(null);
+                form.resetField('password');
+              }}
+            />
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="emailOrPhone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email ou numéro de téléphone</FormLabel>
+                      <FormControl>
+                        <Input placeholder="john.doe@example.com ou +212612345678" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Mot de passe</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {loginError && <LoginErrorMessage error={loginError} />}
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? "Connexion..." : "Se connecter"}
+                </Button>
+              </form>
+            </Form>
+          )}
           <div className="text-sm mt-2">
             <Link href="/forgot-password" className="text-primary">
               Mot de passe oublié ?
@@ -0,0 +1,73 @@
+'use server';
+
+import { requireRole } from '@/services/auth-guard';
+import {
+  canPlaceOrders,
+  createOrder,
+  listPickupWindows,
+  packageOrderInput,
+  sequenceStops,
+  type PickupWindowAvailability,
+} from '@/services/orders';
+import { quoteOrder } from '@/services/pricing';
+import type { Quote } from '@/lib/pricing';
+import { packageOrderSchema, type PackageOrderFormValues } from '@/lib/schemas';
+
+export type QuoteResult = { ok: true; quote: Quote } | { ok: false; error: string };
+
+export type PlaceOrderResult =
+  | { ok: true; trackingNumber: string }
+  | { ok: false; error: string; quote?: Quote };
+
+const FORBIDDEN = "Votre rôle ne permet pas de passer des commandes.";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Pickup windows the client can book on `day` (`YYYY-MM-DD`).
+ */
+export async function loadPickupWindows(day: string): Promise<PickupWindowAvailability[]> {
+  await requireRole('client_individual', 'client_company');
+  return DAY_PATTERN.test(day) ? listPickupWindows(day) : [];
+}
+
+export async function quotePackageOrder(values: PackageOrderFormValues): Promise<QuoteResult> {
+  const { user } = await requireRole('client_individual', 'client_company');
+  if (!canPlaceOrders(user)) {
+    return { ok: false, error: FORBIDDEN };
+  }
+  const parsed = packageOrderSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  return { ok: true, quote: await quoteOrder(await sequenceStops(packageOrderInput(parsed.data))) };
+}
+
+/**
+ * Places the order at the price computed now. `acceptedTotal` is the price
+ * the client saw; if it changed meanwhile, the new quote is sent back for
+ * confirmation instead.
+ */
+export async function placePackageOrder(
+  values: PackageOrderFormValues,
+  acceptedTotal: number
+): Promise<PlaceOrderResult> {
+  const { user } = await requireRole('client_individual', 'client_company');
+  if (!canPlaceOrders(user)) {
+    return { ok: false, error: FORBIDDEN };
+  }
+  const parsed = packageOrderSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  const input = await sequenceStops(packageOrderInput(parsed.data));
+  const quote = await quoteOrder(input);
+  if (quote.total !== acceptedTotal) {
+    return { ok: false, error: "Le prix a changé. Vérifiez le nouveau montant avant de confirmer.", quote };
+  }
+  const result = await createOrder(user, input, quote);
+  if (!result.ok) {
+    return { ok: false, error: "Ce créneau est complet. Choisissez-en un autre." };
+  }
+  return { ok: true, trackingNumber: result.order.trackingNumber };
+}
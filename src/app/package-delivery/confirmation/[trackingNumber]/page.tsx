@@ -0,0 +1,144 @@
+import React from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { CheckCircle } from 'lucide-react';
+import DashboardShell from '@/components/dashboard-shell';
+import QuoteSummary from '@/components/quote-summary';
+import StopList, { describeStop } from '@/components/stop-list';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  ORDER_STATUS_LABELS,
+  PACKAGE_TYPE_LABELS,
+  PAYMENT_METHOD_LABELS,
+  formatTrackingNumber,
+  normalizeTrackingNumber,
+} from '@/lib/orders';
+import { formatWindow } from '@/lib/scheduling';
+import { ROLE_HOME, ROLE_LABELS } from '@/lib/roles';
+import { requireRole } from '@/services/auth-guard';
+import { findCustomerOrder } from '@/services/orders';
+
+export default async function PackageOrderConfirmationPage({
+  params,
+}: {
+  params: Promise<{ trackingNumber: string }>;
+}) {
+  const { user, session } = await requireRole('client_individual', 'client_company');
+  const { trackingNumber } = await params;
+  const order = await findCustomerOrder(user, normalizeTrackingNumber(trackingNumber));
+  if (!order?.parcel) {
+    notFound();
+  }
+
+  const { parcel, recipient } = order;
+  const sections: { title: string; fields: [string, string | undefined][] }[] = [
+    // Multi-stop orders list their addresses and recipients in the itinerary
+    ...(order.stops
+      ? []
+      : [
+          {
+            title: 'Adresses',
+            fields: [
+              ['Ramassage', order.pickup.address],
+              ['Destination', order.destination.address],
+            ] as [string, string][],
+          },
+          {
+            title: 'Destinataire',
+            fields: [
+              ['Nom', `${recipient.firstName} ${recipient.lastName}`],
+              ['Téléphone', recipient.phone],
+            ] as [string, string][],
+          },
+        ]),
+    {
+      title: 'Colis',
+      fields: [
+        ['Type', PACKAGE_TYPE_LABELS[parcel.type]],
+        ['Poids', `${parcel.weightKg} kg`],
+        ['Dimensions', `${parcel.lengthCm} × ${parcel.widthCm} × ${parcel.heightCm} cm`],
+        ['Valeur déclarée', `${parcel.declaredValue} MAD`],
+        ['Contenu', parcel.description],
+      ],
+    },
+    {
+      title: 'Ramassage',
+      fields: [['Créneau', order.schedule ? formatWindow(order.schedule) : 'Dès que possible']],
+    },
+    {
+      title: 'Paiement',
+      fields: [['Mode', PAYMENT_METHOD_LABELS[order.paymentMethod]]],
+    },
+  ];
+
+  return (
+    <DashboardShell title={ROLE_LABELS[session.role]}>
+      <div className="max-w-2xl mx-auto space-y-4">
+        <Card>
+          <CardHeader className="items-center text-center">
+            <CheckCircle className="h-10 w-10 text-primary" />
+            <CardTitle>Commande confirmée</CardTitle>
+            <CardDescription>
+              Communiquez ce numéro de suivi au destinataire.{' '}
+              {order.schedule
+                ? 'Un livreur sera assigné peu avant le créneau de ramassage.'
+                : 'Un livreur vous sera bientôt assigné.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <p className="text-sm text-muted-foreground">Numéro de suivi</p>
+            <p className="text-2xl font-mono font-semibold tracking-wider">{formatTrackingNumber(order.trackingNumber)}</p>
+            <p className="text-sm text-muted-foreground mt-2">Statut : {ORDER_STATUS_LABELS[order.status]}</p>
+            <Link href={`/track/${order.trackingNumber}`} className="text-primary text-sm">
+              Page de suivi à partager
+            </Link>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Récapitulatif</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {order.stops && (
+              <div>
+                <h3 className="font-medium mb-2">Itinéraire</h3>
+                <p className="text-sm text-muted-foreground mb-2">Les arrêts dans l'ordre de passage du livreur.</p>
+                <StopList stops={order.stops.map(describeStop)} />
+              </div>
+            )}
+            {sections.map((section) => (
+              <div key={section.title}>
+                <h3 className="font-medium mb-2">{section.title}</h3>
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                  {section.fields
+                    .filter(([, value]) => value)
+                    .map(([label, value]) => (
+                      <div key={label}>
+                        <dt className="text-muted-foreground">{label}</dt>
+                        <dd className="font-medium">{value}</dd>
+                      </div>
+                    ))}
+                </dl>
+              </div>
+            ))}
+            <div>
+              <h3 className="font-medium mb-2">Prix</h3>
+              <QuoteSummary quote={order.quote} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex gap-2">
+          <Link href="/package-delivery">
+            <Button variant="outline">Nouvelle commande</Button>
+          </Link>
+          <Link href={ROLE_HOME[session.role]}>
+            <Button>Retour au tableau de bord</Button>
+          </Link>
+        </div>
+      </div>
+    </DashboardShell>
+  );
+}
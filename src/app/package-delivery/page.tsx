@@ -1,22 +1,23 @@
-import { Button } from "@/components/ui/button";
-import Link from "next/link";
+import React from 'react';
+import { redirect } from 'next/navigation';
+import DashboardShell from '@/components/dashboard-shell';
+import PackageOrderForm from '@/components/package-order-form';
+import { ROLE_HOME, ROLE_LABELS } from '@/lib/roles';
+import { requireRole } from '@/services/auth-guard';
+import { canPlaceOrders } from '@/services/orders';
+
+export default async function PackageDeliveryPage() {
+  const { user, session } = await requireRole('client_individual', 'client_company');
+  if (!canPlaceOrders(user)) {
+    redirect(ROLE_HOME[session.role]);
+  }
 
-export default function PackageDeliveryPage() {
   return (
-    <div className="flex flex-col min-h-screen bg-background">
-      <main className="container mx-auto py-12 flex-grow">
-        <section className="flex flex-col items-center justify-center p-8 rounded-lg shadow-md bg-card">
-          <h2 className="text-2xl font-semibold mb-4 text-foreground">
-            Deliver a Package
-          </h2>
-          <p className="text-muted-foreground mb-6 text-center">
-            Page en construction...
-          </p>
-          <Link href="/">
-            <Button>Retour à la page d'accueil</Button>
-          </Link>
-        </section>
-      </main>
-    </div>
+    <DashboardShell title={ROLE_LABELS[session.role]}>
+      <div className="max-w-4xl mx-auto space-y-4">
+        <h1 className="text-2xl font-semibold">Livrer un colis</h1>
+        <PackageOrderForm />
+      </div>
+    </DashboardShell>
   );
 }
@@ -12,20 +12,21 @@ import {
 } from '@/components/ui/dropdown-menu';
 import {MoreVertical} from 'lucide-react';
 import {useRouter} from 'next/navigation';
+import {getCurrentAccount, type CurrentAccount} from '@/app/actions';
 
 export default function Home() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const router = useRouter();
 
-  // Mock authentication check (replace with actual authentication logic)
-  const isAuthenticated = false; // Example: check if user is logged in
+  const [account, setAccount] = useState<CurrentAccount | null>(null);
 
+  useEffect(() => {
+    getCurrentAccount().then(setAccount);
+  }, []);
+
+  // Protected pages redirect visitors to the login page themselves
   const handleNavigation = (path: string) => {
-    if (isAuthenticated) {
-      router.push('/dashboard');
-    } else {
-      router.push('/login');
-    }
+    router.push(path);
   };
 
   return (
@@ -58,12 +59,20 @@ export default function Home() {
 
           <div className="flex items-center space-x-2">
             {/* Added flex and spacing for better alignment */}
-            <Link href="/login">
-              <Button variant="outline" className="w-32">Se connecter</Button>
-            </Link>
-            <Link href="/register">
-              <Button className="w-32">S'inscrire</Button>
-            </Link>
+            {account ? (
+              <Link href={account.dashboard}>
+                <Button className="w-40">Mon tableau de bord</Button>
+              </Link>
+            ) : (
+              <>
+                <Link href="/login">
+                  <Button variant="outline" className="w-32">Se connecter</Button>
+                </Link>
+                <Link href="/register">
+                  <Button className="w-32">S'inscrire</Button>
+                </Link>
+              </>
+            )}
             <Button variant="ghost">Aide</Button>
           </div>
 
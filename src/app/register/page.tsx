@@ -1,14 +1,42 @@
 'use client';
 
-import React, {useState} from 'react';
+import React, {useEffect, useState} from 'react';
 import {Card, CardContent, CardHeader, CardTitle} from '@/components/ui/card';
 import Link from 'next/link';
+import {loadRegistrationDraft} from '@/app/actions';
+import {DRAFT_STORAGE_KEY} from '@/hooks/use-registration-wizard';
+import type {RegistrationDraft} from '@/services/registration-drafts';
 
 const RegisterPage = () => {
   const [userType, setUserType] = useState<'client' | 'delivery' | 'chauffeur'>('client');
   const [accountType, setAccountType] = useState<'individual' | 'company'>(
     'individual'
   );
+  const [draft, setDraft] = useState<RegistrationDraft | null>(null);
+  const [draftToken, setDraftToken] = useState<string | null>(null);
+
+  // Resume a draft from a link (?draft=…) or the one last saved on this device
+  useEffect(() => {
+    const fromLink = new URLSearchParams(window.location.search).get('draft');
+    const token = fromLink ?? window.localStorage.getItem(DRAFT_STORAGE_KEY);
+    if (!token) return;
+
+    loadRegistrationDraft(token).then((loaded) => {
+      if (!loaded) {
+        window.localStorage.removeItem(DRAFT_STORAGE_KEY);
+        return;
+      }
+      window.localStorage.setItem(DRAFT_STORAGE_KEY, token);
+      setUserType(loaded.userType);
+      setAccountType(loaded.accountType);
+      setDraft(loaded);
+      setDraftToken(token);
+    });
+  }, []);
+
+  // The draft only fills the form it was saved from
+  const draftProps =
+    draft && draft.userType === userType && draft.accountType === accountType ? {draft, draftToken} : {};
 
   // Dynamically import client components
   const ClientRegistrationForm = React.useMemo(
@@ -110,7 +138,7 @@ const RegisterPage = () => {
                     Société
                   </button>
                 </div>
-                <SuspenseClientRegistrationForm accountType={accountType} />
+                <SuspenseClientRegistrationForm accountType={accountType} {...draftProps} />
               </>
             ) :  userType === 'chauffeur' ? (
                   <>
@@ -136,7 +164,7 @@ const RegisterPage = () => {
                     Société
                   </button>
                 </div>
-                <SuspenseChauffeurRegistrationForm accountType={accountType} />
+                <SuspenseChauffeurRegistrationForm accountType={accountType} {...draftProps} />
               </>
                 ) : (
               <>
@@ -162,7 +190,7 @@ const RegisterPage = () => {
                     Société
                   </button>
                 </div>
-                <SuspenseDeliveryRegistrationForm accountType={accountType} />
+                <SuspenseDeliveryRegistrationForm accountType={accountType} {...draftProps} />
               </>
             )}
 
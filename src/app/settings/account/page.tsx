@@ -0,0 +1,28 @@
+import React from 'react';
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import DeleteAccountForm from '@/components/delete-account-form';
+import { requireAccount } from '@/services/auth-guard';
+
+export default async function DeleteAccountPage() {
+  const { user } = await requireAccount();
+  if (user.userType === 'admin') {
+    redirect('/settings');
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Supprimer le compte</CardTitle>
+        <CardDescription>
+          Votre compte, vos documents et vos données personnelles seront définitivement effacés, conformément à la loi
+          09-08. L'historique de vos commandes est anonymisé et conservé pour nos obligations comptables. Cette action
+          est irréversible.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <DeleteAccountForm />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAccount } from '@/services/auth-guard';
+import { deleteOwnAccount } from '@/services/account-deletion';
+import { replaceDocument } from '@/services/kyc';
+import { saveNotificationPreferences } from '@/services/notification-preferences';
+import { profileKindOf, updateProfile } from '@/services/profile';
+import { CONFLICT_MESSAGES } from '@/services/registration';
+import { destroyCurrentSession } from '@/services/session';
+import { DOCUMENT_KIND_LABELS, type DocumentKind } from '@/lib/documents';
+import type { NotificationPreferences } from '@/lib/notifications';
+import {
+  companyProfileSchema,
+  deleteAccountSchema,
+  personalProfileSchema,
+  type CompanyProfileFormValues,
+  type DeleteAccountFormValues,
+  type PersonalProfileFormValues,
+} from '@/lib/schemas';
+
+export type SettingsActionResult = { ok: true } | { ok: false; error: string };
+
+export type UpdateProfileActionResult =
+  | { ok: true; reverify: boolean; kycReset: boolean }
+  | { ok: false; error: string; fieldErrors?: Record<string, string> };
+
+const deleteErrors: Record<string, string> = {
+  wrong_password: "Mot de passe incorrect.",
+  admin: "Les comptes administrateur ne peuvent pas être supprimés ici.",
+  has_staff: "Retirez d'abord les membres de votre équipe.",
+};
+
+export async function saveProfile(
+  values: PersonalProfileFormValues | CompanyProfileFormValues
+): Promise<UpdateProfileActionResult> {
+  const { user } = await requireAccount();
+  const schema = profileKindOf(user) === 'company' ? companyProfileSchema : personalProfileSchema;
+  const parsed = schema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  const result = await updateProfile(user, parsed.data);
+  if (!result.ok) {
+    return {
+      ok: false,
+      error: "Certaines informations sont déjà utilisées par un autre compte.",
+      fieldErrors: Object.fromEntries(result.conflicts.map((field) => [field, CONFLICT_MESSAGES[field]])),
+    };
+  }
+  revalidatePath('/settings');
+  return { ok: true, reverify: result.reverify.length > 0, kycReset: result.kycReset };
+}
+
+export async function replaceAccountDocument(kind: DocumentKind, documentId: string): Promise<SettingsActionResult> {
+  const { user } = await requireAccount();
+  if (!(kind in DOCUMENT_KIND_LABELS)) {
+    return { ok: false, error: "Document inconnu." };
+  }
+  const result = await replaceDocument(user, kind, documentId);
+  if (!result.ok) {
+    return { ok: false, error: "Veuillez téléverser le nouveau document." };
+  }
+  revalidatePath('/settings/documents');
+  return { ok: true };
+}
+
+export async function saveNotifications(preferences: NotificationPreferences): Promise<SettingsActionResult> {
+  const { user } = await requireAccount();
+  await saveNotificationPreferences(user, preferences);
+  revalidatePath('/settings/notifications');
+  return { ok: true };
+}
+
+export async function deleteMyAccount(values: DeleteAccountFormValues): Promise<SettingsActionResult> {
+  const { user } = await requireAccount();
+  const parsed = deleteAccountSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  const result = await deleteOwnAccount(user, parsed.data.password);
+  if (!result.ok) {
+    return { ok: false, error: deleteErrors[result.error] };
+  }
+  await destroyCurrentSession();
+  return { ok: true };
+}
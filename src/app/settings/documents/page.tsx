@@ -0,0 +1,61 @@
+import React from 'react';
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import DocumentReplaceForm from '@/components/document-replace-form';
+import KycStatusCard from '@/components/kyc-status-card';
+import { DOCUMENT_KIND_LABELS, documentKindsFor } from '@/lib/documents';
+import { formatMoroccoTime } from '@/lib/scheduling';
+import { requireAccount } from '@/services/auth-guard';
+import { staffRoleOf } from '@/services/companies';
+import { latestDocumentsByKind, requiresKyc } from '@/services/kyc';
+
+export default async function DocumentSettingsPage() {
+  const { user } = await requireAccount();
+  const kinds = documentKindsFor(user);
+  if (kinds.length === 0 || (staffRoleOf(user) ?? 'owner') !== 'owner') {
+    redirect('/settings');
+  }
+  const latest = await latestDocumentsByKind(user.id);
+  const requiresReview = requiresKyc(user);
+
+  return (
+    <>
+      {requiresReview && <KycStatusCard user={user} />}
+      <Card>
+        <CardHeader>
+          <CardTitle>Documents</CardTitle>
+          <CardDescription>
+            {requiresReview
+              ? "Remplacez un document expiré. Votre compte sera examiné à nouveau avant de recevoir des commandes."
+              : "Remplacez un document expiré."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {kinds.map((kind) => {
+            const document = latest[kind];
+            return (
+              <div key={kind} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{DOCUMENT_KIND_LABELS[kind]}</span>
+                  {document ? (
+                    <a
+                      href={`/api/documents/${document.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary"
+                    >
+                      Envoyé le {formatMoroccoTime(document.createdAt, { dateStyle: 'long' })}
+                    </a>
+                  ) : (
+                    <span className="text-muted-foreground">Aucun document</span>
+                  )}
+                </div>
+                <DocumentReplaceForm kind={kind} requiresReview={requiresReview} />
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
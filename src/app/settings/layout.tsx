@@ -0,0 +1,36 @@
+import React from 'react';
+import DashboardShell from '@/components/dashboard-shell';
+import SettingsNav, { type SettingsSection } from '@/components/settings-nav';
+import { documentKindsFor } from '@/lib/documents';
+import { ROLE_HOME, ROLE_LABELS } from '@/lib/roles';
+import { requireAccount } from '@/services/auth-guard';
+import { staffRoleOf } from '@/services/companies';
+import type { UserAccount } from '@/services/users';
+
+function sectionsFor(user: UserAccount): SettingsSection[] {
+  // Documents belong to the company owner, not to its staff
+  const hasDocuments = documentKindsFor(user).length > 0 && (staffRoleOf(user) ?? 'owner') === 'owner';
+  return [
+    { href: '/settings', label: 'Profil' },
+    ...(hasDocuments ? [{ href: '/settings/documents', label: 'Documents' }] : []),
+    { href: '/settings/notifications', label: 'Notifications' },
+    { href: '/settings/password', label: 'Mot de passe' },
+    { href: '/settings/two-factor', label: 'Double authentification' },
+    { href: '/settings/sessions', label: 'Sessions actives' },
+    { href: '/settings/privacy', label: 'Mes données' },
+    ...(user.userType !== 'admin' ? [{ href: '/settings/account', label: 'Supprimer le compte' }] : []),
+  ];
+}
+
+export default async function SettingsLayout({ children }: { children: React.ReactNode }) {
+  const { user, session } = await requireAccount();
+
+  return (
+    <DashboardShell title={ROLE_LABELS[session.role]}>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <SettingsNav sections={sectionsFor(user)} dashboardHref={ROLE_HOME[session.role]} />
+        <div className="md:col-span-3 space-y-4">{children}</div>
+      </div>
+    </DashboardShell>
+  );
+}
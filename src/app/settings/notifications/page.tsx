@@ -0,0 +1,21 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import NotificationPreferencesForm from '@/components/notification-preferences-form';
+import { requireAccount } from '@/services/auth-guard';
+import { notificationPreferencesOf } from '@/services/notification-preferences';
+
+export default async function NotificationSettingsPage() {
+  const { user } = await requireAccount();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Choisissez les messages que vous recevez sur WhatsApp et par email.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <NotificationPreferencesForm preferences={notificationPreferencesOf(user)} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import ProfileForm from '@/components/profile-form';
+import { requireAccount } from '@/services/auth-guard';
+import { profileKindOf } from '@/services/profile';
+
+export default async function ProfileSettingsPage() {
+  const { user } = await requireAccount();
+  const kind = profileKindOf(user);
+  const contacts = { phone: user.phone, whatsappPhone: user.whatsappPhone, email: user.email };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profil</CardTitle>
+        <CardDescription>
+          {kind === 'company' ? "Coordonnées et informations de l'entreprise." : "Vos nom et coordonnées."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ProfileForm
+          kind={kind}
+          defaultValues={
+            kind === 'company'
+              ? {
+                  companyName: user.companyName ?? "",
+                  rcOrIfNumber: user.rcOrIfNumber ?? "",
+                  ice: user.ice ?? "",
+                  ...contacts,
+                }
+              : { firstName: user.firstName ?? "", lastName: user.lastName ?? "", ...contacts }
+          }
+        />
+      </CardContent>
+    </Card>
+  );
+}
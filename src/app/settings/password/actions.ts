@@ -0,0 +1,23 @@
+'use server';
+
+import { requireAccount } from '@/services/auth-guard';
+import { changePassword } from '@/services/account-password';
+import { changePasswordSchema, type ChangePasswordFormValues } from '@/lib/schemas';
+
+export type ChangePasswordActionResult = { ok: true } | { ok: false; error: string };
+
+const changeErrors: Record<string, string> = {
+  wrong_password: "Mot de passe actuel incorrect.",
+  weak: "Ce mot de passe ne respecte pas les règles de sécurité.",
+  reused: "Vous avez déjà utilisé ce mot de passe récemment. Choisissez-en un nouveau.",
+};
+
+export async function updatePassword(values: ChangePasswordFormValues): Promise<ChangePasswordActionResult> {
+  const { user, session } = await requireAccount();
+  const parsed = changePasswordSchema.safeParse(values);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  const result = await changePassword(user, session.id, parsed.data.currentPassword, parsed.data.password);
+  return result.ok ? result : { ok: false, error: changeErrors[result.error] };
+}
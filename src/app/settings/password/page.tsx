@@ -0,0 +1,20 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import ChangePasswordForm from '@/components/change-password-form';
+import { requireAccount } from '@/services/auth-guard';
+
+export default async function ChangePasswordPage() {
+  await requireAccount();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Changer de mot de passe</CardTitle>
+        <CardDescription>Vos autres appareils seront déconnectés.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChangePasswordForm />
+      </CardContent>
+    </Card>
+  );
+}
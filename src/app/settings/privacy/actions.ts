@@ -0,0 +1,22 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAccount } from '@/services/auth-guard';
+import { requestDataExport } from '@/services/personal-data';
+
+export type ExportActionResult = { ok: true } | { ok: false; error: string };
+
+const exportErrors: Record<string, string> = {
+  already_pending: "Une archive est déjà en préparation.",
+  too_soon: "Vous pouvez demander une archive par jour.",
+};
+
+export async function startDataExport(): Promise<ExportActionResult> {
+  const { user } = await requireAccount();
+  const result = await requestDataExport(user);
+  if (!result.ok) {
+    return { ok: false, error: exportErrors[result.error] };
+  }
+  revalidatePath('/settings/privacy');
+  return { ok: true };
+}
@@ -0,0 +1,43 @@
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import DataExportList, { type DataExportRow } from '@/components/data-export-list';
+import { requireAccount } from '@/services/auth-guard';
+import { listDataExports } from '@/services/personal-data';
+
+export default async function PrivacySettingsPage() {
+  const { user } = await requireAccount();
+  const exports = await listDataExports(user.id);
+
+  const rows: DataExportRow[] = exports.map(({ id, status, createdAt, expiresAt, size }) => ({
+    id,
+    status,
+    createdAt,
+    expiresAt,
+    size,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mes données</CardTitle>
+        <CardDescription>
+          Conformément à la loi 09-08, vous pouvez télécharger toutes les données que MapYOO détient sur vous : profil,
+          commandes et documents. L'archive contient des fichiers JSON et vos documents, et reste disponible 7 jours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <DataExportList exports={rows} />
+        {user.userType !== 'admin' && (
+          <p className="text-sm text-muted-foreground">
+            Pour faire effacer vos données,{' '}
+            <Link href="/settings/account" className="text-primary">
+              supprimez votre compte
+            </Link>
+            .
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAccount } from '@/services/auth-guard';
+import { destroyCurrentSession, revokeSession, revokeUserSessions } from '@/services/session';
+
+export type SessionActionResult = { ok: true; signedOut: boolean } | { ok: false; error: string };
+
+export async function revokeDeviceSession(sessionId: string): Promise<SessionActionResult> {
+  const { user, session } = await requireAccount();
+  if (sessionId === session.id) {
+    await destroyCurrentSession();
+    return { ok: true, signedOut: true };
+  }
+  if (!(await revokeSession(user.id, sessionId))) {
+    return { ok: false, error: "Cette session est déjà terminée." };
+  }
+  revalidatePath('/settings/sessions');
+  return { ok: true, signedOut: false };
+}
+
+export async function logoutEverywhere(): Promise<SessionActionResult> {
+  const { user } = await requireAccount();
+  await revokeUserSessions(user.id);
+  await destroyCurrentSession();
+  return { ok: true, signedOut: true };
+}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import SessionList, { type SessionRow } from '@/components/session-list';
+import { describeUserAgent } from '@/lib/user-agent';
+import { requireAccount } from '@/services/auth-guard';
+import { listActiveSessions, type Session } from '@/services/session';
+
+// Only the network part of the address is shown
+function maskIp(ip: string): string {
+  if (ip.includes(':')) {
+    return `${ip.split(':').slice(0, 3).join(':')}:…`;
+  }
+  return ip.replace(/\.\d+$/, '.x');
+}
+
+function locationOf(session: Session): string {
+  if (session.location) {
+    return session.location;
+  }
+  return session.ip && session.ip !== 'unknown' ? `IP ${maskIp(session.ip)}` : 'Localisation inconnue';
+}
+
+export default async function SessionsSettingsPage() {
+  const { user, session: current } = await requireAccount();
+  const sessions = await listActiveSessions(user.id);
+
+  const rows: SessionRow[] = sessions.map((session) => ({
+    id: session.id,
+    ...describeUserAgent(session.userAgent),
+    location: locationOf(session),
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt ?? session.createdAt,
+    current: session.id === current.id,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessions actives</CardTitle>
+        <CardDescription>
+          Appareils connectés à votre compte. Déconnectez ceux que vous ne reconnaissez pas ou que vous n'utilisez plus,
+          comme un téléphone partagé.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <SessionList sessions={rows} />
+      </CardContent>
+    </Card>
+  );
+}
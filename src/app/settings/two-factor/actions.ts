@@ -0,0 +1,86 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAccount } from '@/services/auth-guard';
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  sendSettingsCode,
+  startTwoFactorSetup,
+  type TwoFactorMethod,
+  type TwoFactorSetupStart,
+} from '@/services/two-factor';
+import { twoFactorCodeSchema } from '@/lib/schemas';
+
+export type RecoveryCodesResult = { ok: true; recoveryCodes: string[] } | { ok: false; error: string };
+
+export type TwoFactorActionResult = { ok: true } | { ok: false; error: string };
+
+export type StartSetupActionResult = { ok: true; setup: TwoFactorSetupStart } | { ok: false; error: string };
+
+const codeErrors: Record<string, string> = {
+  invalid_code: "Code incorrect.",
+  required: "L'authentification à deux facteurs est obligatoire pour votre compte.",
+  throttled: "Trop de codes incorrects. Patientez un instant avant de réessayer.",
+  locked: "Trop de codes incorrects. Votre compte est bloqué pendant quelques minutes.",
+  cooldown: "Patientez une minute avant de demander un nouveau code.",
+  not_whatsapp: "Votre second facteur n'est pas WhatsApp.",
+};
+
+const PATH = '/settings/two-factor';
+
+/**
+ * Starts setting up 2FA, or changing its method: `currentCode` is then a
+ * code of the current second factor.
+ */
+export async function startSetup(method: TwoFactorMethod, currentCode?: string): Promise<StartSetupActionResult> {
+  const { user } = await requireAccount();
+  const result = await startTwoFactorSetup(user, method === 'whatsapp' ? 'whatsapp' : 'totp', currentCode);
+  return result.ok ? result : { ok: false, error: codeErrors[result.error] };
+}
+
+/** Sends WhatsApp users the code the other actions of this page ask for. */
+export async function sendCode(): Promise<TwoFactorActionResult> {
+  const { user } = await requireAccount();
+  const result = await sendSettingsCode(user);
+  return result.ok ? result : { ok: false, error: codeErrors[result.error] };
+}
+
+export async function confirmSetup(code: string): Promise<RecoveryCodesResult> {
+  const { user } = await requireAccount();
+  const parsed = twoFactorCodeSchema.safeParse({ code });
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  const result = await confirmTwoFactorSetup(user, parsed.data.code);
+  if (!result.ok) {
+    return { ok: false, error: codeErrors[result.error] };
+  }
+  revalidatePath(PATH);
+  return result;
+}
+
+export async function regenerateCodes(code: string): Promise<RecoveryCodesResult> {
+  const { user } = await requireAccount();
+  const parsed = twoFactorCodeSchema.safeParse({ code });
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  const result = await regenerateRecoveryCodes(user, parsed.data.code);
+  return result.ok ? result : { ok: false, error: codeErrors[result.error] };
+}
+
+export async function disable(code: string): Promise<TwoFactorActionResult> {
+  const { user } = await requireAccount();
+  const parsed = twoFactorCodeSchema.safeParse({ code });
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0].message };
+  }
+  const result = await disableTwoFactor(user, parsed.data.code);
+  if (!result.ok) {
+    return { ok: false, error: codeErrors[result.error] };
+  }
+  revalidatePath(PATH);
+  return { ok: true };
+}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import TwoFactorSettings from '@/components/two-factor-settings';
+import { formatMoroccoTime } from '@/lib/scheduling';
+import { requireAccount } from '@/services/auth-guard';
+import { isTwoFactorRequired } from '@/services/two-factor';
+
+export default async function TwoFactorSettingsPage() {
+  const { user } = await requireAccount();
+  const required = isTwoFactorRequired(user);
+  const twoFactor = user.twoFactor;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Authentification à deux facteurs</CardTitle>
+        <CardDescription>
+          {twoFactor
+            ? `Activée le ${formatMoroccoTime(twoFactor.enabledAt, { dateStyle: 'long' })} avec ${
+                twoFactor.method === 'totp' ? "une application d'authentification" : 'WhatsApp'
+              }.`
+            : "Protégez votre compte avec un code demandé à chaque connexion."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {required && !twoFactor && (
+          <p className="text-red-500 text-sm mb-4">
+            L'authentification à deux facteurs est obligatoire pour les administrateurs. Activez-la pour accéder
+            à votre tableau de bord.
+          </p>
+        )}
+        <TwoFactorSettings
+          enabledMethod={twoFactor?.method ?? null}
+          recoveryCodesLeft={twoFactor?.recoveryCodeHashes.length ?? 0}
+          whatsappPhone={user.whatsappPhone}
+          required={required}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import AutoRefresh from '@/components/auto-refresh';
+import CourierMap from '@/components/courier-map';
+import OrderTimeline from '@/components/order-timeline';
+import StopList from '@/components/stop-list';
+import { ORDER_STATUS_LABELS, ORDER_TYPE_LABELS, formatTrackingNumber, isFinalStatus } from '@/lib/orders';
+import { formatMoroccoTime, formatWindow } from '@/lib/scheduling';
+import { getTrackingView } from '@/services/tracking';
+
+// Live positions are reported about every half minute
+const REFRESH_SECONDS = 30;
+
+export default async function TrackingPage({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+  const tracking = await getTrackingView(decodeURIComponent(code));
+
+  if (!tracking) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Numéro de suivi introuvable</CardTitle>
+          <CardDescription>Vérifiez le numéro communiqué par l'expéditeur.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/track" className="text-primary text-sm">
+            Essayer un autre numéro
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      {!isFinalStatus(tracking.status) && <AutoRefresh intervalSeconds={REFRESH_SECONDS} />}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="font-mono">{formatTrackingNumber(tracking.trackingNumber)}</span>
+            <Badge variant={tracking.status === 'delivered' ? 'default' : 'secondary'}>
+              {ORDER_STATUS_LABELS[tracking.status]}
+            </Badge>
+          </CardTitle>
+          <CardDescription>{ORDER_TYPE_LABELS[tracking.type]}</CardDescription>
+        </CardHeader>
+        {(tracking.estimatedArrival || tracking.pickupWindow) && (
+          <CardContent className="space-y-2">
+            {tracking.pickupWindow && (
+              <div>
+                <p className="text-sm text-muted-foreground">Ramassage prévu</p>
+                <p className="font-medium">{formatWindow(tracking.pickupWindow)}</p>
+              </div>
+            )}
+            {tracking.estimatedArrival && (
+              <div>
+                <p className="text-sm text-muted-foreground">Arrivée estimée</p>
+                <p className="text-xl font-semibold">
+                  {formatMoroccoTime(tracking.estimatedArrival, { weekday: 'long', day: 'numeric', month: 'long' })} vers{' '}
+                  {formatMoroccoTime(tracking.estimatedArrival, { hour: '2-digit', minute: '2-digit' })}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {tracking.courierPosition && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Position du livreur</CardTitle>
+            <CardDescription>
+              Mise à jour à {formatMoroccoTime(tracking.courierPosition.at, { hour: '2-digit', minute: '2-digit' })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CourierMap position={tracking.courierPosition} />
+          </CardContent>
+        </Card>
+      )}
+
+      {tracking.stops && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Arrêts</CardTitle>
+            <CardDescription>
+              {tracking.stops.filter((stop) => stop.status !== 'pending').length} sur {tracking.stops.length} traités
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <StopList stops={tracking.stops} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Historique</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OrderTimeline entries={tracking.timeline} />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import React from 'react';
+import Link from 'next/link';
+
+// Public pages for recipients, who usually have no account.
+export default function TrackLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col min-h-screen bg-secondary">
+      <header className="sticky top-0 z-50 bg-background p-4 shadow-md">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link href="/" className="text-2xl font-semibold text-foreground">
+            MapYOO
+          </Link>
+          <span className="text-muted-foreground">Suivi de livraison</span>
+        </div>
+      </header>
+      <main className="container mx-auto py-8 px-4 flex-grow">
+        <div className="max-w-2xl mx-auto space-y-4">{children}</div>
+      </main>
+    </div>
+  );
+}
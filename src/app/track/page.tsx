@@ -0,0 +1,28 @@
+import React from 'react';
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { normalizeTrackingNumber } from '@/lib/orders';
+
+export default async function TrackSearchPage({ searchParams }: { searchParams: Promise<{ code?: string }> }) {
+  const { code } = await searchParams;
+  if (code?.trim()) {
+    redirect(`/track/${encodeURIComponent(normalizeTrackingNumber(code))}`);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Suivre une livraison</CardTitle>
+        <CardDescription>Entrez le numéro de suivi communiqué par l'expéditeur.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action="/track" className="flex gap-2">
+          <Input name="code" placeholder="MY-XXXXX-XXXXX" autoComplete="off" required />
+          <Button type="submit">Suivre</Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
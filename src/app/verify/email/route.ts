@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { confirmEmail } from '@/services/signup-verification';
+
+/**
+ * Target of the confirmation link sent by email at signup. Works without a
+ * session so the link can be opened on another device.
+ */
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id') ?? '';
+  const code = request.nextUrl.searchParams.get('code') ?? '';
+  const user = id && code ? await confirmEmail(id, code) : null;
+
+  const target = new URL('/verify', request.nextUrl);
+  target.searchParams.set('email', user ? 'confirmed' : 'invalid');
+  return NextResponse.redirect(target);
+}
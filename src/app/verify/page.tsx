@@ -0,0 +1,45 @@
+import React from 'react';
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import SignupVerification from '@/components/signup-verification';
+import { ROLE_HOME } from '@/lib/roles';
+import { getCurrentUser } from '@/services/auth-guard';
+import { isAccountActive, verificationStatusOf } from '@/services/signup-verification';
+
+export default async function VerifyPage({ searchParams }: { searchParams: Promise<{ email?: string }> }) {
+  const current = await getCurrentUser();
+  if (!current) {
+    redirect('/login?next=/verify');
+  }
+  if (isAccountActive(current.user)) {
+    redirect(ROLE_HOME[current.session.role]);
+  }
+
+  const { email } = await searchParams;
+  const status = await verificationStatusOf(current.user);
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-secondary p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Vérifiez votre compte</CardTitle>
+          <CardDescription>
+            Confirmez votre numéro WhatsApp et votre adresse email pour activer votre compte.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {email === 'invalid' && (
+            <p className="text-red-500 text-sm mb-4">
+              Ce lien de confirmation est invalide ou a expiré. Demandez-en un nouveau ci-dessous.
+            </p>
+          )}
+          <SignupVerification
+            whatsappPhone={current.user.whatsappPhone}
+            email={current.user.email}
+            status={status}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
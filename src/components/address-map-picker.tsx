@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import ReactDOMServer from 'react-dom/server';
+import 'leaflet/dist/leaflet.css';
+import type L from 'leaflet';
+import { Pin, PinOff } from 'lucide-react';
+import type { GeoPoint } from '@/lib/geocoding';
+import type { StopKind } from '@/lib/orders';
+
+export interface MapMarker {
+  // Identifies the address the marker places
+  key: string;
+  kind: StopKind;
+  point: GeoPoint | null;
+  // Shown on hover
+  label: string;
+}
+
+interface AddressMapPickerProps {
+  markers: MapMarker[];
+  // Marker placed by a click on the map
+  activeKey: string;
+  onPick: (key: string, point: GeoPoint) => void;
+}
+
+// Centre of Morocco, shown until a point is placed
+const DEFAULT_CENTER: L.LatLngTuple = [31.7917, -7.0926];
+
+const MARKER_ICONS: Record<StopKind, { icon: React.ElementType; className: string }> = {
+  pickup: { icon: Pin, className: 'h-8 w-8 text-blue-600' },
+  dropoff: { icon: PinOff, className: 'h-8 w-8 text-green-600' },
+};
+
+function markerIcon(leaflet: typeof L, kind: StopKind): L.DivIcon {
+  const { icon, className } = MARKER_ICONS[kind];
+  return leaflet.divIcon({
+    html: ReactDOMServer.renderToStaticMarkup(React.createElement(icon, { className })),
+    className: 'leaflet-lucide-icon',
+    iconSize: [32, 32],
+    iconAnchor: [16, 32],
+  });
+}
+
+/**
+ * Map for placing the pickups and drop-offs of an order. A click places
+ * the active marker; markers can then be dragged.
+ */
+const AddressMapPicker: React.FC<AddressMapPickerProps> = ({ markers, activeKey, onPick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const leafletRef = useRef<typeof L | null>(null);
+  const markersRef = useRef<Map<string, L.Marker>>(new Map());
+  // Read from the map handlers, which are bound once
+  const activeKeyRef = useRef(activeKey);
+  const onPickRef = useRef(onPick);
+  // Read by the marker effect, which only runs when a point moves
+  const markerPropsRef = useRef(markers);
+  const [ready, setReady] = useState(false);
+
+  activeKeyRef.current = activeKey;
+  onPickRef.current = onPick;
+  markerPropsRef.current = markers;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const leaflet = (await import('leaflet')).default;
+      if (cancelled || !containerRef.current || mapRef.current) return;
+
+      const map = leaflet.map(containerRef.current, { center: DEFAULT_CENTER, zoom: 6, doubleClickZoom: false });
+      leaflet
+        .tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+          maxZoom: 19,
+          attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+        })
+        .addTo(map);
+      map.on('click', (event: L.LeafletMouseEvent) => {
+        onPickRef.current(activeKeyRef.current, { lat: event.latlng.lat, lng: event.latlng.lng });
+      });
+
+      leafletRef.current = leaflet;
+      mapRef.current = map;
+      setReady(true);
+    })();
+
+    return () => {
+      cancelled = true;
+      mapRef.current?.remove();
+      mapRef.current = null;
+      markersRef.current = new Map();
+    };
+  }, []);
+
+  // Points are compared by value, so re-rendering the form does not refit the map
+  const signature = markers.map(({ key, point }) => `${key}:${point?.lat},${point?.lng}`).join('|');
+
+  // Keeps the markers on the points held by the form
+  useEffect(() => {
+    const map = mapRef.current;
+    const leaflet = leafletRef.current;
+    if (!ready || !map || !leaflet) return;
+
+    const placed = markerPropsRef.current.filter((marker): marker is MapMarker & { point: GeoPoint } => marker.point !== null);
+    for (const [key, marker] of markersRef.current) {
+      if (!placed.some((candidate) => candidate.key === key)) {
+        marker.remove();
+        markersRef.current.delete(key);
+      }
+    }
+    for (const { key, kind, point, label } of placed) {
+      const marker = markersRef.current.get(key);
+      if (marker) {
+        marker.setLatLng([point.lat, point.lng]);
+        continue;
+      }
+      const created = leaflet
+        .marker([point.lat, point.lng], { icon: markerIcon(leaflet, kind), draggable: true, title: label })
+        .addTo(map);
+      created.on('dragend', () => {
+        const { lat, lng } = created.getLatLng();
+        onPickRef.current(key, { lat, lng });
+      });
+      markersRef.current.set(key, created);
+    }
+
+    if (placed.length > 1) {
+      map.fitBounds(
+        leaflet.latLngBounds(placed.map(({ point }) => [point.lat, point.lng])),
+        { padding: [40, 40], maxZoom: 15 }
+      );
+    } else if (placed.length === 1) {
+      const { point } = placed[0];
+      map.setView([point.lat, point.lng], Math.max(map.getZoom(), 14));
+    }
+  }, [ready, signature]);
+
+  return <div ref={containerRef} className="h-[360px] w-full rounded-md border cursor-crosshair z-0" />;
+};
+
+export default AddressMapPicker;
@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface AutoRefreshProps {
+  intervalSeconds: number;
+}
+
+// Re-renders the server page periodically, e.g. while a delivery is running.
+export default function AutoRefresh({ intervalSeconds }: AutoRefreshProps) {
+  const router = useRouter();
+
+  useEffect(() => {
+    const timer = setInterval(() => router.refresh(), intervalSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [router, intervalSeconds]);
+
+  return null;
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import { cancelStaffInvitation } from '@/app/dashboard/company/staff/actions';
+
+const CancelInvitationButton: React.FC<{ invitationId: string }> = ({ invitationId }) => {
+  const [isPending, setIsPending] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  async function onCancel() {
+    setIsPending(true);
+    const result = await cancelStaffInvitation(invitationId);
+    setIsPending(false);
+    if (!result.ok) {
+      toast({ title: "Action impossible", description: result.error, variant: 'destructive' });
+      return;
+    }
+    router.refresh();
+  }
+
+  return (
+    <Button variant="ghost" size="sm" disabled={isPending} onClick={onCancel}>
+      Annuler
+    </Button>
+  );
+};
+
+export default CancelInvitationButton;
@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from '@/hooks/use-toast';
+import { cancelMyOrder } from '@/app/dashboard/orders/actions';
+import { REFUND_DESTINATION_LABELS, cancellationTerms, type RefundDestination } from '@/lib/cancellation';
+import { formatPrice, type CancellationRules } from '@/lib/pricing';
+import type { Order } from '@/services/orders';
+
+interface CancelOrderButtonProps {
+  order: Order;
+  rules: CancellationRules;
+  onCancelled: () => void;
+}
+
+// Cancellation of an order by its customer, with the fee and refund it
+// gives at the current status. The server applies the same terms.
+const CancelOrderButton: React.FC<CancelOrderButtonProps> = ({ order, rules, onCancelled }) => {
+  const [refundTo, setRefundTo] = useState<RefundDestination>('card');
+  const [isPending, setIsPending] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const terms = cancellationTerms(rules, order);
+  if (!terms) {
+    return null;
+  }
+
+  async function onConfirm() {
+    setIsPending(true);
+    const result = await cancelMyOrder(order.trackingNumber, refundTo);
+    setIsPending(false);
+    if (!result.ok) {
+      toast({ title: "Annulation impossible", description: result.error, variant: 'destructive' });
+      return;
+    }
+    toast({ title: "Commande annulée" });
+    onCancelled();
+    router.refresh();
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="destructive" size="sm" disabled={isPending}>
+          Annuler la commande
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Annuler cette commande ?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {terms.fee > 0
+              ? `Un livreur est déjà en route : des frais d'annulation de ${formatPrice(terms.fee)} s'appliquent.`
+              : "L'annulation est gratuite tant qu'aucun livreur n'est assigné."}{' '}
+            {order.paymentMethod === 'cod'
+              ? `Le paiement à la livraison est annulé.${
+                  terms.fee > 0 ? ' Les frais seront déduits de votre crédit MapYOO.' : ''
+                }`
+              : `${formatPrice(terms.refund)} vous seront remboursés.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {terms.refund > 0 && (
+          <RadioGroup value={refundTo} onValueChange={(value) => setRefundTo(value as RefundDestination)}>
+            {(Object.keys(REFUND_DESTINATION_LABELS) as RefundDestination[]).map((destination) => (
+              <div key={destination} className="flex items-center space-x-2">
+                <RadioGroupItem value={destination} id={`refund-${destination}`} />
+                <Label htmlFor={`refund-${destination}`} className="font-normal">
+                  {REFUND_DESTINATION_LABELS[destination]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Garder la commande</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Annuler la commande</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CancelOrderButton;
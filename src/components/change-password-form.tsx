@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import { changePasswordSchema, type ChangePasswordFormValues } from '@/lib/schemas';
+import { updatePassword } from '@/app/settings/password/actions';
+import PasswordStrengthMeter from '@/components/password-strength-meter';
+
+const ChangePasswordForm = () => {
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<ChangePasswordFormValues>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: "", password: "", confirmPassword: "" },
+  });
+
+  async function onSubmit(values: ChangePasswordFormValues) {
+    setError(null);
+    const result = await updatePassword(values);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    form.reset();
+    toast({ title: "Mot de passe modifié" });
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Mot de passe actuel</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nouveau mot de passe</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <PasswordStrengthMeter password={field.value} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirmer le mot de passe</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "Enregistrement..." : "Enregistrer"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ChangePasswordForm;
@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import ReactDOMServer from 'react-dom/server';
+import 'leaflet/dist/leaflet.css';
+import type L from 'leaflet';
+import { Bike } from 'lucide-react';
+import type { GeoPoint } from '@/lib/geocoding';
+
+interface CourierMapProps {
+  position: GeoPoint;
+}
+
+/**
+ * Live position of the courier on a delivery run. Follows the position as
+ * the page refreshes.
+ */
+const CourierMap: React.FC<CourierMapProps> = ({ position }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.Marker | null>(null);
+  const positionRef = useRef(position);
+
+  positionRef.current = position;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const leaflet = (await import('leaflet')).default;
+      if (cancelled || !containerRef.current || mapRef.current) return;
+
+      const { lat, lng } = positionRef.current;
+      const map = leaflet.map(containerRef.current, { center: [lat, lng], zoom: 15 });
+      leaflet
+        .tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+          maxZoom: 19,
+          attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+        })
+        .addTo(map);
+      const icon = leaflet.divIcon({
+        html: ReactDOMServer.renderToStaticMarkup(<Bike className="h-8 w-8 text-primary" />),
+        className: 'leaflet-lucide-icon',
+        iconSize: [32, 32],
+        iconAnchor: [16, 16],
+      });
+      markerRef.current = leaflet.marker([lat, lng], { icon }).addTo(map);
+      mapRef.current = map;
+    })();
+
+    return () => {
+      cancelled = true;
+      mapRef.current?.remove();
+      mapRef.current = null;
+      markerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    markerRef.current?.setLatLng([position.lat, position.lng]);
+    mapRef.current?.panTo([position.lat, position.lng]);
+  }, [position.lat, position.lng]);
+
+  return <div ref={containerRef} className="h-[320px] w-full rounded-md border z-0" />;
+};
+
+export default CourierMap;
@@ -0,0 +1,33 @@
+import React from 'react';
+import Link from 'next/link';
+import LogoutButton from './logout-button';
+
+interface DashboardShellProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+// Common header and layout for the role dashboards.
+const DashboardShell: React.FC<DashboardShellProps> = ({ title, children }) => {
+  return (
+    <div className="flex flex-col min-h-screen bg-secondary">
+      <header className="sticky top-0 z-50 bg-background p-4 shadow-md">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link href="/" className="text-2xl font-semibold text-foreground">
+            MapYOO
+          </Link>
+          <div className="flex items-center space-x-4">
+            <span className="text-muted-foreground hidden sm:inline">{title}</span>
+            <Link href="/settings" className="text-sm text-primary">
+              Paramètres
+            </Link>
+            <LogoutButton />
+          </div>
+        </div>
+      </header>
+      <main className="container mx-auto py-8 px-4 flex-grow">{children}</main>
+    </div>
+  );
+};
+
+export default DashboardShell;
@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import { startDataExport } from '@/app/settings/privacy/actions';
+import { formatMoroccoTime } from '@/lib/scheduling';
+import type { DataExportStatus } from '@/services/personal-data';
+
+export interface DataExportRow {
+  id: string;
+  status: DataExportStatus;
+  createdAt: string;
+  expiresAt?: string;
+  size?: number;
+}
+
+interface DataExportListProps {
+  exports: DataExportRow[];
+}
+
+const STATUS_LABELS: Record<DataExportStatus, string> = {
+  pending: 'En préparation',
+  ready: 'Prête',
+  failed: 'Échec',
+};
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} Ko` : `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+}
+
+const DataExportList: React.FC<DataExportListProps> = ({ exports }) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  async function onRequest() {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await startDataExport();
+    setIsSubmitting(false);
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    toast({
+      title: "Archive demandée",
+      description: "Vous recevrez un email dès qu'elle sera prête.",
+    });
+    router.refresh();
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button disabled={isSubmitting} onClick={onRequest}>
+          {isSubmitting ? "Demande..." : "Télécharger mes données"}
+        </Button>
+        {exports.some((dataExport) => dataExport.status === 'pending') && (
+          <Button variant="ghost" onClick={() => router.refresh()}>
+            Actualiser
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {exports.length > 0 && (
+        <ul className="divide-y">
+          {exports.map((dataExport) => (
+            <li key={dataExport.id} className="flex items-center justify-between py-3 gap-4">
+              <div>
+                <p className="text-sm font-medium">
+                  Demandée le {formatMoroccoTime(dataExport.createdAt, { dateStyle: 'long', timeStyle: 'short' })}
+                  <Badge
+                    variant={dataExport.status === 'failed' ? 'destructive' : 'secondary'}
+                    className="ml-2"
+                  >
+                    {STATUS_LABELS[dataExport.status]}
+                  </Badge>
+                </p>
+                {dataExport.status === 'ready' && dataExport.expiresAt && (
+                  <p className="text-xs text-muted-foreground">
+                    {dataExport.size !== undefined && `${formatSize(dataExport.size)} · `}
+                    Disponible jusqu'au {formatMoroccoTime(dataExport.expiresAt, { dateStyle: 'long' })}
+                  </p>
+                )}
+              </div>
+              {dataExport.status === 'ready' && (
+                <Button asChild variant="outline" size="sm">
+                  <a href={`/api/exports/${dataExport.id}`}>Télécharger</a>
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DataExportList;
@@ -0,0 +1,81 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useRouter } from 'next/navigation';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import { deleteAccountSchema, type DeleteAccountFormValues } from '@/lib/schemas';
+import { deleteMyAccount } from '@/app/settings/actions';
+
+const DeleteAccountForm = () => {
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const form = useForm<DeleteAccountFormValues>({
+    resolver: zodResolver(deleteAccountSchema),
+    defaultValues: { password: "", confirmation: "" as DeleteAccountFormValues['confirmation'] },
+  });
+
+  async function onSubmit(values: DeleteAccountFormValues) {
+    setError(null);
+    const result = await deleteMyAccount(values);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    toast({ title: "Compte supprimé" });
+    router.push('/');
+    router.refresh();
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Mot de passe</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmation"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tapez SUPPRIMER pour confirmer</FormLabel>
+              <FormControl>
+                <Input autoComplete="off" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        <Button type="submit" variant="destructive" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "Suppression..." : "Supprimer mon compte"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default DeleteAccountForm;
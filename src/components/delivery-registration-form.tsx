@@ -1,9 +1,9 @@
 "use client";
 
-import React, { useState } from 'react';
+import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
+import type { ZodType } from 'zod';
 import {
   Form,
   FormControl,
@@ -13,119 +13,99 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { Button } from "@/components/ui/button";
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
+import DocumentPreview from './document-preview';
+import RegistrationReview from './registration-review';
+import RegistrationStepper from './registration-stepper';
+import RegistrationWizardFooter from './registration-wizard-footer';
+import { useDocumentUpload } from '@/hooks/use-document-upload';
+import { previewsFromDraft, useRegistrationWizard } from '@/hooks/use-registration-wizard';
+import { ACCEPTED_DOCUMENT_TYPES } from '@/lib/documents';
+import { resumeStepOf } from '@/lib/registration-steps';
+import type { RegistrationDraft } from '@/services/registration-drafts';
+import {
+  companyAccountSchema,
+  individualDeliverySchema,
+  type CompanyAccountFormValues,
+  type IndividualDeliveryFormValues,
+} from '@/lib/schemas';
+import { registerDelivery } from '@/app/actions';
+import PasswordStrengthMeter from '@/components/password-strength-meter';
 
-// Define the schemas for individual and company registration
-const individualSchema = z.object({
-  firstName: z.string().min(2, { message: "Le prénom doit contenir au moins 2 caractères." }),
-  lastName: z.string().min(2, { message: "Le nom doit contenir au moins 2 caractères." }),
-  phone: z.string().regex(/^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/, { message: "Numéro de téléphone invalide." }),
-  whatsappPhone: z.string().regex(/^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/, { message: "Numéro de téléphone WhatsApp invalide." }),
-  email: z.string().email({ message: "Adresse email invalide." }),
-  password: z.string().min(8, { message: "Le mot de passe doit contenir au moins 8 caractères." }),
-  cin: z.string().optional(),
-  cinRectoFile: z.string().optional(), // Simulate file upload with a string
-  cinVersoFile: z.string().optional(), // Simulate file upload with a string
-  cae: z.string().optional(),
-  caeFile: z.string().optional(),
-});
-
-const companySchema = z.object({
-  companyName: z.string().min(2, { message: "Le nom de l'entreprise doit contenir au moins 2 caractères." }),
-  phone: z.string().regex(/^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/, { message: "Numéro de téléphone invalide." }),
-  whatsappPhone: z.string().regex(/^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/, { message: "Numéro de téléphone WhatsApp invalide." }),
-  email: z.string().email({ message: "Adresse email invalide." }),
-  password: z.string().min(8, { message: "Le mot de passe doit contenir au moins 8 caractères." }),
-  rcOrIfNumber: z.string().optional(),
-  rcOrIfFile: z.string().optional(), // Simulate file upload with a string
-  ice: z.string().optional(),
-});
-
-const individualSchemaRequired = individualSchema.extend({
-  firstName: z.string().min(2, { message: "Le prénom doit contenir au moins 2 caractères." }),
-  lastName: z.string().min(2, { message: "Le nom doit contenir au moins 2 caractères." }),
-  phone: z.string().regex(/^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/, { message: "Numéro de téléphone invalide." }),
-  whatsappPhone: z.string().regex(/^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/, { message: "Numéro de téléphone WhatsApp invalide." }),
-  email: z.string().email({ message: "Adresse email invalide." }),
-  password: z.string().min(8, { message: "Le mot de passe doit contenir au moins 8 caractères." }),
-  cin: z.string().min(1, {message: "Le numéro CIN est requis"}),
-  cinRectoFile: z.string().min(1, {message: "Le CIN (Recto) est requis"}),
-  cinVersoFile: z.string().min(1, {message: "Le CIN (Verso) est requis"}),
-  cae: z.string().min(1, {message: "Le numéro CAE est requis"}),
-  caeFile: z.string().min(1, {message: "Le fichier CAE est requis"}),
-})
-
-const companySchemaRequired = companySchema.extend({
-  companyName: z.string().min(2, { message: "Le nom de l'entreprise doit contenir au moins 2 caractères." }),
-  phone: z.string().regex(/^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/, { message: "Numéro de téléphone invalide." }),
-  whatsappPhone: z.string().regex(/^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/, { message: "Numéro de téléphone WhatsApp invalide." }),
-  email: z.string().email({ message: "Adresse email invalide." }),
-  password: z.string().min(8, { message: "Le mot de passe doit contenir au moins 8 caractères." }),
-  rcOrIfNumber: z.string().min(1, {message: "Le numéro RC ou IF est requis"}),
-  rcOrIfFile: z.string().min(1, {message: "Le fichier RC ou IF est requis"}),
-})
-
-type IndividualFormValues = z.infer<typeof individualSchemaRequired>;
-type CompanyFormValues = z.infer<typeof companySchemaRequired>;
+type IndividualFormValues = IndividualDeliveryFormValues;
+type CompanyFormValues = CompanyAccountFormValues;
 
 interface DeliveryRegistrationFormProps {
   accountType: 'individual' | 'company';
+  // Draft being resumed, matching this user type and account type
+  draft?: RegistrationDraft | null;
+  draftToken?: string | null;
 }
 
-const DeliveryRegistrationForm: React.FC<DeliveryRegistrationFormProps> = ({ accountType }) => {
+const DeliveryRegistrationForm: React.FC<DeliveryRegistrationFormProps> = ({ accountType, draft, draftToken }) => {
+  // The schema follows the account type, so it validates either value shape
+  const schema: ZodType<IndividualFormValues | CompanyFormValues> =
+    accountType === 'individual' ? individualDeliverySchema : companyAccountSchema;
+
+  const emptyValues = accountType === 'individual' ? {
+    firstName: "",
+    lastName: "",
+    phone: "",
+    whatsappPhone: "",
+    email: "",
+    password: "",
+    cin: "",
+    cinRectoFile: "",
+    cinVersoFile: "",
+    cae: "",
+    caeFile: "",
+  } : {
+    companyName: "",
+    phone: "",
+    whatsappPhone: "",
+    email: "",
+    password: "",
+    rcOrIfNumber: "",
+    rcOrIfFile: "",
+    ice: "",
+  };
+
   const form = useForm<IndividualFormValues | CompanyFormValues>({
-    resolver: zodResolver(accountType === 'individual' ? individualSchemaRequired : companySchemaRequired),
-    defaultValues: accountType === 'individual' ? {
-      firstName: "",
-      lastName: "",
-      phone: "",
-      whatsappPhone: "",
-      email: "",
-      password: "",
-      cin: "",
-      cinRectoFile: "",
-      cinVersoFile: "",
-      cae: "",
-      caeFile: "",
-    } : {
-      companyName: "",
-      phone: "",
-      whatsappPhone: "",
-      email: "",
-      password: "",
-      rcOrIfNumber: "",
-      rcOrIfFile: "",
-      ice: "",
-    },
+    resolver: zodResolver(schema),
+    defaultValues: { ...emptyValues, ...draft?.values } as IndividualFormValues | CompanyFormValues,
     mode: "onSubmit",
   });
 
-  const [rcOrIfPreview, setRcOrIfPreview] = useState<string | null>(null);
-  const [cinRectoPreview, setCinRectoPreview] = useState<string | null>(null);
-  const [cinVersoPreview, setCinVersoPreview] = useState<string | null>(null);
-  const [caeFilePreview, setCaeFilePreview] = useState<string | null>(null);
-
-
   const { toast } = useToast();
   const router = useRouter();
+  const { previews, isUploading, handleFileChange } = useDocumentUpload(form, previewsFromDraft(draft));
+  const wizard = useRegistrationWizard(form, {
+    userType: 'delivery',
+    accountType,
+    initialStep: draft ? resumeStepOf(draft.step) : undefined,
+    draftToken,
+  });
 
   async function onSubmit(values: IndividualFormValues | CompanyFormValues) {
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const result = await registerDelivery(accountType, values, wizard.draftToken);
+
+    if (!result.ok) {
+      // Show server-side errors such as an email already in use next to their field
+      wizard.showErrors(result.fieldErrors);
+      return;
+    }
+    wizard.clearDraft();
 
     // Handle form submission based on account type
     if (accountType === 'individual') {
       const individualValues = values as IndividualFormValues;
-      console.log("Individual Registration Data:", individualValues);
       toast({
         title: "Inscription réussie",
         description: `Bienvenue, ${individualValues.firstName} ${individualValues.lastName}!`,
       });
     } else {
       const companyValues = values as CompanyFormValues;
-      console.log("Company Registration Data:", companyValues);
       toast({
         title: "Inscription réussie",
         description: `Bienvenue, ${companyValues.companyName}!`,
@@ -133,63 +113,14 @@ const DeliveryRegistrationForm: React.FC<DeliveryRegistrationFormProps> = ({ acc
     }
 
     // Redirect to dashboard
-    router.push('/dashboard');
+    router.push(result.redirectTo);
   }
 
-
-  const handleRcOrIfUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      form.setValue("rcOrIfFile", file.name);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setRcOrIfPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const handleCinRectoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      form.setValue("cinRectoFile", file.name);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setCinRectoPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-    const handleCinVersoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      form.setValue("cinVersoFile", file.name);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setCinVersoPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const handleCaeFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      form.setValue("caeFile", file.name);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setCaeFilePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-        {accountType === 'individual' ? (
+      <RegistrationStepper stepIndex={wizard.stepIndex} />
+      <form onSubmit={wizard.handleSubmit(onSubmit)} className="space-y-4">
+        {wizard.step === 'identity' && (accountType === 'individual' ? (
           <>
             <FormField
               control={form.control}
@@ -217,77 +148,7 @@ const DeliveryRegistrationForm: React.FC<DeliveryRegistrationFormProps> = ({ acc
                 </FormItem>
               )}
             />
-          </>
-        ) : (
-          <FormField
-            control={form.control}
-            name="companyName"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Nom de l'entreprise</FormLabel>
-                <FormControl>
-                  <Input placeholder="Acme Corp" {...field} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        )}
-        <FormField
-          control={form.control}
-          name="phone"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Numéro de téléphone</FormLabel>
-              <FormControl>
-                <Input placeholder="+15551234567" {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        <FormField
-          control={form.control}
-          name="whatsappPhone"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Numéro de téléphone WhatsApp</FormLabel>
-              <FormControl>
-                <Input placeholder="+15551234567" {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        <FormField
-          control={form.control}
-          name="email"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Email</FormLabel>
-              <FormControl>
-                <Input placeholder="john.doe@example.com" {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        <FormField
-          control={form.control}
-          name="password"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Mot de passe</FormLabel>
-              <FormControl>
-                <Input type="password" {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        {accountType === 'individual' ? (
-          <>
-           <FormField
+            <FormField
               control={form.control}
               name="cin"
               render={({ field }) => (
@@ -300,98 +161,74 @@ const DeliveryRegistrationForm: React.FC<DeliveryRegistrationFormProps> = ({ acc
                 </FormItem>
               )}
             />
-
             <FormField
               control={form.control}
-              name="cinRectoFile"
+              name="cae"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>CIN (Recto)</FormLabel>
+                  <FormLabel>Numéro CAE</FormLabel>
                   <FormControl>
-                    <Input type="file" onChange={handleCinRectoUpload} />
+                    <Input placeholder="Numéro CAE" {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
-
-             {cinRectoPreview && (
-                <img
-                  src={cinRectoPreview}
-                  alt="Aperçu CIN Recto"
-                  className="max-w-full h-auto rounded-md" // Added max-w-full for responsiveness
-                />
-              )}
-
-
+          </>
+        ) : (
+          <>
             <FormField
               control={form.control}
-              name="cinVersoFile"
+              name="companyName"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>CIN (Verso)</FormLabel>
+                  <FormLabel>Nom de l'entreprise</FormLabel>
                   <FormControl>
-                    <Input type="file" onChange={handleCinVersoUpload} />
+                    <Input placeholder="Acme Corp" {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
-
-             {cinVersoPreview && (
-                <img
-                  src={cinVersoPreview}
-                  alt="Aperçu CIN Verso"
-                  className="max-w-full h-auto rounded-md" // Added max-w-full for responsiveness
-                />
-              )}
-
-               <FormField
+            <FormField
               control={form.control}
-              name="cae"
+              name="rcOrIfNumber"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Numéro CAE</FormLabel>
+                  <FormLabel>Numéro RC ou IF</FormLabel>
                   <FormControl>
-                    <Input placeholder="Numéro CAE" {...field} />
+                    <Input placeholder="Numéro RC ou IF" {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
-
             <FormField
               control={form.control}
-              name="caeFile"
+              name="ice"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Fichier CAE</FormLabel>
+                  <FormLabel>ICE (Optionnel)</FormLabel>
                   <FormControl>
-                    <Input type="file" onChange={handleCaeFileUpload} />
+                    <Input placeholder="ICE" {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
-
-             {caeFilePreview && (
-                <img
-                  src={caeFilePreview}
-                  alt="Aperçu du fichier CAE"
-                  className="max-w-full h-auto rounded-md" // Added max-w-full for responsiveness
-                />
-              )}
           </>
-        ) : (
+        ))}
+
+        {wizard.step === 'contacts' && (
           <>
-           <FormField
+            <FormField
               control={form.control}
-              name="rcOrIfNumber"
+              name="phone"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Numéro RC ou IF</FormLabel>
+                  <FormLabel>Numéro de téléphone</FormLabel>
                   <FormControl>
-                    <Input placeholder="Numéro RC ou IF" {...field} />
+                    <Input placeholder="+212612345678" {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -399,45 +236,112 @@ const DeliveryRegistrationForm: React.FC<DeliveryRegistrationFormProps> = ({ acc
             />
             <FormField
               control={form.control}
-              name="rcOrIfFile"
+              name="whatsappPhone"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Fichier RC ou IF</FormLabel>
+                  <FormLabel>Numéro de téléphone WhatsApp</FormLabel>
                   <FormControl>
-                    <Input type="file" onChange={handleRcOrIfUpload} />
+                    <Input placeholder="+212612345678" {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
-             {rcOrIfPreview && (
-                <img
-                  src={rcOrIfPreview}
-                  alt="Aperçu RC ou IF"
-                  className="max-w-full h-auto rounded-md" // Added max-w-full for responsiveness
-                />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input placeholder="john.doe@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
               )}
-
+            />
             <FormField
               control={form.control}
-              name="ice"
+              name="password"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>ICE (Optionnel)</FormLabel>
+                  <FormLabel>Mot de passe</FormLabel>
                   <FormControl>
-                    <Input placeholder="ICE" {...field} />
+                    <Input type="password" autoComplete="new-password" {...field} />
                   </FormControl>
+                  <PasswordStrengthMeter password={field.value} />
                   <FormMessage />
                 </FormItem>
               )}
             />
           </>
         )}
-        <div className="flex justify-center">
-          <Button type="submit">
-            S'inscrire
-          </Button>
-        </div>
+
+        {wizard.step === 'documents' && (accountType === 'individual' ? (
+          <>
+            <FormField
+              control={form.control}
+              name="cinRectoFile"
+              render={() => (
+                <FormItem>
+                  <FormLabel>CIN (Recto)</FormLabel>
+                  <FormControl>
+                    <Input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} onChange={handleFileChange('cinRectoFile')} />
+                  </FormControl>
+                  {previews.cinRectoFile && <DocumentPreview preview={previews.cinRectoFile} alt="Aperçu CIN Recto" />}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="cinVersoFile"
+              render={() => (
+                <FormItem>
+                  <FormLabel>CIN (Verso)</FormLabel>
+                  <FormControl>
+                    <Input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} onChange={handleFileChange('cinVersoFile')} />
+                  </FormControl>
+                  {previews.cinVersoFile && <DocumentPreview preview={previews.cinVersoFile} alt="Aperçu CIN Verso" />}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="caeFile"
+              render={() => (
+                <FormItem>
+                  <FormLabel>Fichier CAE</FormLabel>
+                  <FormControl>
+                    <Input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} onChange={handleFileChange('caeFile')} />
+                  </FormControl>
+                  {previews.caeFile && <DocumentPreview preview={previews.caeFile} alt="Aperçu du fichier CAE" />}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        ) : (
+          <FormField
+            control={form.control}
+            name="rcOrIfFile"
+            render={() => (
+              <FormItem>
+                <FormLabel>Fichier RC ou IF</FormLabel>
+                <FormControl>
+                  <Input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} onChange={handleFileChange('rcOrIfFile')} />
+                </FormControl>
+                {previews.rcOrIfFile && <DocumentPreview preview={previews.rcOrIfFile} alt="Aperçu RC ou IF" />}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        {wizard.step === 'review' && <RegistrationReview values={form.getValues()} previews={previews} />}
+
+        <RegistrationWizardFooter wizard={wizard} isUploading={isUploading} isSubmitting={form.formState.isSubmitting} />
       </form>
     </Form>
   );
@@ -0,0 +1,23 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import type { UploadedDocumentPreview } from '@/hooks/use-document-upload';
+
+interface DocumentPreviewProps {
+  preview: UploadedDocumentPreview;
+  alt: string;
+}
+
+// Thumbnail of an uploaded image, or the file name for PDFs.
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ preview, alt }) => {
+  if (preview.url) {
+    return <img src={preview.url} alt={alt} className="max-w-full h-auto rounded-md" />;
+  }
+  return (
+    <div className="flex items-center space-x-2 rounded-md border p-2 text-sm text-muted-foreground">
+      <FileText className="h-4 w-4" />
+      <span>{preview.name}</span>
+    </div>
+  );
+};
+
+export default DocumentPreview;
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useRouter } from 'next/navigation';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import DocumentPreview from '@/components/document-preview';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentUpload, type DocumentFieldName } from '@/hooks/use-document-upload';
+import { replaceAccountDocument } from '@/app/settings/actions';
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  DOCUMENT_FIELDS,
+  DOCUMENT_KIND_LABELS,
+  type DocumentKind,
+} from '@/lib/documents';
+
+interface DocumentReplaceFormProps {
+  kind: DocumentKind;
+  // Replacing a document sends livreurs and chauffeurs back to review
+  requiresReview: boolean;
+}
+
+type ReplaceFormValues = Partial<Record<DocumentFieldName, string>>;
+
+const fieldOf = (kind: DocumentKind) =>
+  (Object.keys(DOCUMENT_FIELDS) as DocumentFieldName[]).find((field) => DOCUMENT_FIELDS[field] === kind)!;
+
+const DocumentReplaceForm: React.FC<DocumentReplaceFormProps> = ({ kind, requiresReview }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const field = fieldOf(kind);
+  const form = useForm<ReplaceFormValues>({ defaultValues: {} });
+  const { previews, isUploading, handleFileChange } = useDocumentUpload(form);
+
+  async function onSubmit(values: ReplaceFormValues) {
+    const documentId = values[field];
+    if (!documentId) {
+      form.setError(field, { message: "Veuillez téléverser ce document." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    const result = await replaceAccountDocument(kind, documentId);
+    setIsSubmitting(false);
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    form.reset({});
+    toast({
+      title: "Document remplacé",
+      description: requiresReview ? "Votre compte sera examiné à nouveau." : undefined,
+    });
+    router.refresh();
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-2">
+        <FormField
+          control={form.control}
+          name={field}
+          render={() => (
+            <FormItem>
+              <FormControl>
+                <Input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} onChange={handleFileChange(field)} />
+              </FormControl>
+              {previews[field] && <DocumentPreview preview={previews[field]} alt={DOCUMENT_KIND_LABELS[kind]} />}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button type="submit" variant="outline" disabled={isSubmitting || isUploading}>
+          {isUploading ? "Téléversement..." : isSubmitting ? "Envoi..." : "Remplacer"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default DocumentReplaceForm;
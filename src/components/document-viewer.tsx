@@ -0,0 +1,29 @@
+import React from 'react';
+import type { StoredDocument } from '@/services/documents';
+
+interface DocumentViewerProps {
+  document: StoredDocument;
+  label: string;
+}
+
+// Inline view of a stored document, served by the access-controlled route.
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ document, label }) => {
+  const url = `/api/documents/${document.id}`;
+  return (
+    <figure className="space-y-2">
+      <figcaption className="flex items-center justify-between text-sm font-medium">
+        <span>{label}</span>
+        <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary font-normal">
+          Ouvrir
+        </a>
+      </figcaption>
+      {document.mimeType === 'application/pdf' ? (
+        <iframe src={url} title={label} className="w-full h-80 rounded-md border" />
+      ) : (
+        <img src={url} alt={label} className="max-w-full h-auto rounded-md border" />
+      )}
+    </figure>
+  );
+};
+
+export default DocumentViewer;
@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useRouter } from 'next/navigation';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import DocumentPreview from '@/components/document-preview';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentUpload, type DocumentFieldName } from '@/hooks/use-document-upload';
+import { resubmitKycDocuments } from '@/app/actions';
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  DOCUMENT_FIELDS,
+  DOCUMENT_KIND_LABELS,
+  type DocumentKind,
+} from '@/lib/documents';
+
+interface KycReuploadFormProps {
+  kinds: DocumentKind[];
+}
+
+type ReuploadFormValues = Partial<Record<DocumentFieldName, string>>;
+
+const fieldOf = (kind: DocumentKind) =>
+  (Object.keys(DOCUMENT_FIELDS) as DocumentFieldName[]).find((field) => DOCUMENT_FIELDS[field] === kind)!;
+
+const KycReuploadForm: React.FC<KycReuploadFormProps> = ({ kinds }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const form = useForm<ReuploadFormValues>({ defaultValues: {} });
+  const { previews, isUploading, handleFileChange } = useDocumentUpload(form);
+
+  async function onSubmit(values: ReuploadFormValues) {
+    const documentIds: Partial<Record<DocumentKind, string>> = {};
+    for (const kind of kinds) {
+      const id = values[fieldOf(kind)];
+      if (!id) {
+        form.setError(fieldOf(kind), { message: "Veuillez téléverser ce document." });
+        return;
+      }
+      documentIds[kind] = id;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    const result = await resubmitKycDocuments(documentIds);
+    setIsSubmitting(false);
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    toast({
+      title: "Documents envoyés",
+      description: "Votre compte sera examiné à nouveau.",
+    });
+    router.refresh();
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {kinds.map((kind) => {
+          const field = fieldOf(kind);
+          return (
+            <FormField
+              key={kind}
+              control={form.control}
+              name={field}
+              render={() => (
+                <FormItem>
+                  <FormLabel>{DOCUMENT_KIND_LABELS[kind]}</FormLabel>
+                  <FormControl>
+                    <Input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} onChange={handleFileChange(field)} />
+                  </FormControl>
+                  {previews[field] && <DocumentPreview preview={previews[field]} alt={DOCUMENT_KIND_LABELS[kind]} />}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          );
+        })}
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        <Button type="submit" disabled={isSubmitting || isUploading}>
+          {isUploading ? "Téléversement..." : isSubmitting ? "Envoi..." : "Envoyer les documents"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default KycReuploadForm;
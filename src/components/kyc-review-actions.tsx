@@ -0,0 +1,101 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from '@/hooks/use-toast';
+import { decideKyc } from '@/app/dashboard/admin/kyc/actions';
+import { DOCUMENT_KIND_LABELS, type DocumentKind } from '@/lib/documents';
+
+interface KycReviewActionsProps {
+  userId: string;
+  documentKinds: DocumentKind[];
+}
+
+type Mode = 'idle' | 'reject' | 'request_reupload';
+
+const KycReviewActions: React.FC<KycReviewActionsProps> = ({ userId, documentKinds }) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [reason, setReason] = useState('');
+  const [kinds, setKinds] = useState<DocumentKind[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  async function submit(decision: Parameters<typeof decideKyc>[1], successTitle: string) {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await decideKyc(userId, decision);
+    setIsSubmitting(false);
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    toast({ title: successTitle });
+    router.push('/dashboard/admin/kyc');
+    router.refresh();
+  }
+
+  const toggleKind = (kind: DocumentKind, checked: boolean) => {
+    setKinds((current) => (checked ? [...current, kind] : current.filter((candidate) => candidate !== kind)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button disabled={isSubmitting} onClick={() => submit({ decision: 'approve' }, "Compte vérifié")}>
+          Approuver
+        </Button>
+        <Button variant="destructive" disabled={isSubmitting} onClick={() => setMode('reject')}>
+          Rejeter
+        </Button>
+        <Button variant="outline" disabled={isSubmitting} onClick={() => setMode('request_reupload')}>
+          Demander un nouvel envoi
+        </Button>
+      </div>
+
+      {mode === 'request_reupload' && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Documents à renvoyer</p>
+          {documentKinds.map((kind) => (
+            <div key={kind} className="flex items-center space-x-2">
+              <Checkbox
+                id={`reupload-${kind}`}
+                checked={kinds.includes(kind)}
+                onCheckedChange={(checked) => toggleKind(kind, checked === true)}
+              />
+              <Label htmlFor={`reupload-${kind}`}>{DOCUMENT_KIND_LABELS[kind]}</Label>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode !== 'idle' && (
+        <div className="space-y-2">
+          <Label htmlFor="kyc-reason">{mode === 'reject' ? "Motif du refus" : "Message au livreur"}</Label>
+          <Textarea id="kyc-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          <Button
+            disabled={isSubmitting}
+            onClick={() =>
+              mode === 'reject'
+                ? submit({ decision: 'reject', reason }, "Compte rejeté")
+                : submit({ decision: 'request_reupload', kinds, reason }, "Nouvel envoi demandé")
+            }
+          >
+            Confirmer
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default KycReviewActions;
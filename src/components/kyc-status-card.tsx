@@ -0,0 +1,57 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import KycReuploadForm from '@/components/kyc-reupload-form';
+import { DOCUMENT_KIND_LABELS } from '@/lib/documents';
+import { canReceiveOrders, kycOf } from '@/services/kyc';
+import type { UserAccount } from '@/services/users';
+
+interface KycStatusCardProps {
+  user: UserAccount;
+}
+
+// Review status shown on livreur and chauffeur dashboards until verified.
+const KycStatusCard: React.FC<KycStatusCardProps> = ({ user }) => {
+  if (canReceiveOrders(user)) {
+    return null;
+  }
+
+  const kyc = kycOf(user);
+  if (kyc.reuploadKinds?.length) {
+    return (
+      <Alert>
+        <AlertTitle>Documents à renvoyer</AlertTitle>
+        <AlertDescription className="space-y-4">
+          <p>
+            Merci de renvoyer : {kyc.reuploadKinds.map((kind) => DOCUMENT_KIND_LABELS[kind]).join(', ')}.
+            {kyc.reason && <> Motif : {kyc.reason}</>}
+          </p>
+          <KycReuploadForm kinds={kyc.reuploadKinds} />
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (kyc.status === 'rejected') {
+    return (
+      <Alert variant="destructive">
+        <AlertTitle>Compte non validé</AlertTitle>
+        <AlertDescription>
+          {kyc.reason ? `Motif : ${kyc.reason}` : "Votre compte n'a pas été validé."} Contactez le support pour plus
+          d'informations.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert>
+      <AlertTitle>Vérification en cours</AlertTitle>
+      <AlertDescription>
+        Nos équipes examinent vos documents. Vous ne pourrez pas recevoir de commandes avant la validation de votre
+        compte.
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default KycStatusCard;
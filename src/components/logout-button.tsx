@@ -0,0 +1,24 @@
+"use client";
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { logout } from '@/app/actions';
+
+const LogoutButton = () => {
+  const router = useRouter();
+
+  async function handleLogout() {
+    await logout();
+    router.push('/login');
+    router.refresh();
+  }
+
+  return (
+    <Button variant="outline" onClick={handleLogout}>
+      Se déconnecter
+    </Button>
+  );
+};
+
+export default LogoutButton;
@@ -0,0 +1,78 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from '@/hooks/use-toast';
+import { saveNotifications } from '@/app/settings/actions';
+import {
+  MANDATORY_TOPICS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_TOPICS,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationTopic,
+} from '@/lib/notifications';
+
+interface NotificationPreferencesFormProps {
+  preferences: NotificationPreferences;
+}
+
+const CHANNELS = Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[];
+
+const NotificationPreferencesForm: React.FC<NotificationPreferencesFormProps> = ({ preferences }) => {
+  const [values, setValues] = useState(preferences);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const toggle = (topic: NotificationTopic, channel: NotificationChannel, checked: boolean) => {
+    setValues((current) => ({ ...current, [topic]: { ...current[topic], [channel]: checked } }));
+  };
+
+  async function onSave() {
+    setIsSubmitting(true);
+    await saveNotifications(values);
+    setIsSubmitting(false);
+    toast({ title: "Préférences enregistrées" });
+  }
+
+  return (
+    <div className="space-y-6">
+      {NOTIFICATION_TOPICS.map((topic) => {
+        const mandatory = MANDATORY_TOPICS.includes(topic.id);
+        return (
+          <div key={topic.id} className="space-y-2">
+            <div>
+              <p className="text-sm font-medium">{topic.label}</p>
+              <p className="text-xs text-muted-foreground">
+                {topic.description}
+                {mandatory && " Ces messages ne peuvent pas être désactivés."}
+              </p>
+            </div>
+            <div className="flex space-x-6">
+              {CHANNELS.map((channel) => (
+                <div key={channel} className="flex items-center space-x-2">
+                  <Switch
+                    id={`${topic.id}-${channel}`}
+                    checked={mandatory || values[topic.id][channel]}
+                    disabled={mandatory}
+                    onCheckedChange={(checked) => toggle(topic.id, channel, checked)}
+                  />
+                  <Label htmlFor={`${topic.id}-${channel}`} className="font-normal">
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <Button disabled={isSubmitting} onClick={onSave}>
+        {isSubmitting ? "Enregistrement..." : "Enregistrer"}
+      </Button>
+    </div>
+  );
+};
+
+export default NotificationPreferencesForm;
@@ -0,0 +1,321 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import CancelOrderButton from '@/components/cancel-order-button';
+import OrderTimeline from '@/components/order-timeline';
+import QuoteSummary from '@/components/quote-summary';
+import StopList, { describeStop } from '@/components/stop-list';
+import { REFUND_DESTINATION_LABELS, REFUND_STATUS_LABELS } from '@/lib/cancellation';
+import {
+  ORDER_STATUS_GROUPS,
+  ORDER_STATUS_LABELS,
+  ORDER_TYPE_LABELS,
+  ORDER_TYPES,
+  PACKAGE_TYPE_LABELS,
+  PAYMENT_METHOD_LABELS,
+  formatTrackingNumber,
+  statusGroupOf,
+  type OrderFilters,
+  type OrderStatusGroup,
+} from '@/lib/orders';
+import { formatPrice, type CancellationRules } from '@/lib/pricing';
+import { formatMoroccoTime, formatWindow } from '@/lib/scheduling';
+import type { Order, OrderPage } from '@/services/orders';
+
+interface OrderHistoryProps {
+  result: OrderPage;
+  filters: OrderFilters;
+  cancellationRules: CancellationRules;
+  // Staff members without the right to place orders only follow them
+  canCancel: boolean;
+}
+
+const ALL = 'all';
+
+const GROUP_BADGES: Record<OrderStatusGroup, 'default' | 'secondary' | 'destructive'> = {
+  in_progress: 'secondary',
+  delivered: 'default',
+  cancelled: 'destructive',
+};
+
+function formatDate(iso: string): string {
+  return formatMoroccoTime(iso, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+const DetailList: React.FC<{ fields: [string, string | undefined][] }> = ({ fields }) => (
+  <dl className="space-y-2 text-sm">
+    {fields
+      .filter(([, value]) => value?.trim())
+      .map(([label, value]) => (
+        <div key={label}>
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd className="font-medium">{value}</dd>
+        </div>
+      ))}
+  </dl>
+);
+
+const OrderDetails: React.FC<{ order: Order }> = ({ order }) => {
+  const fields: [string, string | undefined][] = [
+    ['Ramassage', order.pickup.address],
+    ['Destination', order.destination.address],
+    ['Ramassage prévu', order.schedule && formatWindow(order.schedule)],
+    ['Destinataire', `${order.recipient.firstName} ${order.recipient.lastName}`],
+    ['Téléphone', order.recipient.phone],
+    ['Colis', order.parcel && `${PACKAGE_TYPE_LABELS[order.parcel.type]}, ${order.parcel.weightKg} kg`],
+    ['Paiement', PAYMENT_METHOD_LABELS[order.paymentMethod]],
+    ['Commandée par', order.placedBy?.name],
+  ];
+  const { cancellation } = order;
+  const cancellationFields: [string, string | undefined][] = cancellation
+    ? [
+        ["Frais d'annulation", formatPrice(cancellation.fee)],
+        [
+          'Remboursement',
+          cancellation.refund &&
+            `${formatPrice(cancellation.refund.amount)} · ${REFUND_DESTINATION_LABELS[cancellation.refund.destination]}`,
+        ],
+        ['État du remboursement', cancellation.refund && REFUND_STATUS_LABELS[cancellation.refund.status]],
+        ['Paiement à la livraison', cancellation.collectionVoided ? 'Annulé, rien à régler au livreur' : undefined],
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6 mt-4">
+      <DetailList fields={fields} />
+      {order.stops && (
+        <div>
+          <h3 className="font-medium mb-2">Itinéraire</h3>
+          <StopList stops={order.stops.map(describeStop)} />
+        </div>
+      )}
+      <div>
+        <h3 className="font-medium mb-2">Prix</h3>
+        <QuoteSummary quote={order.quote} />
+      </div>
+      {cancellation && (
+        <div>
+          <h3 className="font-medium mb-2">Annulation</h3>
+          <DetailList fields={cancellationFields} />
+        </div>
+      )}
+      <div>
+        <h3 className="font-medium mb-2">Suivi</h3>
+        <OrderTimeline
+          entries={order.statusHistory.map((change) => ({ status: change.to, at: change.at, reason: change.reason }))}
+        />
+      </div>
+      <Link href={`/track/${order.trackingNumber}`} className="text-primary text-sm">
+        Page de suivi à partager
+      </Link>
+    </div>
+  );
+};
+
+const OrderHistory: React.FC<OrderHistoryProps> = ({ result, filters, cancellationRules, canCancel }) => {
+  const [draft, setDraft] = useState(filters);
+  const [selected, setSelected] = useState<Order | null>(null);
+  const router = useRouter();
+  const pathname = usePathname();
+
+  function navigate(next: OrderFilters, page = 1) {
+    const params = new URLSearchParams();
+    if (next.group) params.set('status', next.group);
+    if (next.type) params.set('type', next.type);
+    if (next.from) params.set('from', next.from);
+    if (next.to) params.set('to', next.to);
+    if (next.query) params.set('q', next.query);
+    if (page > 1) params.set('page', String(page));
+    const search = params.toString();
+    router.push(search ? `${pathname}?${search}` : pathname);
+  }
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end"
+        onSubmit={(e) => {
+          e.preventDefault();
+          navigate(draft);
+        }}
+      >
+        <div className="col-span-2 space-y-1">
+          <Label htmlFor="order-query">Recherche</Label>
+          <Input
+            id="order-query"
+            placeholder="N° de suivi, destinataire ou téléphone"
+            value={draft.query ?? ''}
+            onChange={(e) => setDraft({ ...draft, query: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Statut</Label>
+          <Select
+            value={draft.group ?? ALL}
+            onValueChange={(value) =>
+              setDraft({ ...draft, group: value === ALL ? undefined : (value as OrderStatusGroup) })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tous</SelectItem>
+              {(Object.keys(ORDER_STATUS_GROUPS) as OrderStatusGroup[]).map((group) => (
+                <SelectItem key={group} value={group}>
+                  {ORDER_STATUS_GROUPS[group].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select
+            value={draft.type ?? ALL}
+            onValueChange={(value) =>
+              setDraft({ ...draft, type: value === ALL ? undefined : (value as OrderFilters['type']) })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tous</SelectItem>
+              {ORDER_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {ORDER_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="order-from">Du</Label>
+          <Input
+            id="order-from"
+            type="date"
+            value={draft.from ?? ''}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="order-to">Au</Label>
+          <Input
+            id="order-to"
+            type="date"
+            value={draft.to ?? ''}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value || undefined })}
+          />
+        </div>
+        <div className="col-span-2 md:col-span-6 flex space-x-2">
+          <Button type="submit">Filtrer</Button>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              setDraft({});
+              navigate({});
+            }}
+          >
+            Réinitialiser
+          </Button>
+        </div>
+      </form>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>N° de suivi</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Destinataire</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>Statut</TableHead>
+            <TableHead className="text-right">Prix</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.orders.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground">
+                Aucune commande.
+              </TableCell>
+            </TableRow>
+          ) : (
+            result.orders.map((order) => (
+              <TableRow key={order.id} className="cursor-pointer" onClick={() => setSelected(order)}>
+                <TableCell className="font-mono">{formatTrackingNumber(order.trackingNumber)}</TableCell>
+                <TableCell>{ORDER_TYPE_LABELS[order.type]}</TableCell>
+                <TableCell>
+                  {order.recipient.firstName} {order.recipient.lastName}
+                </TableCell>
+                <TableCell>{formatDate(order.createdAt)}</TableCell>
+                <TableCell>
+                  <Badge variant={GROUP_BADGES[statusGroupOf(order.status)]}>{ORDER_STATUS_LABELS[order.status]}</Badge>
+                </TableCell>
+                <TableCell className="text-right">{formatPrice(order.quote.total)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {result.total} commande(s) · page {result.page} sur {result.pageCount}
+        </span>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={result.page <= 1}
+            onClick={() => navigate(filters, result.page - 1)}
+          >
+            Précédente
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={result.page >= result.pageCount}
+            onClick={() => navigate(filters, result.page + 1)}
+          >
+            Suivante
+          </Button>
+        </div>
+      </div>
+
+      <Sheet open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <SheetContent className="overflow-y-auto sm:max-w-md">
+          {selected && (
+            <>
+              <SheetHeader>
+                <SheetTitle className="font-mono">{formatTrackingNumber(selected.trackingNumber)}</SheetTitle>
+                <SheetDescription>
+                  {ORDER_TYPE_LABELS[selected.type]} · {ORDER_STATUS_LABELS[selected.status]} · commandée le{' '}
+                  {formatDate(selected.createdAt)}
+                </SheetDescription>
+              </SheetHeader>
+              <OrderDetails order={selected} />
+              {canCancel && (
+                <div className="mt-6">
+                  <CancelOrderButton order={selected} rules={cancellationRules} onCancelled={() => setSelected(null)} />
+                </div>
+              )}
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default OrderHistory;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { ORDER_STATUS_LABELS, type OrderStatus } from '@/lib/orders';
+import { formatMoroccoTime } from '@/lib/scheduling';
+
+export interface TimelineEntry {
+  status: OrderStatus;
+  at: string;
+  reason?: string;
+}
+
+interface OrderTimelineProps {
+  entries: TimelineEntry[];
+}
+
+// Status history of an order, oldest first, the current status highlighted.
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ entries }) => {
+  return (
+    <ol className="relative border-l border-muted ml-2 space-y-4">
+      {entries.map((entry, index) => {
+        const current = index === entries.length - 1;
+        return (
+          <li key={`${entry.status}-${entry.at}`} className="ml-4">
+            <span
+              className={cn(
+                'absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background',
+                current ? 'bg-primary' : 'bg-muted-foreground/40'
+              )}
+            />
+            <p className={cn('text-sm', current && 'font-medium')}>{ORDER_STATUS_LABELS[entry.status]}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatMoroccoTime(entry.at, { day: 'numeric', month: 'long', year: 'numeric' })} à{' '}
+              {formatMoroccoTime(entry.at, { hour: '2-digit', minute: '2-digit' })}
+            </p>
+            {entry.reason && <p className="text-xs text-muted-foreground">{entry.reason}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
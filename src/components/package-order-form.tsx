@@ -0,0 +1,600 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { MapPin, Plus, Search, Trash2 } from 'lucide-react';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import AddressMapPicker, { type MapMarker } from '@/components/address-map-picker';
+import QuoteSummary from '@/components/quote-summary';
+import { loadPickupWindows, placePackageOrder, quotePackageOrder } from '@/app/package-delivery/actions';
+import { geocodeAddress, reverseGeocode, type GeoPoint } from '@/lib/geocoding';
+import {
+  PACKAGE_LIMITS,
+  PACKAGE_TYPE_LABELS,
+  PACKAGE_TYPES,
+  PAYMENT_METHOD_LABELS,
+  type PaymentMethod,
+} from '@/lib/orders';
+import type { Quote } from '@/lib/pricing';
+import { SCHEDULING_LIMITS, formatWindowHours, isBookableDay } from '@/lib/scheduling';
+import { packageOrderSchema, type PackageOrderFormValues } from '@/lib/schemas';
+import type { PickupWindowAvailability } from '@/services/orders';
+
+// Form paths of the addresses placed on the map
+type PlacePath = 'pickup' | 'destination' | `extraPickups.${number}` | `extraDropoffs.${number}.place`;
+
+type RecipientPath = 'recipient' | `extraDropoffs.${number}.recipient`;
+
+function placeLabel(path: PlacePath): string {
+  if (path === 'pickup') return 'Adresse de ramassage';
+  if (path === 'destination') return 'Adresse de destination';
+  const number = Number(path.split('.')[1]) + 2;
+  return path.startsWith('extraPickups') ? `Adresse de ramassage ${number}` : `Adresse de livraison ${number}`;
+}
+
+const EMPTY_PLACE = { address: '' } as PackageOrderFormValues['pickup'];
+const EMPTY_RECIPIENT = { firstName: '', lastName: '', phone: '' };
+
+const TIMING_LABELS: Record<PackageOrderFormValues['timing'], string> = {
+  now: 'Dès que possible',
+  scheduled: 'Programmer un créneau',
+};
+
+const DIMENSION_FIELDS = [
+  { name: 'parcel.lengthCm', label: 'Longueur (cm)' },
+  { name: 'parcel.widthCm', label: 'Largeur (cm)' },
+  { name: 'parcel.heightCm', label: 'Hauteur (cm)' },
+] as const;
+
+const PackageOrderForm: React.FC = () => {
+  const [activeField, setActiveField] = useState<PlacePath>('pickup');
+  const [searching, setSearching] = useState<PlacePath | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  // Day picked in the calendar, `YYYY-MM-DD`, and its windows once loaded
+  const [pickupDay, setPickupDay] = useState<string | null>(null);
+  const [windows, setWindows] = useState<PickupWindowAvailability[] | null>(null);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const form = useForm<PackageOrderFormValues>({
+    resolver: zodResolver(packageOrderSchema),
+    defaultValues: {
+      pickup: { address: '' },
+      destination: { address: '' },
+      recipient: { firstName: '', lastName: '', phone: '' },
+      parcel: { type: 'small', weightKg: 1, lengthCm: 30, widthCm: 20, heightCm: 10, declaredValue: 0, description: '' },
+      extraPickups: [],
+      extraDropoffs: [],
+      paymentMethod: 'cod',
+      timing: 'now',
+    },
+  });
+  const extraPickups = useFieldArray({ control: form.control, name: 'extraPickups' });
+  const extraDropoffs = useFieldArray({ control: form.control, name: 'extraDropoffs' });
+
+  // Any change makes the quote stale
+  useEffect(() => {
+    const subscription = form.watch(() => setQuote(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  useEffect(() => {
+    if (!pickupDay) return;
+    let cancelled = false;
+    setWindows(null);
+    loadPickupWindows(pickupDay).then((loaded) => {
+      if (!cancelled) setWindows(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pickupDay]);
+
+  const pickup = form.watch('pickup');
+  const destination = form.watch('destination');
+  const pickups = form.watch('extraPickups');
+  const dropoffs = form.watch('extraDropoffs');
+  const timing = form.watch('timing');
+  const pickupWindow = form.watch('pickupWindow');
+  const pointOf = (place: Partial<GeoPoint>): GeoPoint | null =>
+    place.lat !== undefined && place.lng !== undefined ? { lat: place.lat, lng: place.lng } : null;
+
+  const markers: MapMarker[] = [
+    { key: 'pickup', kind: 'pickup', point: pointOf(pickup), label: placeLabel('pickup') },
+    ...pickups.map((place, index): MapMarker => {
+      const key: PlacePath = `extraPickups.${index}`;
+      return { key, kind: 'pickup', point: pointOf(place), label: placeLabel(key) };
+    }),
+    { key: 'destination', kind: 'dropoff', point: pointOf(destination), label: placeLabel('destination') },
+    ...dropoffs.map(({ place }, index): MapMarker => {
+      const key: PlacePath = `extraDropoffs.${index}.place`;
+      return { key, kind: 'dropoff', point: pointOf(place), label: placeLabel(key) };
+    }),
+  ];
+
+  async function onPick(field: PlacePath, point: GeoPoint) {
+    // The marker moves at once; the address follows when the lookup returns
+    form.setValue(field, { ...form.getValues(field), ...point });
+    const place = await reverseGeocode(point);
+    form.setValue(field, place, { shouldValidate: true });
+    if (field === 'pickup' && !pointOf(form.getValues('destination'))) {
+      setActiveField('destination');
+    }
+  }
+
+  async function onSearch(field: PlacePath) {
+    const query = form.getValues(`${field}.address`);
+    if (!query?.trim()) return;
+    setSearching(field);
+    const place = await geocodeAddress(query);
+    setSearching(null);
+    if (!place) {
+      form.setError(`${field}.address`, { message: "Adresse introuvable. Placez-la sur la carte." });
+      setActiveField(field);
+      return;
+    }
+    // The typed address is kept, it often has details the map lacks
+    form.setValue(field, { address: query, lat: place.lat, lng: place.lng }, { shouldValidate: true });
+  }
+
+  async function onQuote(values: PackageOrderFormValues) {
+    setError(null);
+    const result = await quotePackageOrder(values);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setQuote(result.quote);
+  }
+
+  async function onConfirm(values: PackageOrderFormValues) {
+    if (!quote) return;
+    setIsPlacing(true);
+    setError(null);
+    const result = await placePackageOrder(values, quote.total);
+    setIsPlacing(false);
+    if (!result.ok) {
+      setError(result.error);
+      if (result.quote) {
+        setQuote(result.quote);
+      }
+      return;
+    }
+    toast({ title: "Commande enregistrée" });
+    router.push(`/package-delivery/confirmation/${result.trackingNumber}`);
+  }
+
+  const addressField = (field: PlacePath, onRemove?: () => void) => (
+    <FormField
+      control={form.control}
+      name={`${field}.address`}
+      render={({ field: input }) => (
+        <FormItem>
+          <FormLabel>{placeLabel(field)}</FormLabel>
+          <div className="flex gap-2">
+            <FormControl>
+              <Input
+                placeholder="Rue, quartier, ville"
+                {...input}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    onSearch(field);
+                  }
+                }}
+              />
+            </FormControl>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              title="Rechercher"
+              disabled={searching !== null}
+              onClick={() => onSearch(field)}
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant={activeField === field ? 'default' : 'outline'}
+              size="icon"
+              title="Placer sur la carte"
+              onClick={() => setActiveField(field)}
+            >
+              <MapPin className="h-4 w-4" />
+            </Button>
+            {onRemove && (
+              <Button type="button" variant="ghost" size="icon" title="Supprimer l'arrêt" onClick={onRemove}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <FormMessage />
+          {form.getFieldState(`${field}.lat`).error && !form.getFieldState(`${field}.address`).error && (
+            <p className="text-sm font-medium text-destructive">{form.getFieldState(`${field}.lat`).error?.message}</p>
+          )}
+        </FormItem>
+      )}
+    />
+  );
+
+  const recipientFields = (prefix: RecipientPath) => (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <FormField
+        control={form.control}
+        name={`${prefix}.firstName`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Prénom</FormLabel>
+            <FormControl>
+              <Input {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`${prefix}.lastName`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Nom</FormLabel>
+            <FormControl>
+              <Input {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`${prefix}.phone`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Téléphone</FormLabel>
+            <FormControl>
+              <Input type="tel" placeholder="0612345678" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onQuote)} className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Adresses</CardTitle>
+            <CardDescription>
+              Recherchez chaque adresse ou cliquez sur la carte pour la placer. Les marqueurs peuvent être déplacés.
+              Pour une tournée, ajoutez des arrêts : l'ordre de passage le plus rapide est calculé pour vous.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {addressField('pickup')}
+            {extraPickups.fields.map((stop, index) => (
+              <div key={stop.id}>
+                {addressField(`extraPickups.${index}`, () => {
+                  setActiveField('pickup');
+                  extraPickups.remove(index);
+                })}
+              </div>
+            ))}
+            {addressField('destination')}
+            {extraDropoffs.fields.map((stop, index) => (
+              <div key={stop.id} className="space-y-2 rounded-md border p-3">
+                {addressField(`extraDropoffs.${index}.place`, () => {
+                  setActiveField('pickup');
+                  extraDropoffs.remove(index);
+                })}
+                {recipientFields(`extraDropoffs.${index}.recipient`)}
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={extraPickups.fields.length >= PACKAGE_LIMITS.maxExtraPickups}
+                onClick={() => {
+                  extraPickups.append(EMPTY_PLACE);
+                  setActiveField(`extraPickups.${extraPickups.fields.length}`);
+                }}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Ajouter un ramassage
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={extraDropoffs.fields.length >= PACKAGE_LIMITS.maxExtraDropoffs}
+                onClick={() => {
+                  extraDropoffs.append({ place: EMPTY_PLACE, recipient: EMPTY_RECIPIENT });
+                  setActiveField(`extraDropoffs.${extraDropoffs.fields.length}.place`);
+                }}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Ajouter une livraison
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Un clic sur la carte place : <span className="font-medium">{placeLabel(activeField).toLowerCase()}</span>
+            </p>
+            <AddressMapPicker
+              markers={markers}
+              activeKey={activeField}
+              onPick={(key, point) => onPick(key as PlacePath, point)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Destinataire</CardTitle>
+            {extraDropoffs.fields.length > 0 && (
+              <CardDescription>À l'adresse de destination. Chaque livraison ajoutée a son propre destinataire.</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>{recipientFields('recipient')}</CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Colis</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="parcel.type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PACKAGE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {PACKAGE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="parcel.weightKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Poids (kg)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.1" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="parcel.declaredValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valeur déclarée (MAD)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              {DIMENSION_FIELDS.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <FormField
+              control={form.control}
+              name="parcel.description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contenu (optionnel)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Ex. vêtements, livres, pièces détachées" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Ramassage</CardTitle>
+            <CardDescription>
+              Les créneaux se réservent jusqu'à {SCHEDULING_LIMITS.maxDaysAhead} jours à l'avance, heure du Maroc.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="timing"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex space-x-4">
+                      {(Object.keys(TIMING_LABELS) as PackageOrderFormValues['timing'][]).map((value) => (
+                        <FormItem key={value} className="flex items-center space-x-2 space-y-0">
+                          <FormControl>
+                            <RadioGroupItem value={value} />
+                          </FormControl>
+                          <FormLabel className="font-normal">{TIMING_LABELS[value]}</FormLabel>
+                        </FormItem>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            {timing === 'scheduled' && (
+              <div className="flex flex-col md:flex-row gap-4">
+                <Calendar
+                  mode="single"
+                  locale={fr}
+                  selected={pickupDay ? parseISO(pickupDay) : undefined}
+                  onSelect={(date) => {
+                    setPickupDay(date ? format(date, 'yyyy-MM-dd') : null);
+                    form.setValue('pickupWindow', undefined);
+                  }}
+                  disabled={(date) => !isBookableDay(format(date, 'yyyy-MM-dd'))}
+                  className="rounded-md border w-fit"
+                />
+                <FormField
+                  control={form.control}
+                  name="pickupWindow"
+                  render={() => (
+                    <FormItem className="flex-1">
+                      <FormLabel>
+                        {pickupDay
+                          ? `Créneaux du ${format(parseISO(pickupDay), 'EEEE d MMMM', { locale: fr })}`
+                          : 'Choisissez un jour'}
+                      </FormLabel>
+                      {pickupDay && !windows && <p className="text-sm text-muted-foreground">Chargement...</p>}
+                      {windows?.length === 0 && (
+                        <p className="text-sm text-muted-foreground">Plus aucun créneau ce jour-là.</p>
+                      )}
+                      <div className="grid grid-cols-2 gap-2">
+                        {windows?.map(({ window, remaining }) => (
+                          <Button
+                            key={window.start}
+                            type="button"
+                            variant={pickupWindow === window.start ? 'default' : 'outline'}
+                            disabled={remaining === 0}
+                            onClick={() => form.setValue('pickupWindow', window.start, { shouldValidate: true })}
+                            className="flex flex-col h-auto py-2"
+                          >
+                            <span>{formatWindowHours(window)}</span>
+                            <span className="text-xs font-normal">
+                              {remaining === 0 ? 'Complet' : `${remaining} place(s)`}
+                            </span>
+                          </Button>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Paiement</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FormField
+              control={form.control}
+              name="paymentMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex space-x-4">
+                      {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => (
+                        <FormItem key={method} className="flex items-center space-x-2 space-y-0">
+                          <FormControl>
+                            <RadioGroupItem value={method} />
+                          </FormControl>
+                          <FormLabel className="font-normal">{PAYMENT_METHOD_LABELS[method]}</FormLabel>
+                        </FormItem>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        {quote && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Prix</CardTitle>
+              <CardDescription>
+                Calculé pour {timing === 'scheduled' ? 'le créneau choisi' : 'un départ maintenant'}. Vérifiez-le avant
+                de confirmer.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QuoteSummary quote={quote} />
+            </CardContent>
+          </Card>
+        )}
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        {quote ? (
+          <div className="flex space-x-2">
+            <Button type="button" disabled={isPlacing} onClick={form.handleSubmit(onConfirm)}>
+              {isPlacing ? "Envoi..." : "Confirmer la commande"}
+            </Button>
+            <Button type="button" variant="ghost" disabled={isPlacing} onClick={() => setQuote(null)}>
+              Modifier
+            </Button>
+          </div>
+        ) : (
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Calcul du prix..." : "Voir le prix"}
+          </Button>
+        )}
+      </form>
+    </Form>
+  );
+};
+
+export default PackageOrderForm;
@@ -0,0 +1,43 @@
+"use client";
+
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { Progress } from "@/components/ui/progress";
+import {
+  PASSWORD_STRENGTH_LABELS,
+  passwordRuleLabel,
+  passwordRuleResults,
+  passwordStrength,
+} from '@/lib/password-policy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+// Live feedback under a new-password field: estimated strength and the
+// policy rules, ticked as they are met.
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password }) => {
+  if (!password) {
+    return null;
+  }
+  const strength = passwordStrength(password);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Progress value={(strength + 1) * 20} className="h-2" aria-label="Solidité du mot de passe" />
+        <span className="text-xs text-muted-foreground whitespace-nowrap">{PASSWORD_STRENGTH_LABELS[strength]}</span>
+      </div>
+      <ul className="space-y-1">
+        {passwordRuleResults(password).map(({ rule, met }) => (
+          <li key={rule} className={`flex items-center text-xs ${met ? 'text-green-600' : 'text-muted-foreground'}`}>
+            {met ? <Check className="h-3 w-3 mr-1" /> : <X className="h-3 w-3 mr-1" />}
+            {passwordRuleLabel(rule)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useFieldArray, useForm, type FieldPath } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useRouter } from 'next/navigation';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { savePricing } from '@/app/dashboard/admin/pricing/actions';
+import { ORDER_TYPE_LABELS, ORDER_TYPES } from '@/lib/orders';
+import type { PricingRules } from '@/lib/pricing';
+import { pricingRulesSchema, type PricingRulesFormValues } from '@/lib/schemas';
+
+interface PricingRulesFormProps {
+  defaultValues: PricingRules;
+}
+
+const PricingRulesForm: React.FC<PricingRulesFormProps> = ({ defaultValues }) => {
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const form = useForm<PricingRulesFormValues>({
+    resolver: zodResolver(pricingRulesSchema),
+    defaultValues,
+  });
+  const surcharges = useFieldArray({ control: form.control, name: 'timeSurcharges' });
+  const zones = useFieldArray({ control: form.control, name: 'zones' });
+
+  async function onSubmit(values: PricingRulesFormValues) {
+    setError(null);
+    const result = await savePricing(values);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    toast({ title: "Tarifs enregistrés" });
+    router.refresh();
+  }
+
+  const field = (name: FieldPath<PricingRulesFormValues>, label: string, type: 'number' | 'text' = 'number') => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field: input }) => (
+        <FormItem>
+          <FormLabel className="text-xs">{label}</FormLabel>
+          <FormControl>
+            <Input type={type} step="any" {...input} value={input.value as string | number} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Tarifs par type (MAD)</CardTitle>
+            <CardDescription>Prise en charge plus prix au kilomètre, avec un minimum par course.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {ORDER_TYPES.map((type) => (
+              <div key={type} className="grid grid-cols-4 gap-2 items-end">
+                <p className="text-sm font-medium pb-2">{ORDER_TYPE_LABELS[type]}</p>
+                {field(`rates.${type}.baseFare`, 'Prise en charge')}
+                {field(`rates.${type}.perKm`, 'Par km')}
+                {field(`rates.${type}.minimum`, 'Minimum')}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Poids et volume</CardTitle>
+            <CardDescription>
+              Les colis sont facturés sur le plus élevé du poids réel et du poids volumétrique (L × l × h / diviseur).
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-3 gap-2">
+            {field('includedWeightKg', 'Poids inclus (kg)')}
+            {field('perExtraKg', 'Par kg supplémentaire (MAD)')}
+            {field('volumetricDivisor', 'Diviseur volumétrique (cm³/kg)')}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tournées</CardTitle>
+            <CardDescription>
+              Une tournée est facturée sur la distance de tout l'itinéraire, plus un supplément par arrêt au-delà d'un
+              ramassage et d'une livraison.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="max-w-xs">{field('perExtraStop', 'Par arrêt supplémentaire (MAD)')}</CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Majorations horaires</CardTitle>
+            <CardDescription>Heure du Maroc. Une plage peut passer minuit, par exemple de 22 h à 6 h.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {surcharges.fields.map((surcharge, index) => (
+              <div key={surcharge.id} className="grid grid-cols-5 gap-2 items-end">
+                {field(`timeSurcharges.${index}.label`, 'Nom', 'text')}
+                {field(`timeSurcharges.${index}.startHour`, 'De (h)')}
+                {field(`timeSurcharges.${index}.endHour`, 'À (h)')}
+                {field(`timeSurcharges.${index}.percent`, 'Majoration (%)')}
+                <Button type="button" variant="ghost" size="icon" title="Supprimer" onClick={() => surcharges.remove(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => surcharges.append({ label: '', startHour: 0, endHour: 0, percent: 0 })}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Ajouter une majoration
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Zones desservies</CardTitle>
+            <CardDescription>
+              Cercles autour d'un centre. Une livraison paie les frais de la zone la plus chère qu'elle touche, ou les
+              frais hors zone si l'un de ses arrêts n'est dans aucune zone.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {zones.fields.map((zone, index) => (
+              <div key={zone.id} className="grid grid-cols-6 gap-2 items-end">
+                {field(`zones.${index}.name`, 'Nom', 'text')}
+                {field(`zones.${index}.lat`, 'Latitude')}
+                {field(`zones.${index}.lng`, 'Longitude')}
+                {field(`zones.${index}.radiusKm`, 'Rayon (km)')}
+                {field(`zones.${index}.fee`, 'Frais (MAD)')}
+                <Button type="button" variant="ghost" size="icon" title="Supprimer" onClick={() => zones.remove(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {(form.formState.errors.zones?.message ?? form.formState.errors.zones?.root?.message) && (
+              <p className="text-red-500 text-sm">
+                {form.formState.errors.zones?.message ?? form.formState.errors.zones?.root?.message}
+              </p>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => zones.append({ name: '', lat: 0, lng: 0, radiusKm: 10, fee: 0 })}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Ajouter une zone
+            </Button>
+            <div className="max-w-xs pt-2">{field('outOfZoneFee', 'Frais hors zone (MAD)')}</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Annulation</CardTitle>
+            <CardDescription>
+              Gratuite jusqu&apos;à l&apos;assignation d&apos;un livreur, puis des frais fixes, puis une part du prix
+              une fois le colis ramassé.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-2">
+            {field('cancellation.afterAssignmentFee', 'Après assignation (MAD)')}
+            {field('cancellation.afterPickupPercent', 'Après ramassage (% du prix)')}
+          </CardContent>
+        </Card>
+
+        {error &&<p className="text-red-500 text-sm">{error}</p>}
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "Enregistrement..." : "Enregistrer les tarifs"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default PricingRulesForm;
@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm, type FieldPath } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { ZodType } from 'zod';
+import { useRouter } from 'next/navigation';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import {
+  companyProfileSchema,
+  personalProfileSchema,
+  type CompanyProfileFormValues,
+  type PersonalProfileFormValues,
+} from '@/lib/schemas';
+import { REGISTRATION_FIELD_LABELS } from '@/lib/registration-steps';
+import { saveProfile } from '@/app/settings/actions';
+import type { ProfileKind } from '@/services/profile';
+
+type ProfileFormValues = PersonalProfileFormValues | CompanyProfileFormValues;
+
+interface ProfileFormProps {
+  kind: ProfileKind;
+  defaultValues: Record<string, string>;
+}
+
+const FIELDS: Record<ProfileKind, string[]> = {
+  personal: ['firstName', 'lastName', 'phone', 'whatsappPhone', 'email'],
+  company: ['companyName', 'rcOrIfNumber', 'ice', 'phone', 'whatsappPhone', 'email'],
+};
+
+const ProfileForm: React.FC<ProfileFormProps> = ({ kind, defaultValues }) => {
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  // The schema follows the kind of profile, so it validates either value shape
+  const schema: ZodType<ProfileFormValues> = kind === 'company' ? companyProfileSchema : personalProfileSchema;
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: defaultValues as ProfileFormValues,
+  });
+
+  async function onSubmit(values: ProfileFormValues) {
+    setError(null);
+    const result = await saveProfile(values);
+    if (!result.ok) {
+      setError(result.error);
+      for (const [field, message] of Object.entries(result.fieldErrors ?? {})) {
+        form.setError(field as FieldPath<ProfileFormValues>, { message });
+      }
+      return;
+    }
+    if (result.reverify) {
+      toast({
+        title: "Profil enregistré",
+        description: "Confirmez vos nouvelles coordonnées pour continuer à utiliser votre compte.",
+      });
+      router.push('/verify');
+      return;
+    }
+    toast({
+      title: "Profil enregistré",
+      description: result.kycReset
+        ? "Vos nouveaux identifiants légaux seront vérifiés avant que vous puissiez recevoir des commandes."
+        : undefined,
+    });
+    router.refresh();
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {FIELDS[kind].map((name) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name as FieldPath<ProfileFormValues>}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{REGISTRATION_FIELD_LABELS[name]}</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Un nouvel email ou numéro WhatsApp devra être confirmé avant de pouvoir utiliser votre compte.
+        </p>
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "Enregistrement..." : "Enregistrer"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ProfileForm;
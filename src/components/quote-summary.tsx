@@ -0,0 +1,26 @@
+import React from 'react';
+import { formatPrice, type Quote } from '@/lib/pricing';
+
+interface QuoteSummaryProps {
+  quote: Quote;
+}
+
+// Breakdown of a delivery price, as computed by the server.
+const QuoteSummary: React.FC<QuoteSummaryProps> = ({ quote }) => {
+  return (
+    <dl className="space-y-1 text-sm">
+      {quote.lines.map((line) => (
+        <div key={line.label} className="flex justify-between">
+          <dt className="text-muted-foreground">{line.label}</dt>
+          <dd>{formatPrice(line.amount)}</dd>
+        </div>
+      ))}
+      <div className="flex justify-between border-t pt-2 font-semibold text-base">
+        <dt>Total</dt>
+        <dd>{formatPrice(quote.total)}</dd>
+      </div>
+    </dl>
+  );
+};
+
+export default QuoteSummary;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { DOCUMENT_FIELDS, DOCUMENT_KIND_LABELS } from '@/lib/documents';
+import { REGISTRATION_FIELD_LABELS } from '@/lib/registration-steps';
+import type { DocumentFieldName, UploadedDocumentPreview } from '@/hooks/use-document-upload';
+
+interface RegistrationReviewProps {
+  values: Record<string, unknown>;
+  previews: Partial<Record<DocumentFieldName, UploadedDocumentPreview>>;
+}
+
+// Last step of the registration wizard: everything entered, before sending.
+const RegistrationReview: React.FC<RegistrationReviewProps> = ({ values, previews }) => {
+  const fields = Object.keys(REGISTRATION_FIELD_LABELS).filter(
+    (field) => typeof values[field] === 'string' && values[field]
+  );
+  const documents = (Object.keys(DOCUMENT_FIELDS) as DocumentFieldName[]).filter((field) => previews[field]);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <dl className="space-y-2">
+        {fields.map((field) => (
+          <div key={field} className="flex justify-between gap-4">
+            <dt className="text-muted-foreground">{REGISTRATION_FIELD_LABELS[field]}</dt>
+            <dd className="font-medium text-right break-all">{values[field] as string}</dd>
+          </div>
+        ))}
+      </dl>
+      {documents.length > 0 && (
+        <ul className="space-y-1">
+          {documents.map((field) => (
+            <li key={field} className="flex items-center space-x-2">
+              <FileText className="h-4 w-4 text-muted-foreground" />
+              <span>
+                {DOCUMENT_KIND_LABELS[DOCUMENT_FIELDS[field]]} : {previews[field]!.name}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-muted-foreground">Vérifiez vos informations avant de créer votre compte.</p>
+    </div>
+  );
+};
+
+export default RegistrationReview;
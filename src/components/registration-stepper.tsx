@@ -0,0 +1,31 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { REGISTRATION_STEPS } from '@/lib/registration-steps';
+
+interface RegistrationStepperProps {
+  stepIndex: number;
+}
+
+// Progress of the registration wizard: done, current and upcoming steps.
+const RegistrationStepper: React.FC<RegistrationStepperProps> = ({ stepIndex }) => (
+  <ol className="flex items-center justify-between mb-6">
+    {REGISTRATION_STEPS.map((step, index) => (
+      <li key={step.id} className="flex flex-col items-center flex-1 text-xs">
+        <span
+          className={cn(
+            'flex h-7 w-7 items-center justify-center rounded-full border text-sm',
+            index < stepIndex && 'bg-primary border-primary text-primary-foreground',
+            index === stepIndex && 'border-primary text-primary font-semibold',
+            index > stepIndex && 'text-muted-foreground'
+          )}
+        >
+          {index < stepIndex ? <Check className="h-4 w-4" /> : index + 1}
+        </span>
+        <span className={cn('mt-1', index === stepIndex ? 'font-medium' : 'text-muted-foreground')}>{step.label}</span>
+      </li>
+    ))}
+  </ol>
+);
+
+export default RegistrationStepper;
@@ -0,0 +1,70 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import type { useRegistrationWizard } from '@/hooks/use-registration-wizard';
+
+interface RegistrationWizardFooterProps {
+  wizard: ReturnType<typeof useRegistrationWizard>;
+  isUploading: boolean;
+  isSubmitting: boolean;
+}
+
+const resumeLinkErrors: Record<string, string> = {
+  draft_not_found: "Le brouillon n'a pas pu être enregistré. Veuillez réessayer.",
+  missing_contact: "Renseignez d'abord vos coordonnées.",
+  cooldown: "Un lien vient d'être envoyé. Patientez une minute avant d'en demander un autre.",
+  too_many_requests: "Trop de liens ont été envoyés. Réessayez dans une heure.",
+  delivery_failed: "L'envoi a échoué. Veuillez réessayer.",
+};
+
+// Navigation of the registration wizard, plus a way to finish later.
+const RegistrationWizardFooter: React.FC<RegistrationWizardFooterProps> = ({ wizard, isUploading, isSubmitting }) => {
+  const { toast } = useToast();
+
+  async function sendResumeLink(channel: 'whatsapp' | 'email') {
+    const result = await wizard.sendResumeLink(channel);
+    toast(
+      result.ok
+        ? {
+            title: "Lien envoyé",
+            description: `Reprenez votre inscription depuis le lien reçu par ${channel === 'whatsapp' ? 'WhatsApp' : 'email'}.`,
+          }
+        : { title: "Envoi impossible", description: resumeLinkErrors[result.error], variant: 'destructive' }
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" onClick={wizard.back} disabled={wizard.stepIndex === 0}>
+          Précédent
+        </Button>
+        {wizard.isLastStep ? (
+          <Button type="submit" disabled={isUploading || isSubmitting}>
+            {isSubmitting ? "Inscription..." : "S'inscrire"}
+          </Button>
+        ) : (
+          <Button type="submit" disabled={isUploading}>
+            {isUploading ? "Téléversement..." : "Suivant"}
+          </Button>
+        )}
+      </div>
+      {wizard.stepIndex > 0 && (
+        <div className="text-sm text-muted-foreground text-center">
+          Continuer plus tard ? Recevoir un lien par{' '}
+          <button type="button" className="text-primary" disabled={wizard.isSaving} onClick={() => sendResumeLink('whatsapp')}>
+            WhatsApp
+          </button>{' '}
+          ou{' '}
+          <button type="button" className="text-primary" disabled={wizard.isSaving} onClick={() => sendResumeLink('email')}>
+            email
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegistrationWizardFooter;
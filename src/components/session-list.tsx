@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Monitor, Smartphone, Tablet } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import { logoutEverywhere, revokeDeviceSession, type SessionActionResult } from '@/app/settings/sessions/actions';
+import type { DeviceDescription } from '@/lib/user-agent';
+
+export interface SessionRow extends DeviceDescription {
+  id: string;
+  location: string;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+interface SessionListProps {
+  sessions: SessionRow[];
+}
+
+const DEVICE_ICONS = { mobile: Smartphone, tablet: Tablet, desktop: Monitor };
+
+const SessionList: React.FC<SessionListProps> = ({ sessions }) => {
+  const [pending, setPending] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  async function run(key: string, action: () => Promise<SessionActionResult>) {
+    setPending(key);
+    const result = await action();
+    setPending(null);
+    if (!result.ok) {
+      toast({ title: result.error, variant: 'destructive' });
+      router.refresh();
+      return;
+    }
+    if (result.signedOut) {
+      router.push('/login');
+      router.refresh();
+      return;
+    }
+    toast({ title: "Session déconnectée" });
+    router.refresh();
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y">
+        {sessions.map((session) => {
+          const Icon = DEVICE_ICONS[session.device];
+          return (
+            <li key={session.id} className="flex items-center justify-between py-3 gap-4">
+              <div className="flex items-center space-x-3">
+                <Icon className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="text-sm font-medium">
+                    {session.browser} · {session.os}
+                    {session.current && <Badge variant="secondary" className="ml-2">Cet appareil</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {session.location} · Actif{' '}
+                    {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true, locale: fr })}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={pending !== null}
+                onClick={() => run(session.id, () => revokeDeviceSession(session.id))}
+              >
+                Déconnecter
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+      <Button variant="destructive" disabled={pending !== null} onClick={() => run('all', logoutEverywhere)}>
+        Se déconnecter partout
+      </Button>
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,42 @@
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { cn } from '@/lib/utils';
+
+export interface SettingsSection {
+  href: string;
+  label: string;
+}
+
+interface SettingsNavProps {
+  sections: SettingsSection[];
+  dashboardHref: string;
+}
+
+const SettingsNav: React.FC<SettingsNavProps> = ({ sections, dashboardHref }) => {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex flex-col space-y-1">
+      <Link href={dashboardHref} className="text-primary text-sm mb-2">
+        ← Retour au tableau de bord
+      </Link>
+      {sections.map((section) => (
+        <Link
+          key={section.href}
+          href={section.href}
+          className={cn(
+            'rounded-md px-3 py-2 text-sm hover:bg-background',
+            pathname === section.href && 'bg-background font-medium'
+          )}
+        >
+          {section.label}
+        </Link>
+      ))}
+    </nav>
+  );
+};
+
+export default SettingsNav;
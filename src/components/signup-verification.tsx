@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useRouter } from 'next/navigation';
+import { CheckCircle2 } from 'lucide-react';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from '@/hooks/use-toast';
+import { resetCodeSchema, type ResetCodeFormValues } from '@/lib/schemas';
+import { confirmWhatsAppCode, resendVerification } from '@/app/actions';
+import type { VerificationChannel, VerificationStatus } from '@/services/signup-verification';
+
+interface SignupVerificationProps {
+  whatsappPhone: string;
+  email: string;
+  status: VerificationStatus;
+}
+
+const codeErrors: Record<string, string> = {
+  invalid_code: "Code incorrect.",
+  expired: "Ce code a expiré. Veuillez en demander un nouveau.",
+  too_many_attempts: "Trop de tentatives. Veuillez demander un nouveau code.",
+  not_signed_in: "Session expirée. Veuillez vous reconnecter.",
+};
+
+const sendErrors: Record<string, string> = {
+  delivery_failed: "L'envoi a échoué. Veuillez réessayer.",
+  too_many_requests: "Trop de demandes. Veuillez patienter avant d'en faire une nouvelle.",
+  not_signed_in: "Session expirée. Veuillez vous reconnecter.",
+};
+
+function secondsUntil(until: string | null): number {
+  return until ? Math.max(0, Math.ceil((new Date(until).getTime() - Date.now()) / 1000)) : 0;
+}
+
+// Seconds left before `until`, refreshed every second.
+function useCountdown(until: string | null): number {
+  const [seconds, setSeconds] = useState(() => secondsUntil(until));
+
+  useEffect(() => {
+    setSeconds(secondsUntil(until));
+    if (!until) return;
+    const timer = setInterval(() => setSeconds(secondsUntil(until)), 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  return seconds;
+}
+
+const SignupVerification: React.FC<SignupVerificationProps> = ({ whatsappPhone, email, status }) => {
+  const [resendAt, setResendAt] = useState<Record<VerificationChannel, string | null>>({
+    whatsapp: status.whatsappResendAt,
+    email: status.emailResendAt,
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const whatsappCooldown = useCountdown(resendAt.whatsapp);
+  const emailCooldown = useCountdown(resendAt.email);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const codeForm = useForm<ResetCodeFormValues>({
+    resolver: zodResolver(resetCodeSchema),
+    defaultValues: { code: "" },
+  });
+
+  async function onConfirm(values: ResetCodeFormValues) {
+    setIsLoading(true);
+    setError(null);
+    const result = await confirmWhatsAppCode(values.code);
+    setIsLoading(false);
+
+    if (!result.ok) {
+      setError(codeErrors[result.error]);
+      return;
+    }
+    toast({ title: "Numéro WhatsApp confirmé" });
+    router.refresh();
+  }
+
+  async function onResend(channel: VerificationChannel) {
+    setError(null);
+    const result = await resendVerification(channel);
+    if (result.ok || result.error === 'cooldown' || result.error === 'too_many_requests') {
+      setResendAt((current) => ({ ...current, [channel]: result.resendAt }));
+    }
+    if (result.ok) {
+      toast({ title: channel === 'whatsapp' ? "Code renvoyé" : "Lien renvoyé" });
+    } else if (result.error === 'already_verified') {
+      router.refresh();
+    } else if (result.error !== 'cooldown') {
+      setError(sendErrors[result.error]);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-4">
+        <h3 className="font-medium">Numéro WhatsApp</h3>
+        {status.whatsappVerified ? (
+          <p className="flex items-center text-sm text-green-600">
+            <CheckCircle2 className="mr-2 h-4 w-4" /> {whatsappPhone} est confirmé.
+          </p>
+        ) : (
+          <Form {...codeForm}>
+            <form onSubmit={codeForm.handleSubmit(onConfirm)} className="space-y-4">
+              <FormField
+                control={codeForm.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code envoyé sur WhatsApp au {whatsappPhone}</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" autoComplete="one-time-code" maxLength={6} placeholder="123456" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex space-x-2">
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? "Vérification..." : "Vérifier"}
+                </Button>
+                <Button type="button" variant="ghost" disabled={whatsappCooldown > 0} onClick={() => onResend('whatsapp')}>
+                  {whatsappCooldown > 0 ? `Renvoyer le code (${whatsappCooldown}s)` : "Renvoyer le code"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </section>
+
+      <Separator />
+
+      <section className="space-y-4">
+        <h3 className="font-medium">Adresse email</h3>
+        {status.emailVerified ? (
+          <p className="flex items-center text-sm text-green-600">
+            <CheckCircle2 className="mr-2 h-4 w-4" /> {email} est confirmée.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Ouvrez le lien envoyé à {email} pour confirmer votre adresse. Le lien expire dans 24 heures.
+            </p>
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" onClick={() => router.refresh()}>
+                J&apos;ai confirmé mon email
+              </Button>
+              <Button type="button" variant="ghost" disabled={emailCooldown > 0} onClick={() => onResend('email')}>
+                {emailCooldown > 0 ? `Renvoyer le lien (${emailCooldown}s)` : "Renvoyer le lien"}
+              </Button>
+            </div>
+          </>
+        )}
+      </section>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default SignupVerification;
@@ -0,0 +1,119 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from '@/hooks/use-toast';
+import { INVITABLE_STAFF_ROLES, STAFF_ROLE_LABELS } from '@/lib/company-roles';
+import { staffInvitationSchema, type StaffInvitationFormValues } from '@/lib/schemas';
+import { inviteStaffMember } from '@/app/dashboard/company/staff/actions';
+
+const StaffInviteForm = () => {
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<StaffInvitationFormValues>({
+    resolver: zodResolver(staffInvitationSchema),
+    defaultValues: { role: 'dispatcher', channel: 'email', contact: "" },
+  });
+  const channel = form.watch('channel');
+
+  async function onSubmit(values: StaffInvitationFormValues) {
+    setError(null);
+    const result = await inviteStaffMember(values);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    toast({ title: "Invitation envoyée", description: values.contact });
+    form.reset({ ...values, contact: "" });
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="channel"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Envoyer l'invitation par</FormLabel>
+              <FormControl>
+                <RadioGroup onValueChange={field.onChange} value={field.value} className="flex space-x-4">
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <RadioGroupItem value="email" />
+                    </FormControl>
+                    <FormLabel className="font-normal">Email</FormLabel>
+                  </FormItem>
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <RadioGroupItem value="whatsapp" />
+                    </FormControl>
+                    <FormLabel className="font-normal">WhatsApp</FormLabel>
+                  </FormItem>
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="contact"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{channel === 'email' ? "Email" : "Numéro WhatsApp"}</FormLabel>
+              <FormControl>
+                <Input placeholder={channel === 'email' ? "jane.doe@example.com" : "+212612345678"} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rôle</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {INVITABLE_STAFF_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {STAFF_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "Envoi..." : "Inviter"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default StaffInviteForm;
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from '@/hooks/use-toast';
+import { INVITABLE_STAFF_ROLES, STAFF_ROLE_LABELS, type StaffRole } from '@/lib/company-roles';
+import { removeStaffMember, updateStaffRole } from '@/app/dashboard/company/staff/actions';
+
+interface StaffMemberActionsProps {
+  userId: string;
+  name: string;
+  role: StaffRole;
+}
+
+// Role picker and removal of a staff member, for the company owner.
+const StaffMemberActions: React.FC<StaffMemberActionsProps> = ({ userId, name, role }) => {
+  const [isPending, setIsPending] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  async function run(action: () => Promise<{ ok: true } | { ok: false; error: string }>, success: string) {
+    setIsPending(true);
+    const result = await action();
+    setIsPending(false);
+    if (!result.ok) {
+      toast({ title: "Action impossible", description: result.error, variant: 'destructive' });
+      return;
+    }
+    toast({ title: success });
+    router.refresh();
+  }
+
+  return (
+    <div className="flex items-center justify-end space-x-2">
+      <Select
+        value={role}
+        disabled={isPending}
+        onValueChange={(value) => run(() => updateStaffRole(userId, value), "Rôle mis à jour")}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {INVITABLE_STAFF_ROLES.map((option) => (
+            <SelectItem key={option} value={option}>
+              {STAFF_ROLE_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive" size="sm" disabled={isPending}>
+            Retirer
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Retirer {name} ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Son accès sera supprimé et ses sessions fermées. Les commandes qu'il a passées restent à son nom.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={() => run(() => removeStaffMember(userId), "Membre retiré")}>
+              Retirer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default StaffMemberActions;
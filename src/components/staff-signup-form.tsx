@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useRouter } from 'next/navigation';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import { staffAccountSchema, type StaffAccountFormValues } from '@/lib/schemas';
+import { acceptStaffInvitation } from '@/app/invitations/[token]/actions';
+import PasswordStrengthMeter from '@/components/password-strength-meter';
+
+interface StaffSignupFormProps {
+  token: string;
+  channel: 'email' | 'whatsapp';
+  // Email or WhatsApp number the invitation was sent to
+  contact: string;
+}
+
+const StaffSignupForm: React.FC<StaffSignupFormProps> = ({ token, channel, contact }) => {
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const form = useForm<StaffAccountFormValues>({
+    resolver: zodResolver(staffAccountSchema),
+    defaultValues: {
+      firstName: "",
+      lastName: "",
+      phone: channel === 'whatsapp' ? contact : "",
+      whatsappPhone: channel === 'whatsapp' ? contact : "",
+      email: channel === 'email' ? contact : "",
+      password: "",
+    },
+  });
+
+  async function onSubmit(values: StaffAccountFormValues) {
+    setError(null);
+    const result = await acceptStaffInvitation(token, values);
+    if (!result.ok) {
+      for (const [field, message] of Object.entries(result.fieldErrors)) {
+        if (field in values) {
+          form.setError(field as keyof StaffAccountFormValues, { message });
+        } else {
+          setError(message);
+        }
+      }
+      return;
+    }
+    toast({ title: "Bienvenue dans l'équipe !" });
+    router.push(result.redirectTo);
+  }
+
+  const fields: { name: keyof StaffAccountFormValues; label: string; placeholder?: string; locked?: boolean }[] = [
+    { name: 'firstName', label: "Prénom", placeholder: "Jane" },
+    { name: 'lastName', label: "Nom", placeholder: "Doe" },
+    { name: 'email', label: "Email", placeholder: "jane.doe@example.com", locked: channel === 'email' },
+    { name: 'phone', label: "Numéro de téléphone", placeholder: "+212612345678" },
+    {
+      name: 'whatsappPhone',
+      label: "Numéro de téléphone WhatsApp",
+      placeholder: "+212612345678",
+      locked: channel === 'whatsapp',
+    },
+  ];
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {fields.map(({ name, label, placeholder, locked }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input placeholder={placeholder} readOnly={locked} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Mot de passe</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <PasswordStrengthMeter password={field.value} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "Création..." : "Créer mon accès"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default StaffSignupForm;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { STOP_KIND_LABELS, STOP_STATUS_LABELS, type StopKind, type StopStatus } from '@/lib/orders';
+import type { OrderStop } from '@/services/orders';
+
+export interface StopListEntry {
+  kind: StopKind;
+  status: StopStatus;
+  // Address and recipient; left out on public pages
+  details?: string;
+  reason?: string;
+}
+
+interface StopListProps {
+  stops: StopListEntry[];
+}
+
+/** Entry for the customer, with the address and recipient of the stop. */
+export function describeStop(stop: OrderStop): StopListEntry {
+  const recipient = stop.recipient && `${stop.recipient.firstName} ${stop.recipient.lastName}`.trim();
+  return {
+    kind: stop.kind,
+    status: stop.status,
+    details: [stop.place.address, recipient].filter(Boolean).join(' · '),
+    reason: stop.reason,
+  };
+}
+
+const STATUS_BADGES: Record<StopStatus, 'outline' | 'default' | 'destructive'> = {
+  pending: 'outline',
+  done: 'default',
+  failed: 'destructive',
+};
+
+// Stops of a multi-stop order, numbered in visiting order.
+const StopList: React.FC<StopListProps> = ({ stops }) => {
+  return (
+    <ol className="space-y-2">
+      {stops.map((stop, index) => (
+        <li key={index} className="flex items-start gap-3 text-sm">
+          <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium">
+            {index + 1}
+          </span>
+          <div className="flex-1">
+            <p className="font-medium">{STOP_KIND_LABELS[stop.kind]}</p>
+            {stop.details && <p className="text-muted-foreground">{stop.details}</p>}
+            {stop.reason && <p className="text-xs text-muted-foreground">{stop.reason}</p>}
+          </div>
+          <Badge variant={STATUS_BADGES[stop.status]}>{STOP_STATUS_LABELS[stop.status]}</Badge>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default StopList;
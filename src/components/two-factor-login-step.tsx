@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from '@/hooks/use-toast';
+import { twoFactorCodeSchema, type TwoFactorCodeFormValues } from '@/lib/schemas';
+import { resendLoginTwoFactorCode, verifyLoginTwoFactor } from '@/app/actions';
+import type { TwoFactorMethod } from '@/services/two-factor';
+
+interface TwoFactorLoginStepProps {
+  challenge: string;
+  method: TwoFactorMethod;
+  onSuccess: (redirectTo: string) => void;
+  // Back to the password step, e.g. once the challenge expired
+  onRestart: () => void;
+}
+
+const codeErrors: Record<string, string> = {
+  invalid_code: "Code incorrect.",
+  expired: "La connexion a expiré. Veuillez saisir à nouveau votre mot de passe.",
+  too_many_attempts: "Trop de tentatives. Veuillez saisir à nouveau votre mot de passe.",
+  throttled: "Trop de tentatives. Veuillez patienter avant de réessayer.",
+  locked: "Connexion temporairement bloquée après plusieurs échecs. Veuillez réessayer plus tard.",
+};
+
+// Second login step for accounts with two-factor authentication.
+const TwoFactorLoginStep: React.FC<TwoFactorLoginStepProps> = ({ challenge, method, onSuccess, onRestart }) => {
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<TwoFactorCodeFormValues>({
+    resolver: zodResolver(twoFactorCodeSchema),
+    defaultValues: { code: "" },
+  });
+
+  async function onSubmit(values: TwoFactorCodeFormValues) {
+    setError(null);
+    const result = await verifyLoginTwoFactor(challenge, values.code);
+    if (!result.ok) {
+      setError(codeErrors[result.error]);
+      if (result.error !== 'invalid_code') {
+        toast({ title: codeErrors[result.error], variant: 'destructive' });
+        onRestart();
+      }
+      return;
+    }
+    if (result.usedRecoveryCode) {
+      toast({
+        title: "Code de secours utilisé",
+        description: "Ce code ne fonctionnera plus. Pensez à en générer de nouveaux dans vos paramètres.",
+      });
+    }
+    onSuccess(result.redirectTo);
+  }
+
+  async function onResend() {
+    const result = await resendLoginTwoFactorCode(challenge);
+    if (result.ok) {
+      toast({ title: "Code renvoyé" });
+    } else if (result.error === 'cooldown') {
+      toast({ title: "Patientez une minute avant de demander un nouveau code." });
+    } else {
+      onRestart();
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {method === 'totp'
+                  ? "Code de votre application d'authentification"
+                  : "Code reçu sur WhatsApp"}
+              </FormLabel>
+              <FormControl>
+                <Input autoComplete="one-time-code" autoFocus placeholder="123456" {...field} />
+              </FormControl>
+              <p className="text-xs text-muted-foreground">Vous pouvez aussi saisir un code de secours.</p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        <div className="flex space-x-2">
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Vérification..." : "Vérifier"}
+          </Button>
+          {method === 'whatsapp' && (
+            <Button type="button" variant="ghost" onClick={onResend}>
+              Renvoyer le code
+            </Button>
+          )}
+          <Button type="button" variant="ghost" onClick={onRestart}>
+            Retour
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default TwoFactorLoginStep;
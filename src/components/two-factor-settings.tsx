@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from '@/hooks/use-toast';
+import { confirmSetup, disable, regenerateCodes, sendCode, startSetup } from '@/app/settings/two-factor/actions';
+import type { TwoFactorMethod, TwoFactorSetupStart } from '@/services/two-factor';
+
+interface TwoFactorSettingsProps {
+  enabledMethod: TwoFactorMethod | null;
+  recoveryCodesLeft: number;
+  whatsappPhone: string;
+  required: boolean;
+}
+
+// Actions that need a code of the current second factor
+type Pending = 'regenerate' | 'disable' | 'change' | null;
+
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({
+  enabledMethod,
+  recoveryCodesLeft,
+  whatsappPhone,
+  required,
+}) => {
+  const [method, setMethod] = useState<TwoFactorMethod>('totp');
+  const [setup, setSetup] = useState<TwoFactorSetupStart | null>(null);
+  const [pending, setPending] = useState<Pending>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  async function onStart() {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await startSetup(method, pending === 'change' ? code : undefined);
+    setIsSubmitting(false);
+    setCode('');
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setPending(null);
+    setSetup(result.setup);
+  }
+
+  async function onConfirm() {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await confirmSetup(code);
+    setIsSubmitting(false);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setSetup(null);
+    setCode('');
+    setRecoveryCodes(result.recoveryCodes);
+    toast({ title: enabledMethod ? "Méthode modifiée" : "Authentification à deux facteurs activée" });
+    router.refresh();
+  }
+
+  async function onPending() {
+    setIsSubmitting(true);
+    setError(null);
+    if (pending === 'regenerate') {
+      const result = await regenerateCodes(code);
+      setIsSubmitting(false);
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setRecoveryCodes(result.recoveryCodes);
+    } else {
+      const result = await disable(code);
+      setIsSubmitting(false);
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      toast({ title: "Authentification à deux facteurs désactivée" });
+    }
+    setPending(null);
+    setCode('');
+    router.refresh();
+  }
+
+  async function onSendCode() {
+    setError(null);
+    const result = await sendCode();
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    toast({ title: "Code envoyé", description: `Un code a été envoyé sur WhatsApp au ${whatsappPhone}.` });
+  }
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-code">Code de vérification</Label>
+      <Input
+        id="two-factor-code"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+      />
+    </div>
+  );
+
+  const methodPicker = (
+    <RadioGroup value={method} onValueChange={(value) => setMethod(value as TwoFactorMethod)} className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <RadioGroupItem value="totp" id="method-totp" />
+        <Label htmlFor="method-totp" className="font-normal">
+          Application d'authentification (Google Authenticator, Authy…)
+        </Label>
+      </div>
+      <div className="flex items-center space-x-2">
+        <RadioGroupItem value="whatsapp" id="method-whatsapp" />
+        <Label htmlFor="method-whatsapp" className="font-normal">
+          Code par WhatsApp au {whatsappPhone}
+        </Label>
+      </div>
+    </RadioGroup>
+  );
+
+  const setupPanel = setup && (
+    <div className="space-y-4">
+      {setup.method === 'totp' ? (
+        <div className="space-y-2 text-sm">
+          <p>
+            Ajoutez MapYOO à votre application en{' '}
+            <a href={setup.uri} className="text-primary">
+              ouvrant ce lien
+            </a>{' '}
+            ou en saisissant cette clé :
+          </p>
+          <p className="font-mono break-all">{setup.secret}</p>
+        </div>
+      ) : (
+        <p className="text-sm">Un code a été envoyé sur WhatsApp au {setup.phone}.</p>
+      )}
+      {codeInput}
+      <Button disabled={isSubmitting} onClick={onConfirm}>
+        Confirmer
+      </Button>
+    </div>
+  );
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          Conservez ces codes de secours en lieu sûr. Chacun permet de vous connecter une fois si vous n'avez plus
+          accès à votre second facteur. Ils ne seront plus affichés.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+        <Button onClick={() => setRecoveryCodes(null)}>J'ai noté mes codes</Button>
+      </div>
+    );
+  }
+
+  if (enabledMethod && setup) {
+    return (
+      <div className="space-y-4">
+        {setupPanel}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </div>
+    );
+  }
+
+  if (enabledMethod) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">{recoveryCodesLeft} code(s) de secours restant(s).</p>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setPending('regenerate')}>
+            Générer de nouveaux codes de secours
+          </Button>
+          <Button variant="outline" onClick={() => setPending('change')}>
+            Changer de méthode
+          </Button>
+          {!required && (
+            <Button variant="destructive" onClick={() => setPending('disable')}>
+              Désactiver
+            </Button>
+          )}
+        </div>
+        {pending && (
+          <div className="space-y-2">
+            {pending === 'change' && methodPicker}
+            {codeInput}
+            <div className="flex space-x-2">
+              <Button disabled={isSubmitting} onClick={pending === 'change' ? onStart : onPending}>
+                Confirmer
+              </Button>
+              {enabledMethod === 'whatsapp' && (
+                <Button type="button" variant="ghost" onClick={onSendCode}>
+                  Recevoir un code par WhatsApp
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {methodPicker}
+      <Button variant="outline" disabled={isSubmitting} onClick={onStart}>
+        {setup ? "Recommencer" : "Activer"}
+      </Button>
+      {setupPanel}
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,86 @@
+"use client"
+
+import * as React from "react"
+import type { FieldValues, Path, PathValue, UseFormReturn } from "react-hook-form"
+
+import { uploadDocument } from "@/app/actions"
+import { ACCEPTED_DOCUMENT_TYPES, DOCUMENT_FIELDS, MAX_DOCUMENT_SIZE } from "@/lib/documents"
+
+export type DocumentFieldName = keyof typeof DOCUMENT_FIELDS
+
+export interface UploadedDocumentPreview {
+  name: string
+  mimeType: string
+  // Local object URL for images, null for PDFs
+  url: string | null
+}
+
+/**
+ * Uploads the files picked in a registration form and stores the returned
+ * document ids in the matching form fields. `initialPreviews` describes files
+ * uploaded earlier, e.g. from a resumed draft.
+ */
+export function useDocumentUpload<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  initialPreviews: Partial<Record<DocumentFieldName, UploadedDocumentPreview>> = {}
+) {
+  const [previews, setPreviews] = React.useState<
+    Partial<Record<DocumentFieldName, UploadedDocumentPreview>>
+  >(initialPreviews)
+  const [pendingUploads, setPendingUploads] = React.useState(0)
+
+  const setField = (field: DocumentFieldName, value: string) =>
+    form.setValue(field as Path<T>, value as PathValue<T, Path<T>>, { shouldValidate: !!value })
+
+  const upload = async (field: DocumentFieldName, file: File) => {
+    if (!ACCEPTED_DOCUMENT_TYPES.includes(file.type)) {
+      form.setError(field as Path<T>, { message: "Format non accepté. Utilisez un PDF, JPEG, PNG ou WebP." })
+      return
+    }
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      form.setError(field as Path<T>, { message: "Le fichier dépasse 10 Mo." })
+      return
+    }
+
+    const formData = new FormData()
+    formData.append("file", file)
+    formData.append("kind", DOCUMENT_FIELDS[field])
+
+    setPendingUploads((count) => count + 1)
+    try {
+      const result = await uploadDocument(formData)
+      if (!result.ok) {
+        setField(field, "")
+        form.setError(field as Path<T>, { message: result.error })
+        return
+      }
+      setField(field, result.document.id)
+      setPreviews((current) => {
+        const previous = current[field]?.url
+        if (previous) URL.revokeObjectURL(previous)
+        return {
+          ...current,
+          [field]: {
+            name: file.name,
+            mimeType: result.document.mimeType,
+            url: file.type.startsWith("image/") ? URL.createObjectURL(file) : null,
+          },
+        }
+      })
+    } catch {
+      setField(field, "")
+      form.setError(field as Path<T>, { message: "Le téléversement a échoué. Veuillez réessayer." })
+    } finally {
+      setPendingUploads((count) => count - 1)
+    }
+  }
+
+  const handleFileChange = (field: DocumentFieldName) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      void upload(field, file)
+    }
+  }
+
+  return { previews, isUploading: pendingUploads > 0, handleFileChange }
+}
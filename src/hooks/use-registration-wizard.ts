@@ -0,0 +1,138 @@
+"use client"
+
+import * as React from "react"
+import type { FieldValues, Path, SubmitHandler, UseFormReturn } from "react-hook-form"
+
+import { saveRegistrationDraft, sendRegistrationResumeLink } from "@/app/actions"
+import {
+  REGISTRATION_STEPS,
+  STEP_FIELDS,
+  stepOfField,
+  type RegistrationStep,
+} from "@/lib/registration-steps"
+import type { RegistrationUserType } from "@/services/registration"
+import type { RegistrationDraft, SendResumeLinkResult } from "@/services/registration-drafts"
+import type { AccountType } from "@/services/users"
+import type { DocumentFieldName, UploadedDocumentPreview } from "./use-document-upload"
+
+/** Local storage key remembering the draft on this device. */
+export const DRAFT_STORAGE_KEY = "mapyoo_registration_draft"
+
+/**
+ * Previews of the files a resumed draft already uploaded. Only names are
+ * known, so they show like PDFs.
+ */
+export function previewsFromDraft(
+  draft: RegistrationDraft | null | undefined
+): Partial<Record<DocumentFieldName, UploadedDocumentPreview>> {
+  const previews: Partial<Record<DocumentFieldName, UploadedDocumentPreview>> = {}
+  for (const [field, document] of Object.entries(draft?.documents ?? {})) {
+    previews[field as DocumentFieldName] = { ...document, url: null }
+  }
+  return previews
+}
+
+interface RegistrationWizardOptions {
+  userType: RegistrationUserType
+  accountType: AccountType
+  initialStep?: RegistrationStep
+  draftToken?: string | null
+}
+
+/**
+ * Splits a registration form into steps. Each step validates its own fields
+ * before moving on, and the form is saved as a draft (without the password)
+ * on every step so it can be resumed later, here or on another device.
+ */
+export function useRegistrationWizard<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  { userType, accountType, initialStep = "identity", draftToken: initialToken = null }: RegistrationWizardOptions
+) {
+  const [step, setStep] = React.useState<RegistrationStep>(initialStep)
+  const [draftToken, setDraftToken] = React.useState<string | null>(initialToken)
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const stepIndex = REGISTRATION_STEPS.findIndex((candidate) => candidate.id === step)
+  const isLastStep = stepIndex === REGISTRATION_STEPS.length - 1
+
+  // Fields of a step that exist in this form
+  const fieldsOf = (target: RegistrationStep) =>
+    STEP_FIELDS[target].filter((field) => field in form.getValues()) as Path<T>[]
+
+  const saveDraft = async (draftStep: RegistrationStep): Promise<string | null> => {
+    setIsSaving(true)
+    try {
+      const result = await saveRegistrationDraft(draftToken, {
+        userType,
+        accountType,
+        step: draftStep,
+        values: form.getValues(),
+      })
+      if (!result.ok) return null
+      setDraftToken(result.token)
+      window.localStorage.setItem(DRAFT_STORAGE_KEY, result.token)
+      return result.token
+    } catch {
+      // Saving is best effort; the form keeps working without a draft
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const next = async () => {
+    const valid = await form.trigger(fieldsOf(step), { shouldFocus: true })
+    if (!valid || isLastStep) return
+    const nextStep = REGISTRATION_STEPS[stepIndex + 1].id
+    setStep(nextStep)
+    void saveDraft(nextStep)
+  }
+
+  const back = () => setStep(REGISTRATION_STEPS[Math.max(0, stepIndex - 1)].id)
+
+  // Sends the form on the last step. On earlier steps, pressing Enter moves
+  // to the next step instead of submitting.
+  const handleSubmit = (onValid: SubmitHandler<T>) => (e?: React.BaseSyntheticEvent) => {
+    if (!isLastStep) {
+      e?.preventDefault()
+      void next()
+      return
+    }
+    return form.handleSubmit(onValid, (errors) => {
+      const first = Object.keys(errors)[0]
+      if (first) setStep(stepOfField(first))
+    })(e)
+  }
+
+  // Shows server-side errors next to their fields and opens the step of the
+  // first one.
+  const showErrors = (fieldErrors: Record<string, string>) => {
+    const fields = Object.keys(fieldErrors)
+    for (const field of fields) {
+      form.setError(field as Path<T>, { message: fieldErrors[field] })
+    }
+    if (fields.length > 0) setStep(stepOfField(fields[0]))
+  }
+
+  const sendResumeLink = async (channel: "whatsapp" | "email"): Promise<SendResumeLinkResult> => {
+    const token = (await saveDraft(step)) ?? draftToken
+    if (!token) return { ok: false, error: "draft_not_found" }
+    return sendRegistrationResumeLink(token, channel)
+  }
+
+  const clearDraft = () => window.localStorage.removeItem(DRAFT_STORAGE_KEY)
+
+  return {
+    step,
+    stepIndex,
+    isLastStep,
+    draftToken,
+    isSaving,
+    next,
+    back,
+    handleSubmit,
+    showErrors,
+    sendResumeLink,
+    clearDraft,
+  }
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // Background jobs need the Node.js runtime and its file store
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startOrderRelease } = await import('./services/order-release');
+    startOrderRelease();
+  }
+}
@@ -0,0 +1,45 @@
+// What cancelling an order costs and where the money goes back. Pure, so
+// the customer sees the same terms the server applies.
+
+import { canTransition, type OrderStatus, type PaymentMethod } from './orders';
+import { roundAmount, type CancellationRules } from './pricing';
+
+export type RefundDestination = 'card' | 'wallet';
+
+export const REFUND_DESTINATION_LABELS: Record<RefundDestination, string> = {
+  card: 'Sur la carte de paiement, après traitement par notre équipe',
+  wallet: 'En crédit MapYOO, immédiatement',
+};
+
+export const REFUND_STATUS_LABELS: Record<'pending' | 'done', string> = {
+  pending: 'En attente',
+  done: 'Effectué',
+};
+
+export interface CancellationTerms {
+  fee: number;
+  // Paid back on online payments; cash on delivery orders were never paid
+  refund: number;
+}
+
+/**
+ * Free until a courier is assigned, a flat fee until pickup, a share of the
+ * price once the parcel is picked up. Null once the order can no longer be
+ * cancelled: on its way to the recipient, delivered or closed.
+ */
+export function cancellationTerms(
+  rules: CancellationRules,
+  order: { status: OrderStatus; paymentMethod: PaymentMethod; quote: { total: number } }
+): CancellationTerms | null {
+  if (!canTransition(order.status, 'cancelled')) {
+    return null;
+  }
+  const { total } = order.quote;
+  let fee = 0;
+  if (order.status === 'assigned') {
+    fee = Math.min(total, rules.afterAssignmentFee);
+  } else if (order.status === 'picked_up') {
+    fee = roundAmount((total * rules.afterPickupPercent) / 100);
+  }
+  return { fee, refund: order.paymentMethod === 'online' ? roundAmount(total - fee) : 0 };
+}
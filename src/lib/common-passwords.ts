@@ -0,0 +1,20 @@
+// Passwords that top public breach compilations, plus local favourites seen
+// in French and Moroccan leaks. Kept lower-case; see `isCommonPassword`.
+export const COMMON_PASSWORDS = new Set([
+  '000000', '00000000', '0000000000', '111111', '11111111', '112233', '121212', '123123', '123123123',
+  '123321', '1234', '12345', '123456', '1234567', '12345678', '123456789', '1234567890', '12345678910',
+  '123456a', '123456abc', '123abc', '123qwe', '131313', '159753', '1q2w3e', '1q2w3e4r', '1q2w3e4r5t',
+  '1qaz2wsx', '222222', '654321', '666666', '696969', '7777777', '987654321', '999999', 'a123456',
+  'a1b2c3', 'aa123456', 'abc123', 'abcd1234', 'abcdef', 'access', 'admin', 'admin123', 'administrateur',
+  'administrator', 'allah', 'alhamdulillah', 'amour', 'andrea', 'anthony', 'apple', 'asdasd', 'asdf',
+  'asdfasdf', 'asdfgh', 'asdfghjkl', 'ashley', 'azerty', 'azerty1', 'azerty123', 'azertyuiop', 'bailey',
+  'baseball', 'batman', 'bienvenue', 'bismillah', 'bonjour', 'buster', 'casablanca', 'changeme', 'charlie',
+  'chocolat', 'chocolate', 'daniel', 'dragon', 'doudou', 'elephant', 'football', 'freedom', 'fuckyou',
+  'hamza', 'hello', 'hello123', 'hunter', 'iloveyou', 'jennifer', 'jesus', 'jordan', 'joshua', 'killer',
+  'letmein', 'liverpool', 'login', 'loulou', 'love', 'lovely', 'maroc', 'maroc123', 'marrakech', 'master',
+  'matrix', 'michael', 'michelle', 'mohamed', 'monkey', 'motdepasse', 'mustang', 'nicole', 'ninja',
+  'omar', 'passer', 'passw0rd', 'password', 'password1', 'password123', 'pokemon', 'princess', 'qazwsx',
+  'qwerty', 'qwerty123', 'qwertyuiop', 'rabat', 'raja', 'robert', 'sabrina', 'secret', 'shadow',
+  'soleil', 'solo', 'starwars', 'summer', 'sunshine', 'superman', 'tanger', 'test', 'test123', 'thomas',
+  'tigger', 'trustno1', 'welcome', 'whatever', 'wydad', 'youssef', 'zaq12wsx', 'zxcvbn', 'zxcvbnm',
+]);
@@ -0,0 +1,28 @@
+// Roles of the staff members of a company account and what each may do.
+
+export type StaffRole = 'owner' | 'dispatcher' | 'accountant' | 'viewer';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'dispatcher', 'accountant', 'viewer'];
+
+/** Roles that can be given through an invitation; there is one owner. */
+export const INVITABLE_STAFF_ROLES = ['dispatcher', 'accountant', 'viewer'] as const;
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Propriétaire',
+  dispatcher: 'Dispatcheur',
+  accountant: 'Comptable',
+  viewer: 'Lecture seule',
+};
+
+export type StaffPermission = 'manage_staff' | 'place_orders' | 'view_orders' | 'view_invoices';
+
+const STAFF_PERMISSIONS: Record<StaffRole, StaffPermission[]> = {
+  owner: ['manage_staff', 'place_orders', 'view_orders', 'view_invoices'],
+  dispatcher: ['place_orders', 'view_orders'],
+  accountant: ['view_orders', 'view_invoices'],
+  viewer: ['view_orders'],
+};
+
+export function hasStaffPermission(role: StaffRole, permission: StaffPermission): boolean {
+  return STAFF_PERMISSIONS[role].includes(permission);
+}
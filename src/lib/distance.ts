@@ -0,0 +1,14 @@
+import type { GeoPoint } from './geocoding';
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two points, in kilometres.
+ */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,43 @@
+// Identity and business documents collected at signup. Shared by the upload
+// inputs and the server-side storage.
+
+export type DocumentKind = 'cin_recto' | 'cin_verso' | 'cae' | 'rc_or_if' | 'driving_license';
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  cin_recto: 'CIN (Recto)',
+  cin_verso: 'CIN (Verso)',
+  cae: 'Carte auto-entrepreneur',
+  rc_or_if: 'RC ou IF',
+  driving_license: 'Permis de conduire',
+};
+
+/** Registration form field holding the id of each uploaded document. */
+export const DOCUMENT_FIELDS = {
+  cinRectoFile: 'cin_recto',
+  cinVersoFile: 'cin_verso',
+  caeFile: 'cae',
+  rcOrIfFile: 'rc_or_if',
+  drivingLicenseFile: 'driving_license',
+} as const satisfies Record<string, DocumentKind>;
+
+/**
+ * Documents an account provides at signup, by user type and account type.
+ * Companies send their RC or IF; individuals their CIN plus the CAE for
+ * livreurs and the driving license for chauffeurs.
+ */
+export function documentKindsFor(user: { userType: string; accountType: string }): DocumentKind[] {
+  if (user.userType === 'admin') {
+    return [];
+  }
+  if (user.accountType === 'company') {
+    return ['rc_or_if'];
+  }
+  const kinds: DocumentKind[] = ['cin_recto', 'cin_verso'];
+  if (user.userType === 'delivery') kinds.push('cae');
+  if (user.userType === 'chauffeur') kinds.push('driving_license');
+  return kinds;
+}
+
+export const ACCEPTED_DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
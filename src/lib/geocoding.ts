@@ -0,0 +1,98 @@
+// Address search and reverse geocoding through Nominatim (OpenStreetMap),
+// called from the browser.
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Place extends GeoPoint {
+  address: string;
+}
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// The fields of a Nominatim `jsonv2` result read here, with `addressdetails=1`
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name?: string;
+  address?: Partial<
+    Record<
+      | 'house_number'
+      | 'road'
+      | 'footway'
+      | 'pedestrian'
+      | 'neighbourhood'
+      | 'suburb'
+      | 'city'
+      | 'town'
+      | 'village'
+      | 'hamlet'
+      | 'postcode'
+      | 'country',
+      string
+    >
+  >;
+}
+
+function formatAddress(result: NominatimResult | null, fallback: GeoPoint): string {
+  const details = result?.address;
+  if (details) {
+    const parts = [
+      [details.house_number, details.road || details.footway || details.pedestrian].filter(Boolean).join(' '),
+      details.neighbourhood || details.suburb,
+      details.city || details.town || details.village || details.hamlet,
+      details.postcode,
+      details.country,
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      return parts.join(', ');
+    }
+  }
+  if (result?.display_name) {
+    return result.display_name.split(',').slice(0, 3).join(',');
+  }
+  return `Coordonnées : ${fallback.lat.toFixed(5)}, ${fallback.lng.toFixed(5)}`;
+}
+
+/**
+ * First match for a typed address in Morocco, or null.
+ */
+export async function geocodeAddress(query: string): Promise<Place | null> {
+  const url = `${NOMINATIM_URL}/search?q=${encodeURIComponent(query)}&format=jsonv2&limit=1&accept-language=fr&countrycodes=ma&addressdetails=1`;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Nominatim error: ${response.status}`);
+    }
+    const [result]: NominatimResult[] = await response.json();
+    if (!result) {
+      return null;
+    }
+    const point = { lat: parseFloat(result.lat), lng: parseFloat(result.lon) };
+    return { ...point, address: formatAddress(result, point) };
+  } catch (error) {
+    console.error('Geocoding failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Address of a point picked on the map. Falls back to the coordinates when
+ * the lookup fails, so the point can still be used.
+ */
+export async function reverseGeocode(point: GeoPoint): Promise<Place> {
+  const url = `${NOMINATIM_URL}/reverse?format=jsonv2&lat=${point.lat}&lon=${point.lng}&accept-language=fr&addressdetails=1`;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Nominatim error: ${response.status}`);
+    }
+    const result: NominatimResult = await response.json();
+    return { ...point, address: formatAddress(result, point) };
+  } catch (error) {
+    console.error('Reverse geocoding failed:', error);
+    return { ...point, address: formatAddress(null, point) };
+  }
+}
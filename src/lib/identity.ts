@@ -0,0 +1,146 @@
+// Validation and normalization of phone numbers and Moroccan identity and
+// business numbers. Pure functions, usable on the client and the server.
+
+export type CountryCode = 'MA' | 'FR' | 'ES' | 'BE' | 'SN' | 'CI' | 'TN' | 'DZ' | 'US';
+
+interface CountryDialingPlan {
+  dialCode: string;
+  // Leading digit dropped from national numbers when dialing from abroad
+  trunkPrefix?: string;
+  // Valid national significant numbers, without trunk prefix or dial code
+  pattern: RegExp;
+}
+
+export const DIALING_PLANS: Record<CountryCode, CountryDialingPlan> = {
+  MA: { dialCode: '212', trunkPrefix: '0', pattern: /^[5-8]\d{8}$/ },
+  FR: { dialCode: '33', trunkPrefix: '0', pattern: /^[1-9]\d{8}$/ },
+  ES: { dialCode: '34', pattern: /^[6-9]\d{8}$/ },
+  BE: { dialCode: '32', trunkPrefix: '0', pattern: /^[1-9]\d{7,8}$/ },
+  SN: { dialCode: '221', pattern: /^[37]\d{8}$/ },
+  CI: { dialCode: '225', pattern: /^(01|05|07|21|25|27)\d{8}$/ },
+  TN: { dialCode: '216', pattern: /^[2-9]\d{7}$/ },
+  DZ: { dialCode: '213', trunkPrefix: '0', pattern: /^[2-7]\d{7,8}$/ },
+  US: { dialCode: '1', pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+};
+
+/**
+ * Converts a phone number to E.164 (`+212612345678`). International numbers
+ * (`+…` or `00…`) must belong to a supported country; national numbers are
+ * read in `defaultCountry`. Returns null when the number is not valid.
+ */
+export function toE164(input: string, defaultCountry: CountryCode = 'MA'): string | null {
+  let digits = input.trim().replace(/[\s.\-()\/]/g, '');
+  if (digits.startsWith('00')) {
+    digits = `+${digits.slice(2)}`;
+  }
+
+  if (digits.startsWith('+')) {
+    const international = digits.slice(1);
+    if (!/^\d+$/.test(international)) {
+      return null;
+    }
+    // Longest dial codes first so +1 does not shadow longer codes
+    const plans = Object.values(DIALING_PLANS).sort((a, b) => b.dialCode.length - a.dialCode.length);
+    for (const plan of plans) {
+      if (!international.startsWith(plan.dialCode)) continue;
+      let national = international.slice(plan.dialCode.length);
+      // Tolerate a trunk prefix kept by mistake, as in +212 06…
+      if (plan.trunkPrefix && national.startsWith(plan.trunkPrefix) && !plan.pattern.test(national)) {
+        national = national.slice(plan.trunkPrefix.length);
+      }
+      return plan.pattern.test(national) ? `+${plan.dialCode}${national}` : null;
+    }
+    return null;
+  }
+
+  if (!/^\d+$/.test(digits)) {
+    return null;
+  }
+  const plan = DIALING_PLANS[defaultCountry];
+  let national = digits;
+  if (plan.trunkPrefix && national.startsWith(plan.trunkPrefix)) {
+    national = national.slice(plan.trunkPrefix.length);
+  }
+  return plan.pattern.test(national) ? `+${plan.dialCode}${national}` : null;
+}
+
+/**
+ * Upper-cases and strips separators from an identity or business number.
+ */
+export function normalizeIdentifier(value: string): string {
+  return value.trim().toUpperCase().replace(/[\s.\-]/g, '');
+}
+
+/**
+ * Moroccan CIN: one or two letters (issuing prefecture) followed by five or
+ * six digits, e.g. `AB123456` or `J12345`.
+ */
+export function isValidCin(value: string): boolean {
+  const cin = normalizeIdentifier(value);
+  return /^[A-Z]{1,2}\d{5,6}$/.test(cin) && !/^[A-Z]+0+$/.test(cin);
+}
+
+export interface IceParts {
+  enterprise: string; // 9 digits identifying the company
+  establishment: string; // 4 digits identifying the establishment
+  key: string; // 2 control digits
+}
+
+// Remainder of a long decimal number modulo 97, digit by digit
+function mod97(digits: string): number {
+  return [...digits].reduce((remainder, digit) => (remainder * 10 + Number(digit)) % 97, 0);
+}
+
+/**
+ * Splits an ICE (Identifiant Commun de l'Entreprise) into its three
+ * segments. Returns null unless it is exactly 15 digits with a non-zero
+ * enterprise number, and the control key makes the whole number a multiple
+ * of 97.
+ */
+export function parseIce(value: string): IceParts | null {
+  const ice = normalizeIdentifier(value);
+  if (!/^\d{15}$/.test(ice) || mod97(ice) !== 0) {
+    return null;
+  }
+  const parts = { enterprise: ice.slice(0, 9), establishment: ice.slice(9, 13), key: ice.slice(13) };
+  if (/^0+$/.test(parts.enterprise)) {
+    return null;
+  }
+  return parts;
+}
+
+export function isValidIce(value: string): boolean {
+  return parseIce(value) !== null;
+}
+
+/**
+ * RC (registre de commerce, up to 7 digits) or IF (identifiant fiscal,
+ * 7 or 8 digits). Both are plain numbers, so one pattern covers them.
+ */
+export function isValidRcOrIf(value: string): boolean {
+  const number = normalizeIdentifier(value);
+  return /^\d{1,8}$/.test(number) && !/^0+$/.test(number);
+}
+
+/**
+ * CAE (carte d'auto-entrepreneur) registry number: 5 to 12 digits.
+ */
+export function isValidCae(value: string): boolean {
+  return /^\d{5,12}$/.test(normalizeIdentifier(value));
+}
+
+/**
+ * Upper-cases a driving license number and strips spaces, keeping the slash.
+ */
+export function normalizeDrivingLicense(value: string): string {
+  return value.trim().toUpperCase().replace(/\s/g, '');
+}
+
+/**
+ * Moroccan driving license: the older `12/345678` form (issuing centre and
+ * serial) or the electronic card number, letters followed by digits.
+ */
+export function isValidDrivingLicense(value: string): boolean {
+  const license = normalizeDrivingLicense(value);
+  return /^\d{1,2}\/\d{4,8}$/.test(license) || /^[A-Z]{1,2}\d{4,8}$/.test(license);
+}
@@ -0,0 +1,9 @@
+// Review states of livreur and chauffeur accounts.
+
+export type KycStatus = 'pending' | 'verified' | 'rejected';
+
+export const KYC_STATUS_LABELS: Record<KycStatus, string> = {
+  pending: 'En attente',
+  verified: 'Vérifié',
+  rejected: 'Rejeté',
+};
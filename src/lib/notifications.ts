@@ -0,0 +1,28 @@
+// Messages an account can receive and the channels they go through. Shared
+// by the settings form and the services sending them.
+
+export type NotificationTopic = 'order_updates' | 'account_security' | 'promotions';
+
+export type NotificationChannel = 'whatsapp' | 'email';
+
+export type NotificationPreferences = Record<NotificationTopic, Record<NotificationChannel, boolean>>;
+
+export const NOTIFICATION_TOPICS: { id: NotificationTopic; label: string; description: string }[] = [
+  { id: 'order_updates', label: 'Suivi des commandes', description: 'Prise en charge, livraison et annulation.' },
+  { id: 'account_security', label: 'Sécurité du compte', description: 'Connexions, mot de passe et vérifications.' },
+  { id: 'promotions', label: 'Offres et nouveautés', description: 'Promotions et nouvelles fonctionnalités.' },
+];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+};
+
+// Security messages cannot be turned off.
+export const MANDATORY_TOPICS: NotificationTopic[] = ['account_security'];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  order_updates: { whatsapp: true, email: true },
+  account_security: { whatsapp: true, email: true },
+  promotions: { whatsapp: false, email: false },
+};
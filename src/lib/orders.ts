@@ -0,0 +1,181 @@
+// Order types, statuses and the transitions between them, with the labels
+// and limits of the order forms. Pure values, shared with the services.
+
+export type OrderType = 'meal' | 'package' | 'groceries' | 'medicine' | 'ride';
+
+export const ORDER_TYPES: OrderType[] = ['meal', 'package', 'groceries', 'medicine', 'ride'];
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  meal: 'Repas',
+  package: 'Colis',
+  groceries: 'Courses',
+  medicine: 'Médicaments',
+  ride: 'Course VTC',
+};
+
+export type OrderStatus =
+  | 'draft'
+  | 'scheduled'
+  | 'pending'
+  | 'assigned'
+  | 'picked_up'
+  | 'in_transit'
+  | 'delivered'
+  | 'failed'
+  | 'cancelled'
+  | 'returned';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: 'Brouillon',
+  scheduled: 'Programmée',
+  pending: 'En attente',
+  assigned: 'Livreur assigné',
+  picked_up: 'Ramassée',
+  in_transit: 'En cours de livraison',
+  delivered: 'Livrée',
+  failed: 'Échec de livraison',
+  cancelled: 'Annulée',
+  returned: "Retournée à l'expéditeur",
+};
+
+/**
+ * Statuses each status may move to. A scheduled order becomes pending when
+ * it is released to dispatch, an assigned order goes back to pending when
+ * its livreur is removed, and a failed delivery is either attempted again or
+ * returned to the sender.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  draft: ['pending', 'scheduled', 'cancelled'],
+  scheduled: ['pending', 'cancelled'],
+  pending: ['assigned', 'cancelled'],
+  assigned: ['pending', 'picked_up', 'cancelled'],
+  picked_up: ['in_transit', 'failed', 'cancelled'],
+  in_transit: ['delivered', 'failed'],
+  delivered: [],
+  failed: ['pending', 'returned'],
+  cancelled: [],
+  returned: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+/** Statuses no order leaves. */
+export function isFinalStatus(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
+
+export type PackageType = 'documents' | 'small' | 'medium' | 'large';
+
+export const PACKAGE_TYPES: PackageType[] = ['documents', 'small', 'medium', 'large'];
+
+export const PACKAGE_TYPE_LABELS: Record<PackageType, string> = {
+  documents: 'Documents',
+  small: 'Petit colis',
+  medium: 'Colis moyen',
+  large: 'Grand colis',
+};
+
+export type PaymentMethod = 'online' | 'cod';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  online: 'Paiement en ligne',
+  cod: 'Paiement à la livraison',
+};
+
+/** What a livreur can carry on a two-wheeler or in a small van, in one run. */
+export const PACKAGE_LIMITS = {
+  maxWeightKg: 30,
+  maxSideCm: 150,
+  maxDeclaredValue: 50000,
+  // Besides the main pickup and destination
+  maxExtraPickups: 2,
+  maxExtraDropoffs: 9,
+};
+
+export type StopKind = 'pickup' | 'dropoff';
+
+export const STOP_KIND_LABELS: Record<StopKind, string> = {
+  pickup: 'Ramassage',
+  dropoff: 'Livraison',
+};
+
+export type StopStatus = 'pending' | 'done' | 'failed';
+
+export const STOP_STATUS_LABELS: Record<StopStatus, string> = {
+  pending: 'À faire',
+  done: 'Effectué',
+  failed: 'Échec',
+};
+
+/**
+ * Tracking numbers as printed: `MY-` and two groups of five characters.
+ */
+export function formatTrackingNumber(trackingNumber: string): string {
+  const code = trackingNumber.replace(/^MY/, '');
+  return `MY-${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Reads a tracking number typed with or without dashes, in any case.
+ */
+export function normalizeTrackingNumber(value: string): string {
+  return value.trim().toUpperCase().replace(/[\s-]/g, '');
+}
+
+export type OrderStatusGroup = 'in_progress' | 'delivered' | 'cancelled';
+
+// How customers see statuses in their history; every status has a group
+const STATUS_GROUPS: Record<OrderStatus, OrderStatusGroup> = {
+  draft: 'in_progress',
+  scheduled: 'in_progress',
+  pending: 'in_progress',
+  assigned: 'in_progress',
+  picked_up: 'in_progress',
+  in_transit: 'in_progress',
+  failed: 'in_progress',
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+  returned: 'cancelled',
+};
+
+function statusesIn(group: OrderStatusGroup): OrderStatus[] {
+  return (Object.keys(STATUS_GROUPS) as OrderStatus[]).filter((status) => STATUS_GROUPS[status] === group);
+}
+
+export const ORDER_STATUS_GROUPS: Record<OrderStatusGroup, { label: string; statuses: OrderStatus[] }> = {
+  in_progress: { label: 'En cours', statuses: statusesIn('in_progress') },
+  delivered: { label: 'Livrée', statuses: statusesIn('delivered') },
+  cancelled: { label: 'Annulée', statuses: statusesIn('cancelled') },
+};
+
+export function statusGroupOf(status: OrderStatus): OrderStatusGroup {
+  return STATUS_GROUPS[status];
+}
+
+export interface OrderFilters {
+  group?: OrderStatusGroup;
+  type?: OrderType;
+  // Days, `YYYY-MM-DD`, both included
+  from?: string;
+  to?: string;
+  // Tracking number, or recipient name or phone
+  query?: string;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads the history filters from the page URL, ignoring invalid values.
+ */
+export function parseOrderFilters(params: Record<string, string | undefined>): OrderFilters {
+  return {
+    group:
+      params.status && Object.hasOwn(ORDER_STATUS_GROUPS, params.status) ? (params.status as OrderStatusGroup) : undefined,
+    type: ORDER_TYPES.includes(params.type as OrderType) ? (params.type as OrderType) : undefined,
+    from: params.from && DAY_PATTERN.test(params.from) ? params.from : undefined,
+    to: params.to && DAY_PATTERN.test(params.to) ? params.to : undefined,
+    query: params.q?.trim().slice(0, 100) || undefined,
+  };
+}
@@ -0,0 +1,119 @@
+// Password rules shared by the registration, reset and change-password
+// forms and by the server. Pure functions, usable on the client and the
+// server.
+
+import { COMMON_PASSWORDS } from './common-passwords';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  // Number of previous passwords that cannot be used again
+  historySize: number;
+}
+
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 10,
+  maxLength: 128,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  historySize: 5,
+};
+
+export type PasswordRule = 'min_length' | 'max_length' | 'lowercase' | 'uppercase' | 'digit' | 'symbol' | 'common';
+
+export function passwordRuleLabel(rule: PasswordRule, policy: PasswordPolicy = PASSWORD_POLICY): string {
+  switch (rule) {
+    case 'min_length':
+      return `Au moins ${policy.minLength} caractères`;
+    case 'max_length':
+      return `Au plus ${policy.maxLength} caractères`;
+    case 'lowercase':
+      return 'Une lettre minuscule';
+    case 'uppercase':
+      return 'Une lettre majuscule';
+    case 'digit':
+      return 'Un chiffre';
+    case 'symbol':
+      return 'Un caractère spécial';
+    case 'common':
+      return 'Pas un mot de passe courant';
+  }
+}
+
+/**
+ * Whether the password, or the password without the digits and symbols
+ * usually appended to it (`Azerty123!`), appears in breached lists.
+ */
+export function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  const stem = lower.replace(/[\d\W_]+$/, '');
+  return COMMON_PASSWORDS.has(lower) || (stem.length >= 4 && COMMON_PASSWORDS.has(stem));
+}
+
+/**
+ * The rules of `policy` that apply to it, each with whether the password
+ * meets it. Used by the strength meter to show a checklist.
+ */
+export function passwordRuleResults(
+  password: string,
+  policy: PasswordPolicy = PASSWORD_POLICY
+): { rule: PasswordRule; met: boolean }[] {
+  const results: { rule: PasswordRule; met: boolean }[] = [
+    { rule: 'min_length', met: password.length >= policy.minLength },
+  ];
+  if (password.length > policy.maxLength) {
+    results.push({ rule: 'max_length', met: false });
+  }
+  if (policy.requireLowercase) results.push({ rule: 'lowercase', met: /[a-z]/.test(password) });
+  if (policy.requireUppercase) results.push({ rule: 'uppercase', met: /[A-Z]/.test(password) });
+  if (policy.requireDigit) results.push({ rule: 'digit', met: /\d/.test(password) });
+  if (policy.requireSymbol) results.push({ rule: 'symbol', met: /[^A-Za-z0-9]/.test(password) });
+  results.push({ rule: 'common', met: password.length > 0 && !isCommonPassword(password) });
+  return results;
+}
+
+/**
+ * The rules the password breaks, in display order. Empty when it is valid.
+ */
+export function passwordPolicyViolations(password: string, policy: PasswordPolicy = PASSWORD_POLICY): PasswordRule[] {
+  return passwordRuleResults(password, policy)
+    .filter((result) => !result.met)
+    .map((result) => result.rule);
+}
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrength, string> = {
+  0: 'Très faible',
+  1: 'Faible',
+  2: 'Moyen',
+  3: 'Fort',
+  4: 'Très fort',
+};
+
+/**
+ * Rough estimate from length and variety of characters. Common passwords
+ * always score 0, whatever they look like.
+ */
+export function passwordStrength(password: string): PasswordStrength {
+  if (password.length === 0 || isCommonPassword(password)) {
+    return 0;
+  }
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) => pattern.test(password)).length;
+  // Repeated characters (aaaa, 1111) add little
+  const distinct = new Set(password).size;
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (classes >= 3) score++;
+  if (classes === 4) score++;
+  if (distinct < password.length / 2) score -= 2;
+  return Math.max(0, Math.min(4, score)) as PasswordStrength;
+}
@@ -0,0 +1,189 @@
+// Delivery price computation. Pure, so the admin pages can show examples;
+// orders are always priced on the server from the stored rules.
+
+import { haversineKm } from './distance';
+import type { GeoPoint } from './geocoding';
+import type { OrderType } from './orders';
+
+export interface TypeRate {
+  baseFare: number;
+  perKm: number;
+  // Floor applied to the base fare plus distance
+  minimum: number;
+}
+
+/** Percentage added between two hours, Morocco time. Wraps past midnight when `startHour` > `endHour`. */
+export interface TimeSurcharge {
+  label: string;
+  startHour: number;
+  endHour: number;
+  percent: number;
+}
+
+/** Area served around a city centre, with a flat fee for deliveries touching it. */
+export interface PricingZone {
+  name: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  fee: number;
+}
+
+/** What customers pay to cancel once a courier is involved. */
+export interface CancellationRules {
+  // Flat fee once a courier is assigned, until pickup
+  afterAssignmentFee: number;
+  // Share of the price once the parcel is picked up
+  afterPickupPercent: number;
+}
+
+export interface PricingRules {
+  rates: Record<OrderType, TypeRate>;
+  // Weight included in the fare; each started kilogram above it is charged
+  includedWeightKg: number;
+  perExtraKg: number;
+  // cm³ per kg; bulky parcels are charged on their volumetric weight
+  volumetricDivisor: number;
+  // Each stop of a run beyond one pickup and one drop-off
+  perExtraStop: number;
+  timeSurcharges: TimeSurcharge[];
+  zones: PricingZone[];
+  // Charged when a stop is outside every zone
+  outOfZoneFee: number;
+  cancellation: CancellationRules;
+}
+
+export interface PriceInput {
+  type: OrderType;
+  // Of the whole route
+  distanceKm: number;
+  // Every stop, pickup first
+  stops: GeoPoint[];
+  weightKg?: number;
+  dimensionsCm?: { length: number; width: number; height: number };
+  at: Date;
+}
+
+export interface QuoteLine {
+  label: string;
+  amount: number;
+}
+
+export interface Quote {
+  total: number;
+  currency: 'MAD';
+  distanceKm: number;
+  lines: QuoteLine[];
+  computedAt: string;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  rates: {
+    meal: { baseFare: 10, perKm: 3, minimum: 15 },
+    package: { baseFare: 15, perKm: 4, minimum: 20 },
+    groceries: { baseFare: 15, perKm: 3.5, minimum: 20 },
+    medicine: { baseFare: 12, perKm: 3, minimum: 15 },
+    ride: { baseFare: 8, perKm: 5, minimum: 15 },
+  },
+  includedWeightKg: 5,
+  perExtraKg: 2,
+  volumetricDivisor: 5000,
+  perExtraStop: 10,
+  timeSurcharges: [{ label: 'Nuit', startHour: 22, endHour: 6, percent: 25 }],
+  zones: [
+    { name: 'Casablanca', lat: 33.5731, lng: -7.5898, radiusKm: 25, fee: 0 },
+    { name: 'Rabat - Salé', lat: 34.0209, lng: -6.8416, radiusKm: 20, fee: 0 },
+    { name: 'Marrakech', lat: 31.6295, lng: -7.9811, radiusKm: 20, fee: 0 },
+    { name: 'Tanger', lat: 35.7595, lng: -5.834, radiusKm: 15, fee: 0 },
+  ],
+  outOfZoneFee: 30,
+  cancellation: { afterAssignmentFee: 10, afterPickupPercent: 50 },
+};
+
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function hourInMorocco(at: Date): number {
+  return Number(
+    new Intl.DateTimeFormat('en-GB', { hour: 'numeric', hourCycle: 'h23', timeZone: 'Africa/Casablanca' }).format(at)
+  );
+}
+
+/**
+ * The heavier of the actual and the volumetric weight.
+ */
+export function chargeableWeightKg(
+  weightKg: number,
+  dimensionsCm: PriceInput['dimensionsCm'],
+  volumetricDivisor: number
+): number {
+  const volumetric = dimensionsCm
+    ? (dimensionsCm.length * dimensionsCm.width * dimensionsCm.height) / volumetricDivisor
+    : 0;
+  return Math.max(weightKg, volumetric);
+}
+
+export function zoneOf(rules: PricingRules, point: GeoPoint): PricingZone | null {
+  return rules.zones.find((zone) => haversineKm(point, zone) <= zone.radiusKm) ?? null;
+}
+
+function surchargesAt(rules: PricingRules, at: Date): TimeSurcharge[] {
+  const hour = hourInMorocco(at);
+  return rules.timeSurcharges.filter(({ startHour, endHour }) =>
+    startHour <= endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour
+  );
+}
+
+/**
+ * Prices a delivery: fare for the distance, extra stops and weight, zone
+ * fees, then time-of-day surcharges on the whole.
+ */
+export function computePrice(rules: PricingRules, input: PriceInput): Quote {
+  const rate = rules.rates[input.type];
+  const distanceKm = roundAmount(input.distanceKm);
+  const lines: QuoteLine[] = [];
+
+  const fare = Math.max(rate.baseFare + rate.perKm * distanceKm, rate.minimum);
+  lines.push({ label: `Course (${distanceKm.toFixed(1)} km)`, amount: roundAmount(fare) });
+
+  const extraStops = Math.max(0, input.stops.length - 2);
+  if (extraStops > 0) {
+    lines.push({ label: `Arrêts supplémentaires (${extraStops})`, amount: roundAmount(extraStops * rules.perExtraStop) });
+  }
+
+  if (input.weightKg !== undefined) {
+    const weight = chargeableWeightKg(input.weightKg, input.dimensionsCm, rules.volumetricDivisor);
+    const extraKg = Math.ceil(Math.max(0, weight - rules.includedWeightKg));
+    if (extraKg > 0) {
+      lines.push({ label: `Poids supplémentaire (${extraKg} kg)`, amount: roundAmount(extraKg * rules.perExtraKg) });
+    }
+  }
+
+  const zones = input.stops.map((stop) => zoneOf(rules, stop));
+  if (zones.some((zone) => !zone)) {
+    lines.push({ label: 'Hors zone', amount: rules.outOfZoneFee });
+  } else {
+    const zone = zones.reduce((highest, candidate) => (candidate!.fee > highest!.fee ? candidate : highest))!;
+    if (zone.fee > 0) {
+      lines.push({ label: `Zone ${zone.name}`, amount: zone.fee });
+    }
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  for (const surcharge of surchargesAt(rules, input.at)) {
+    lines.push({ label: `${surcharge.label} (+${surcharge.percent} %)`, amount: roundAmount((subtotal * surcharge.percent) / 100) });
+  }
+
+  return {
+    total: roundAmount(lines.reduce((sum, line) => sum + line.amount, 0)),
+    currency: 'MAD',
+    distanceKm,
+    lines,
+    computedAt: input.at.toISOString(),
+  };
+}
+
+export function formatPrice(amount: number): string {
+  return `${amount.toFixed(2).replace('.', ',')} MAD`;
+}
@@ -0,0 +1,52 @@
+// Steps of the registration wizard and the form fields each one validates.
+import { DOCUMENT_FIELDS } from './documents';
+
+export type RegistrationStep = 'identity' | 'contacts' | 'documents' | 'review';
+
+export const REGISTRATION_STEPS: { id: RegistrationStep; label: string }[] = [
+  { id: 'identity', label: 'Identité' },
+  { id: 'contacts', label: 'Coordonnées' },
+  { id: 'documents', label: 'Documents' },
+  { id: 'review', label: 'Vérification' },
+];
+
+export const STEP_FIELDS: Record<RegistrationStep, string[]> = {
+  identity: ['firstName', 'lastName', 'companyName', 'cin', 'cae', 'drivingLicense', 'rcOrIfNumber', 'ice'],
+  contacts: ['phone', 'whatsappPhone', 'email', 'password'],
+  documents: Object.keys(DOCUMENT_FIELDS),
+  review: [],
+};
+
+/** Fields kept in a saved draft. The password never leaves the browser. */
+export const DRAFT_FIELDS = [...STEP_FIELDS.identity, ...STEP_FIELDS.contacts, ...STEP_FIELDS.documents].filter(
+  (field) => field !== 'password'
+);
+
+/** Labels used on the review step. */
+export const REGISTRATION_FIELD_LABELS: Record<string, string> = {
+  firstName: 'Prénom',
+  lastName: 'Nom',
+  companyName: "Nom de l'entreprise",
+  cin: 'Numéro CIN',
+  cae: 'Numéro CAE',
+  drivingLicense: 'Numéro de permis de conduire',
+  rcOrIfNumber: 'Numéro RC ou IF',
+  ice: 'ICE',
+  phone: 'Numéro de téléphone',
+  whatsappPhone: 'Numéro de téléphone WhatsApp',
+  email: 'Email',
+};
+
+export function stepOfField(field: string): RegistrationStep {
+  return REGISTRATION_STEPS.find((step) => STEP_FIELDS[step.id].includes(field))?.id ?? 'review';
+}
+
+/**
+ * Step a resumed draft opens on. The password is not saved, so drafts saved
+ * past the contacts step reopen there to have it typed again.
+ */
+export function resumeStepOf(saved: RegistrationStep): RegistrationStep {
+  const index = REGISTRATION_STEPS.findIndex((step) => step.id === saved);
+  const contacts = REGISTRATION_STEPS.findIndex((step) => step.id === 'contacts');
+  return index > contacts ? 'contacts' : saved;
+}
@@ -0,0 +1,45 @@
+// Account roles and the routes that belong to each of them. Kept free of
+// Node imports because the middleware uses it too.
+
+export type AccountRole = 'client_individual' | 'client_company' | 'livreur' | 'chauffeur' | 'admin';
+
+export const ACCOUNT_ROLES: AccountRole[] = ['client_individual', 'client_company', 'livreur', 'chauffeur', 'admin'];
+
+export const ROLE_LABELS: Record<AccountRole, string> = {
+  client_individual: 'Client individuel',
+  client_company: 'Client société',
+  livreur: 'Livreur',
+  chauffeur: 'Chauffeur',
+  admin: 'Administrateur',
+};
+
+/** Dashboard each role lands on after login. */
+export const ROLE_HOME: Record<AccountRole, string> = {
+  client_individual: '/dashboard/client',
+  client_company: '/dashboard/company',
+  livreur: '/dashboard/livreur',
+  chauffeur: '/dashboard/chauffeur',
+  admin: '/dashboard/admin',
+};
+
+// Most specific prefixes first; the first match wins.
+const PROTECTED_ROUTES: { prefix: string; roles: AccountRole[] }[] = [
+  { prefix: '/dashboard/client', roles: ['client_individual'] },
+  { prefix: '/dashboard/company', roles: ['client_company'] },
+  { prefix: '/dashboard/livreur', roles: ['livreur'] },
+  { prefix: '/dashboard/chauffeur', roles: ['chauffeur'] },
+  { prefix: '/dashboard/admin', roles: ['admin'] },
+  { prefix: '/dashboard', roles: ACCOUNT_ROLES },
+  { prefix: '/package-delivery', roles: ['client_individual', 'client_company'] },
+  { prefix: '/settings', roles: ACCOUNT_ROLES },
+];
+
+/**
+ * Returns the roles allowed on `pathname`, or null when the page is public.
+ */
+export function allowedRolesFor(pathname: string): AccountRole[] | null {
+  const route = PROTECTED_ROUTES.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return route ? route.roles : null;
+}
@@ -0,0 +1,132 @@
+// Pickup windows customers can book for scheduled orders. Hours are
+// Morocco time; windows are stored as UTC instants.
+
+const TIME_ZONE = 'Africa/Casablanca';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Pickup hours by day of the week, 0 being Sunday. */
+export const OPERATING_HOURS: Record<number, { open: number; close: number } | null> = {
+  0: { open: 9, close: 13 },
+  1: { open: 8, close: 20 },
+  2: { open: 8, close: 20 },
+  3: { open: 8, close: 20 },
+  4: { open: 8, close: 20 },
+  5: { open: 8, close: 20 },
+  6: { open: 8, close: 20 },
+};
+
+export const SCHEDULING_LIMITS = {
+  windowHours: 2,
+  // Orders a window can take, all customers together
+  capacityPerWindow: 8,
+  // Booking closes this long before a window opens
+  minLeadMinutes: 90,
+  maxDaysAhead: 14,
+  // Scheduled orders are handed to dispatch this long before their window
+  releaseBeforeMinutes: 60,
+};
+
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+/** Calendar day of an instant in Morocco, as `YYYY-MM-DD`. */
+export function moroccoDayOf(at: Date): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: TIME_ZONE }).format(at);
+}
+
+// The Morocco wall-clock time of an instant, read as if it were UTC
+function moroccoWallClock(at: Date): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: TIME_ZONE,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+}
+
+/**
+ * The instant it is `hour`:00 on `day` in Morocco. The offset is looked up
+ * rather than assumed: Morocco is on UTC+1 except during Ramadan.
+ */
+function moroccoInstant(day: string, hour: number): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hour);
+  const offset = moroccoWallClock(new Date(wallClock)) - wallClock;
+  return new Date(wallClock - offset);
+}
+
+function weekdayOf(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+}
+
+/** Every pickup window of a day, bookable or not. */
+export function windowsOfDay(day: string): TimeWindow[] {
+  const hours = OPERATING_HOURS[weekdayOf(day)];
+  const windows: TimeWindow[] = [];
+  if (!hours) {
+    return windows;
+  }
+  for (let hour = hours.open; hour + SCHEDULING_LIMITS.windowHours <= hours.close; hour += SCHEDULING_LIMITS.windowHours) {
+    windows.push({
+      start: moroccoInstant(day, hour).toISOString(),
+      end: moroccoInstant(day, hour + SCHEDULING_LIMITS.windowHours).toISOString(),
+    });
+  }
+  return windows;
+}
+
+/** The pickup window starting at `start`, if there is one. */
+export function windowStartingAt(start: string): TimeWindow | null {
+  const at = new Date(start);
+  if (Number.isNaN(at.getTime())) {
+    return null;
+  }
+  return windowsOfDay(moroccoDayOf(at)).find((window) => window.start === at.toISOString()) ?? null;
+}
+
+/**
+ * Whether a window can still be booked: far enough ahead for dispatch, and
+ * not beyond the booking horizon. Capacity is checked by the order service.
+ */
+export function isBookableWindow(window: TimeWindow, now = new Date()): boolean {
+  const lead = new Date(window.start).getTime() - now.getTime();
+  return lead >= SCHEDULING_LIMITS.minLeadMinutes * 60 * 1000 && lead <= SCHEDULING_LIMITS.maxDaysAhead * DAY_MS;
+}
+
+/** Whether `day` has at least one window that can still be booked. */
+export function isBookableDay(day: string, now = new Date()): boolean {
+  return windowsOfDay(day).some((window) => isBookableWindow(window, now));
+}
+
+/** When a scheduled order is handed to dispatch. */
+export function releaseTimeOf(window: TimeWindow): Date {
+  return new Date(new Date(window.start).getTime() - SCHEDULING_LIMITS.releaseBeforeMinutes * 60 * 1000);
+}
+
+/** An instant in Morocco time, whatever the timezone of the server or browser. */
+export function formatMoroccoTime(at: string | Date, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat('fr-FR', { timeZone: TIME_ZONE, ...options }).format(new Date(at));
+}
+
+/** `10:00 – 12:00`, in Morocco time. */
+export function formatWindowHours(window: TimeWindow): string {
+  const time = { hour: '2-digit', minute: '2-digit' } as const;
+  return `${formatMoroccoTime(window.start, time)} – ${formatMoroccoTime(window.end, time)}`;
+}
+
+/** `lundi 20 octobre, 10:00 – 12:00`, in Morocco time. */
+export function formatWindow(window: TimeWindow): string {
+  const day = formatMoroccoTime(window.start, { weekday: 'long', day: 'numeric', month: 'long' });
+  return `${day}, ${formatWindowHours(window)}`;
+}
@@ -0,0 +1,372 @@
+import * as z from 'zod';
+import {
+  isValidCae,
+  isValidCin,
+  isValidDrivingLicense,
+  isValidIce,
+  isValidRcOrIf,
+  normalizeDrivingLicense,
+  normalizeIdentifier,
+  toE164,
+} from './identity';
+import { INVITABLE_STAFF_ROLES } from './company-roles';
+import { ORDER_TYPES, PACKAGE_LIMITS, PACKAGE_TYPES, type OrderType, type PackageType } from './orders';
+import { passwordPolicyViolations, passwordRuleLabel } from './password-policy';
+import { isBookableWindow, windowStartingAt } from './scheduling';
+
+// Schemas shared by the forms and the server actions that re-validate them.
+
+/**
+ * Phone number in any supported national or international format. The
+ * parsed value is the E.164 form.
+ */
+export function phoneField(message: string) {
+  return z.string().transform((value, ctx) => {
+    const phone = toE164(value);
+    if (!phone) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      return z.NEVER;
+    }
+    return phone;
+  });
+}
+
+/**
+ * New password checked against `PASSWORD_POLICY`. Reports the first rule it
+ * breaks; the strength meter lists the others.
+ */
+export function passwordField() {
+  return z.string().superRefine((value, ctx) => {
+    const [violation] = passwordPolicyViolations(value);
+    if (violation) {
+      const message =
+        violation === 'common'
+          ? "Ce mot de passe est trop courant. Choisissez-en un autre."
+          : `Le mot de passe doit respecter la règle : ${passwordRuleLabel(violation).toLowerCase()}.`;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+}
+
+/**
+ * Required identifier checked by `isValid`; the parsed value is normalized.
+ */
+function identifierField(
+  isValid: (value: string) => boolean,
+  requiredMessage: string,
+  invalidMessage: string,
+  normalize: (value: string) => string = normalizeIdentifier
+) {
+  return z
+    .string()
+    .min(1, { message: requiredMessage })
+    .refine(isValid, { message: invalidMessage })
+    .transform(normalize);
+}
+
+/**
+ * Lets an identifier field be left blank.
+ */
+export function optionalField<T extends z.ZodTypeAny>(field: T) {
+  return z.union([z.literal(''), field]).optional();
+}
+
+export const cinField = (requiredMessage = "Le numéro CIN est requis") =>
+  identifierField(isValidCin, requiredMessage, "Numéro CIN invalide (ex. AB123456).");
+
+export const iceField = (requiredMessage = "L'ICE est requis") =>
+  identifierField(isValidIce, requiredMessage, "L'ICE doit contenir 15 chiffres valides.");
+
+export const rcOrIfField = (requiredMessage = "Le numéro RC ou IF est requis") =>
+  identifierField(isValidRcOrIf, requiredMessage, "Numéro RC ou IF invalide.");
+
+export const caeField = (requiredMessage = "Le numéro CAE est requis") =>
+  identifierField(isValidCae, requiredMessage, "Numéro CAE invalide.");
+
+export const drivingLicenseField = (requiredMessage = "Le numéro de permis est requis") =>
+  identifierField(
+    isValidDrivingLicense,
+    requiredMessage,
+    "Numéro de permis invalide (ex. 12/345678).",
+    normalizeDrivingLicense
+  );
+
+export const loginSchema = z.object({
+  emailOrPhone: z.string().min(1, { message: "Veuillez entrer votre email ou numéro de téléphone." }),
+  password: z.string().min(8, { message: "Le mot de passe doit contenir au moins 8 caractères." }),
+});
+
+export type LoginFormValues = z.infer<typeof loginSchema>;
+
+export const forgotPasswordSchema = z.object({
+  emailOrPhone: z.string().min(1, { message: "Veuillez entrer votre email ou numéro de téléphone." }),
+  channel: z.enum(['whatsapp', 'email'], { message: "Veuillez choisir WhatsApp ou Email." }),
+});
+
+export type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+export const resetCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, { message: "Le code doit contenir 6 chiffres." }),
+});
+
+export type ResetCodeFormValues = z.infer<typeof resetCodeSchema>;
+
+// A 6-digit code from the authenticator app or WhatsApp, or a recovery code.
+export const twoFactorCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^(\d{6}|[a-zA-Z0-9]{5}-?[a-zA-Z0-9]{5})$/, { message: "Entrez le code à 6 chiffres ou un code de secours." }),
+});
+
+export type TwoFactorCodeFormValues = z.infer<typeof twoFactorCodeSchema>;
+
+export const newPasswordSchema = z
+  .object({
+    password: passwordField(),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Les mots de passe ne correspondent pas.",
+    path: ['confirmPassword'],
+  });
+
+export type NewPasswordFormValues = z.infer<typeof newPasswordSchema>;
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, { message: "Veuillez entrer votre mot de passe actuel." }),
+    password: passwordField(),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Les mots de passe ne correspondent pas.",
+    path: ['confirmPassword'],
+  });
+
+export type ChangePasswordFormValues = z.infer<typeof changePasswordSchema>;
+
+// Fields every account fills in, whatever its type.
+const profileContactShape = {
+  phone: phoneField("Numéro de téléphone invalide."),
+  whatsappPhone: phoneField("Numéro de téléphone WhatsApp invalide."),
+  email: z.string().email({ message: "Adresse email invalide." }),
+};
+
+const contactShape = {
+  ...profileContactShape,
+  password: passwordField(),
+};
+
+export const individualClientSchema = z.object({
+  firstName: z.string().min(2, { message: "Le prénom doit contenir au moins 2 caractères." }),
+  lastName: z.string().min(2, { message: "Le nom doit contenir au moins 2 caractères." }),
+  ...contactShape,
+  cin: optionalField(cinField()),
+  cinRectoFile: z.string().optional(),
+  cinVersoFile: z.string().optional(),
+});
+
+export const companyAccountSchema = z.object({
+  companyName: z.string().min(2, { message: "Le nom de l'entreprise doit contenir au moins 2 caractères." }),
+  ...contactShape,
+  rcOrIfNumber: rcOrIfField(),
+  rcOrIfFile: z.string().min(1, { message: "Le fichier RC ou IF est requis" }),
+  ice: optionalField(iceField()),
+});
+
+const individualWithCinSchema = individualClientSchema.extend({
+  cin: cinField(),
+  cinRectoFile: z.string().min(1, { message: "Le CIN (Recto) est requis" }),
+  cinVersoFile: z.string().min(1, { message: "Le CIN (Verso) est requis" }),
+});
+
+export const individualDeliverySchema = individualWithCinSchema.extend({
+  cae: caeField(),
+  caeFile: z.string().min(1, { message: "Le fichier CAE est requis" }),
+});
+
+export const individualChauffeurSchema = individualWithCinSchema.extend({
+  drivingLicense: drivingLicenseField(),
+  drivingLicenseFile: z.string().min(1, { message: "Le fichier de permis est requis" }),
+});
+
+export type IndividualClientFormValues = z.infer<typeof individualClientSchema>;
+export type CompanyAccountFormValues = z.infer<typeof companyAccountSchema>;
+export type IndividualDeliveryFormValues = z.infer<typeof individualDeliverySchema>;
+export type IndividualChauffeurFormValues = z.infer<typeof individualChauffeurSchema>;
+
+export const staffInvitationSchema = z
+  .object({
+    role: z.enum(INVITABLE_STAFF_ROLES, { message: "Veuillez choisir un rôle." }),
+    channel: z.enum(['email', 'whatsapp'], { message: "Veuillez choisir WhatsApp ou Email." }),
+    contact: z.string().trim().min(1, { message: "Veuillez entrer un email ou un numéro." }),
+  })
+  .superRefine((values, ctx) => {
+    const valid =
+      values.channel === 'email' ? z.string().email().safeParse(values.contact).success : !!toE164(values.contact);
+    if (!valid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['contact'],
+        message: values.channel === 'email' ? "Adresse email invalide." : "Numéro de téléphone invalide.",
+      });
+    }
+  });
+
+export type StaffInvitationFormValues = z.infer<typeof staffInvitationSchema>;
+
+export const staffAccountSchema = z.object({
+  firstName: z.string().min(2, { message: "Le prénom doit contenir au moins 2 caractères." }),
+  lastName: z.string().min(2, { message: "Le nom doit contenir au moins 2 caractères." }),
+  ...contactShape,
+});
+
+export type StaffAccountFormValues = z.infer<typeof staffAccountSchema>;
+
+// Profile edited from the settings. Staff members and individuals edit their
+// name; company owners edit the company details.
+export const personalProfileSchema = z.object({
+  firstName: z.string().min(2, { message: "Le prénom doit contenir au moins 2 caractères." }),
+  lastName: z.string().min(2, { message: "Le nom doit contenir au moins 2 caractères." }),
+  ...profileContactShape,
+});
+
+export const companyProfileSchema = z.object({
+  companyName: z.string().min(2, { message: "Le nom de l'entreprise doit contenir au moins 2 caractères." }),
+  rcOrIfNumber: rcOrIfField(),
+  ice: optionalField(iceField()),
+  ...profileContactShape,
+});
+
+export type PersonalProfileFormValues = z.infer<typeof personalProfileSchema>;
+export type CompanyProfileFormValues = z.infer<typeof companyProfileSchema>;
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, { message: "Veuillez entrer votre mot de passe." }),
+  confirmation: z.literal('SUPPRIMER', { errorMap: () => ({ message: "Tapez SUPPRIMER pour confirmer." }) }),
+});
+
+export type DeleteAccountFormValues = z.infer<typeof deleteAccountSchema>;
+
+// An address with the point it was placed at on the map
+const placeField = (requiredMessage: string) =>
+  z.object({
+    address: z.string().trim().min(5, { message: requiredMessage }).max(300),
+    lat: z.number({ required_error: "Placez l'adresse sur la carte." }).min(-90).max(90),
+    lng: z.number({ required_error: "Placez l'adresse sur la carte." }).min(-180).max(180),
+  });
+
+const dimensionField = z.coerce
+  .number({ invalid_type_error: "Indiquez une dimension en cm." })
+  .positive({ message: "Indiquez une dimension en cm." })
+  .max(PACKAGE_LIMITS.maxSideCm, { message: `${PACKAGE_LIMITS.maxSideCm} cm maximum.` });
+
+const recipientSchema = z.object({
+  firstName: z.string().trim().min(2, { message: "Le prénom doit contenir au moins 2 caractères." }),
+  lastName: z.string().trim().min(2, { message: "Le nom doit contenir au moins 2 caractères." }),
+  phone: phoneField("Numéro de téléphone invalide."),
+});
+
+export const packageOrderSchema = z
+  .object({
+    pickup: placeField("L'adresse de ramassage est requise."),
+    destination: placeField("L'adresse de destination est requise."),
+    recipient: recipientSchema,
+    // Further stops of a run; their visiting order is computed on the server
+    extraPickups: z
+      .array(placeField("L'adresse de ramassage est requise."))
+      .max(PACKAGE_LIMITS.maxExtraPickups, {
+        message: `${PACKAGE_LIMITS.maxExtraPickups} ramassages supplémentaires au plus.`,
+      }),
+    extraDropoffs: z
+      .array(z.object({ place: placeField("L'adresse de livraison est requise."), recipient: recipientSchema }))
+      .max(PACKAGE_LIMITS.maxExtraDropoffs, {
+        message: `${PACKAGE_LIMITS.maxExtraDropoffs} livraisons supplémentaires au plus.`,
+      }),
+    parcel: z.object({
+      type: z.enum(PACKAGE_TYPES as [PackageType, ...PackageType[]]),
+      weightKg: z.coerce
+        .number({ invalid_type_error: "Indiquez le poids en kg." })
+        .positive({ message: "Indiquez le poids en kg." })
+        .max(PACKAGE_LIMITS.maxWeightKg, { message: `${PACKAGE_LIMITS.maxWeightKg} kg maximum.` }),
+      lengthCm: dimensionField,
+      widthCm: dimensionField,
+      heightCm: dimensionField,
+      declaredValue: z.coerce
+        .number({ invalid_type_error: "Indiquez une valeur en dirhams." })
+        .min(0, { message: "Indiquez une valeur en dirhams." })
+        .max(PACKAGE_LIMITS.maxDeclaredValue, {
+          message: `Valeur déclarée limitée à ${PACKAGE_LIMITS.maxDeclaredValue} MAD.`,
+        }),
+      description: z.string().trim().max(300).optional(),
+    }),
+    paymentMethod: z.enum(['online', 'cod']),
+    timing: z.enum(['now', 'scheduled']),
+    // Start of the booked pickup window, for scheduled orders
+    pickupWindow: z.string().optional(),
+  })
+  .refine(
+    (values) => {
+      if (values.timing === 'now') return true;
+      const window = values.pickupWindow ? windowStartingAt(values.pickupWindow) : null;
+      return !!window && isBookableWindow(window);
+    },
+    { message: "Choisissez un créneau de ramassage.", path: ['pickupWindow'] }
+  );
+
+export type PackageOrderFormValues = z.infer<typeof packageOrderSchema>;
+
+const amountField = z.coerce
+  .number({ invalid_type_error: "Indiquez un montant." })
+  .min(0, { message: "Le montant ne peut pas être négatif." })
+  .max(100000);
+
+const hourField = z.coerce
+  .number({ invalid_type_error: "Heure invalide." })
+  .int({ message: "Heure invalide." })
+  .min(0, { message: "Heure invalide." })
+  .max(23, { message: "Heure invalide." });
+
+const typeRateSchema = z.object({ baseFare: amountField, perKm: amountField, minimum: amountField });
+
+export const pricingRulesSchema = z.object({
+  rates: z.object(
+    Object.fromEntries(ORDER_TYPES.map((type) => [type, typeRateSchema])) as Record<OrderType, typeof typeRateSchema>
+  ),
+  includedWeightKg: amountField,
+  perExtraKg: amountField,
+  volumetricDivisor: z.coerce.number().int().min(1000, { message: "Au moins 1000 cm³ par kg." }).max(10000),
+  perExtraStop: amountField,
+  timeSurcharges: z.array(
+    z
+      .object({
+        label: z.string().trim().min(1, { message: "Nom requis." }).max(40),
+        startHour: hourField,
+        endHour: hourField,
+        percent: z.coerce.number().min(0).max(200, { message: "200 % maximum." }),
+      })
+      .refine((surcharge) => surcharge.startHour !== surcharge.endHour, {
+        message: "Les heures de début et de fin doivent différer.",
+        path: ['endHour'],
+      })
+  ),
+  zones: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, { message: "Nom requis." }).max(60),
+        lat: z.coerce.number().min(-90).max(90),
+        lng: z.coerce.number().min(-180).max(180),
+        radiusKm: z.coerce.number().positive({ message: "Rayon requis." }).max(500),
+        fee: amountField,
+      })
+    )
+    .min(1, { message: "Définissez au moins une zone desservie." }),
+  outOfZoneFee: amountField,
+  cancellation: z.object({
+    afterAssignmentFee: amountField,
+    afterPickupPercent: z.coerce.number().min(0).max(100, { message: "100 % maximum." }),
+  }),
+});
+
+export type PricingRulesFormValues = z.infer<typeof pricingRulesSchema>;
@@ -0,0 +1,91 @@
+// Signed session tokens. Only Web Crypto is used here so the same code runs
+// in server actions and in the edge middleware.
+
+import type { AccountRole } from './roles';
+
+export const SESSION_COOKIE = 'mapyoo_session';
+
+export interface SessionTokenPayload {
+  sid: string;
+  uid: string;
+  role: AccountRole;
+  exp: number; // Unix time in seconds
+}
+
+const encoder = new TextEncoder();
+
+function getSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production.');
+  }
+  return 'mapyoo-dev-session-secret';
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Serializes and signs a session payload as `<payload>.<signature>`.
+ */
+export async function signSessionToken(payload: SessionTokenPayload): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the payload of a token if its signature is valid and it has not
+ * expired, null otherwise.
+ */
+export async function verifySessionToken(token: string | undefined): Promise<SessionTokenPayload | null> {
+  if (!token) {
+    return null;
+  }
+  const [body, signature] = token.split('.');
+  if (!body || !signature) {
+    return null;
+  }
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) {
+      return null;
+    }
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionTokenPayload;
+    if (payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,42 @@
+// Readable description of a browser user agent for the sessions list. Only
+// the common browsers and systems are told apart; anything else is "Autre".
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+export interface DeviceDescription {
+  device: DeviceType;
+  browser: string;
+  os: string;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/(\d+)/, 'Edge'],
+  [/OPR\/(\d+)|Opera\/(\d+)/, 'Opera'],
+  [/SamsungBrowser\/(\d+)/, 'Samsung Internet'],
+  [/Firefox\/(\d+)|FxiOS\/(\d+)/, 'Firefox'],
+  [/Chrome\/(\d+)|CriOS\/(\d+)/, 'Chrome'],
+  [/Version\/(\d+).*Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows NT/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+export function describeUserAgent(userAgent: string | undefined): DeviceDescription {
+  const ua = userAgent ?? '';
+  const browserMatch = BROWSERS.find(([pattern]) => pattern.test(ua));
+  const version = browserMatch ? ua.match(browserMatch[0])?.slice(1).find(Boolean) : undefined;
+  const browser = browserMatch ? `${browserMatch[1]}${version ? ` ${version}` : ''}` : 'Autre navigateur';
+  const os = SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Autre système';
+  const device: DeviceType = /iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))
+    ? 'tablet'
+    : /Mobi|iPhone|Android/.test(ua)
+      ? 'mobile'
+      : 'desktop';
+  return { device, browser, os };
+}
@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { allowedRolesFor, ROLE_HOME } from '@/lib/roles';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/session-token';
+
+// Routes each role to its own dashboard. This only checks the cookie
+// signature; server components call `requireRole` to check the session store.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  const roles = allowedRolesFor(pathname);
+  if (!roles) {
+    return NextResponse.next();
+  }
+
+  if (!session) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  if (!roles.includes(session.role)) {
+    return NextResponse.redirect(new URL(ROLE_HOME[session.role], request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
+};
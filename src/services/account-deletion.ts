@@ -0,0 +1,29 @@
+import { verifyAccountPassword } from './account-password';
+import { companyIdOf, listStaff, staffRoleOf } from './companies';
+import { eraseAccount } from './personal-data';
+import type { UserAccount } from './users';
+
+export type DeleteOwnAccountResult =
+  | { ok: true }
+  | { ok: false; error: 'wrong_password' | 'admin' | 'has_staff' };
+
+/**
+ * Erases the account of `user` and its personal data once they confirmed
+ * their password; see `eraseAccount`. Admins are removed by an operator, and company owners
+ * must remove their staff first.
+ */
+export async function deleteOwnAccount(user: UserAccount, password: string): Promise<DeleteOwnAccountResult> {
+  if (user.userType === 'admin') {
+    return { ok: false, error: 'admin' };
+  }
+  if (!(await verifyAccountPassword(user, password))) {
+    return { ok: false, error: 'wrong_password' };
+  }
+  const companyId = companyIdOf(user);
+  if (companyId && staffRoleOf(user) === 'owner' && (await listStaff(companyId)).length > 1) {
+    return { ok: false, error: 'has_staff' };
+  }
+
+  await eraseAccount(user);
+  return { ok: true };
+}
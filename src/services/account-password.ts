@@ -0,0 +1,119 @@
+import { getAuthProvider } from './auth-provider';
+import { hashPassword, verifyPassword } from './password';
+import { revokeOtherSessions } from './session';
+import {
+  createUser,
+  deleteUser,
+  updateUser,
+  type CreateUserResult,
+  type NewUserAccount,
+  type UserAccount,
+} from './users';
+import { PASSWORD_POLICY, passwordPolicyViolations } from '@/lib/password-policy';
+
+export type NewPasswordError = 'weak' | 'reused';
+
+export type ChangePasswordResult =
+  | { ok: true }
+  | { ok: false; error: 'wrong_password' | NewPasswordError };
+
+/**
+ * Creates an account and registers its credentials with the auth provider.
+ * The account is removed again if the provider refuses them.
+ */
+export async function createAccountWithPassword(
+  data: Omit<NewUserAccount, 'passwordHash'>,
+  password: string
+): Promise<CreateUserResult> {
+  const result = await createUser({ ...data, passwordHash: await hashPassword(password) });
+  if (!result.ok) {
+    return result;
+  }
+  const credentials = await (await getAuthProvider()).createCredentials(result.user, password);
+  if (!credentials.ok) {
+    await deleteUser(result.user.id);
+    return { ok: false, conflicts: [credentials.error === 'email_in_use' ? 'email' : 'phone'] };
+  }
+  if (!credentials.uid) {
+    return result;
+  }
+  const user = await updateUser(result.user.id, { authUid: credentials.uid });
+  return { ok: true, user: user ?? result.user };
+}
+
+/**
+ * Deletes an account and its credentials at the auth provider.
+ */
+export async function deleteAccount(user: UserAccount): Promise<void> {
+  await (await getAuthProvider()).deleteCredentials(user);
+  await deleteUser(user.id);
+}
+
+/**
+ * Checks the password of an account with the auth provider.
+ */
+export async function verifyAccountPassword(user: UserAccount, password: string): Promise<boolean> {
+  return (await getAuthProvider()).verifyPassword(user, password);
+}
+
+/**
+ * Whether `password` is the current password or one of the previous ones
+ * the policy forbids reusing.
+ */
+export async function isRecentPassword(user: UserAccount, password: string): Promise<boolean> {
+  const recent = [user.passwordHash, ...(user.passwordHistory ?? [])].slice(0, PASSWORD_POLICY.historySize);
+  for (const hash of recent) {
+    if (await verifyPassword(password, hash)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks a new password for `user` against the policy and the password
+ * history. Returns null when it can be used.
+ */
+export async function checkNewPassword(user: UserAccount, password: string): Promise<NewPasswordError | null> {
+  if (passwordPolicyViolations(password).length > 0) {
+    return 'weak';
+  }
+  if (await isRecentPassword(user, password)) {
+    return 'reused';
+  }
+  return null;
+}
+
+/**
+ * Replaces the password of `user`, keeping the old hash in the history.
+ * Call `checkNewPassword` first.
+ */
+export async function savePassword(user: UserAccount, password: string): Promise<void> {
+  await (await getAuthProvider()).setPassword(user, password);
+  await updateUser(user.id, {
+    passwordHash: await hashPassword(password),
+    passwordHistory: [user.passwordHash, ...(user.passwordHistory ?? [])].slice(0, PASSWORD_POLICY.historySize - 1),
+  });
+}
+
+/**
+ * Changes the password of a signed-in user who confirmed the current one.
+ * Other sessions of the account are logged out.
+ */
+export async function changePassword(
+  user: UserAccount,
+  sessionId: string,
+  currentPassword: string,
+  password: string
+): Promise<ChangePasswordResult> {
+  if (!(await verifyAccountPassword(user, currentPassword))) {
+    return { ok: false, error: 'wrong_password' };
+  }
+  const error = await checkNewPassword(user, password);
+  if (error) {
+    return { ok: false, error };
+  }
+  await savePassword(user, password);
+  await revokeOtherSessions(user.id, sessionId);
+  return { ok: true };
+}
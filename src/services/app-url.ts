@@ -0,0 +1,7 @@
+/**
+ * Absolute URL of a page of the app, for links sent by email or WhatsApp.
+ * `APP_URL` holds the public origin.
+ */
+export function appUrl(path: string): string {
+  return `${(process.env.APP_URL ?? 'http://localhost:9003').replace(/\/$/, '')}${path}`;
+}
@@ -0,0 +1,87 @@
+import { redirect } from 'next/navigation';
+import { ROLE_HOME, type AccountRole } from '@/lib/roles';
+import { hasStaffPermission, type StaffPermission } from '@/lib/company-roles';
+import { staffRoleOf } from './companies';
+import { getCurrentSession, type Session } from './session';
+import { isAccountActive } from './signup-verification';
+import { hasTwoFactor, isTwoFactorRequired } from './two-factor';
+import { findUserById, type UserAccount } from './users';
+
+export interface CurrentUser {
+  session: Session;
+  user: UserAccount;
+}
+
+/**
+ * Returns the signed-in account, or null. Unlike the middleware this checks
+ * the session store, so revoked sessions are rejected here.
+ */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const session = await getCurrentSession();
+  if (!session) {
+    return null;
+  }
+  const user = await findUserById(session.userId);
+  return user ? { session, user } : null;
+}
+
+/**
+ * Returns the signed-in account for API routes, which cannot redirect: null
+ * unless the account is active and, when it must use 2FA, has set it up.
+ * The same checks as `requireRole`, without the role.
+ */
+export async function getAuthorizedUser(): Promise<CurrentUser | null> {
+  const current = await getCurrentUser();
+  if (!current || !isAccountActive(current.user)) {
+    return null;
+  }
+  if (isTwoFactorRequired(current.user) && !hasTwoFactor(current.user)) {
+    return null;
+  }
+  return current;
+}
+
+/**
+ * Guards pages every signed-in, active account may use, such as account
+ * settings. Anonymous visitors go to the login page and accounts with an
+ * unconfirmed phone or email to the verification page.
+ */
+export async function requireAccount(): Promise<CurrentUser> {
+  const current = await getCurrentUser();
+  if (!current) {
+    redirect('/login');
+  }
+  if (!isAccountActive(current.user)) {
+    redirect('/verify');
+  }
+  return current;
+}
+
+/**
+ * Guards a server component or action. On top of `requireAccount`, accounts
+ * that must use 2FA are sent to set it up, and other roles are sent back to
+ * their own dashboard.
+ */
+export async function requireRole(...roles: AccountRole[]): Promise<CurrentUser> {
+  const current = await requireAccount();
+  if (isTwoFactorRequired(current.user) && !hasTwoFactor(current.user)) {
+    redirect('/settings/two-factor');
+  }
+  if (roles.length > 0 && !roles.includes(current.session.role)) {
+    redirect(ROLE_HOME[current.session.role]);
+  }
+  return current;
+}
+
+/**
+ * Guards pages and actions of company accounts that only some staff roles
+ * may use. Other staff members are sent back to the company dashboard.
+ */
+export async function requireStaffPermission(permission: StaffPermission): Promise<CurrentUser> {
+  const current = await requireRole('client_company');
+  const staffRole = staffRoleOf(current.user);
+  if (!staffRole || !hasStaffPermission(staffRole, permission)) {
+    redirect(ROLE_HOME.client_company);
+  }
+  return current;
+}
@@ -0,0 +1,63 @@
+import { verifyPassword } from './password';
+import type { UserAccount } from './users';
+
+export type CreateCredentialsResult =
+  | { ok: true; uid?: string }
+  | { ok: false; error: 'email_in_use' | 'phone_in_use' };
+
+/**
+ * Where login credentials are checked. Accounts, roles and sessions stay in
+ * the local store whatever the backend; only the email, phone and password
+ * of each account live with the provider.
+ */
+export interface AuthProvider {
+  /** Registers the credentials of a new account. */
+  createCredentials(user: UserAccount, password: string): Promise<CreateCredentialsResult>;
+  verifyPassword(user: UserAccount, password: string): Promise<boolean>;
+  setPassword(user: UserAccount, password: string): Promise<void>;
+  /** Follows a change of email or phone number made in the settings. */
+  updateContacts(user: UserAccount, contacts: { email: string; phone: string }): Promise<CreateCredentialsResult>;
+  deleteCredentials(user: UserAccount): Promise<void>;
+}
+
+/**
+ * Default backend: the scrypt hash kept on the account is the credential.
+ */
+export class LocalAuthProvider implements AuthProvider {
+  async createCredentials(): Promise<CreateCredentialsResult> {
+    return { ok: true };
+  }
+
+  async verifyPassword(user: UserAccount, password: string): Promise<boolean> {
+    return verifyPassword(password, user.passwordHash);
+  }
+
+  // The hash is written with the account, see `savePassword`
+  async setPassword(): Promise<void> {}
+
+  async updateContacts(): Promise<CreateCredentialsResult> {
+    return { ok: true };
+  }
+
+  async deleteCredentials(): Promise<void> {}
+}
+
+let provider: AuthProvider | null = null;
+
+/**
+ * Backend selected by AUTH_PROVIDER: `local` (default) or `firebase`.
+ */
+export async function getAuthProvider(): Promise<AuthProvider> {
+  if (!provider) {
+    const backend = process.env.AUTH_PROVIDER ?? 'local';
+    if (backend === 'firebase') {
+      const { FirebaseAuthProvider } = await import('./firebase-auth');
+      provider = FirebaseAuthProvider.fromEnv();
+    } else if (backend === 'local') {
+      provider = new LocalAuthProvider();
+    } else {
+      throw new Error(`Unknown AUTH_PROVIDER backend: ${backend}`);
+    }
+  }
+  return provider;
+}
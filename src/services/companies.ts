@@ -0,0 +1,283 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import { createAccountWithPassword, deleteAccount } from './account-password';
+import { appUrl } from './app-url';
+import { sendEmail } from './email';
+import { revokeUserSessions } from './session';
+import {
+  displayNameOf,
+  findUserById,
+  normalizeEmail,
+  normalizePhone,
+  updateUser,
+  type CreateUserResult,
+  type UserAccount,
+} from './users';
+import { sendWhatsAppMessage } from './whatsapp';
+import { STAFF_ROLE_LABELS, hasStaffPermission, type StaffRole } from '@/lib/company-roles';
+import type { StaffAccountFormValues } from '@/lib/schemas';
+
+const INVITATIONS = 'company-invitations';
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type InvitableRole = Exclude<StaffRole, 'owner'>;
+
+export interface CompanyInvitation {
+  id: string;
+  companyId: string;
+  invitedBy: string;
+  role: InvitableRole;
+  channel: 'email' | 'whatsapp';
+  // Normalized email or E.164 phone number, depending on the channel
+  contact: string;
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt?: string;
+  acceptedBy?: string;
+  revokedAt?: string;
+}
+
+/** Who did something on behalf of a company, as stored on orders and invoices. */
+export interface StaffActor {
+  userId: string;
+  name: string;
+  staffRole: StaffRole;
+}
+
+export type InviteStaffResult =
+  | { ok: true; invitation: CompanyInvitation }
+  | { ok: false; error: 'forbidden' | 'already_member' | 'delivery_failed' };
+
+export type AcceptInvitationResult =
+  | { ok: true; user: UserAccount }
+  | { ok: false; error: 'invalid_invitation' | 'contact_mismatch' }
+  | Extract<CreateUserResult, { ok: false }>;
+
+export type StaffChangeResult = { ok: true } | { ok: false; error: 'forbidden' | 'not_found' };
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isPending(invitation: CompanyInvitation, now = Date.now()): boolean {
+  return !invitation.acceptedAt && !invitation.revokedAt && new Date(invitation.expiresAt).getTime() > now;
+}
+
+/**
+ * Id of the company an account belongs to: its own id for company owners,
+ * the owner's id for staff members, null for other accounts. Company
+ * accounts created before staff existed count as owners.
+ */
+export function companyIdOf(user: UserAccount): string | null {
+  if (user.userType !== 'client' || user.accountType !== 'company') {
+    return null;
+  }
+  return user.companyId ?? user.id;
+}
+
+export function staffRoleOf(user: UserAccount): StaffRole | null {
+  return companyIdOf(user) ? (user.staffRole ?? 'owner') : null;
+}
+
+/** Snapshot of a staff member for records that must outlive the account. */
+export function actorOf(user: UserAccount): StaffActor | null {
+  const staffRole = staffRoleOf(user);
+  return staffRole ? { userId: user.id, name: displayNameOf(user), staffRole } : null;
+}
+
+function canManageStaff(user: UserAccount): boolean {
+  const role = staffRoleOf(user);
+  return !!role && hasStaffPermission(role, 'manage_staff');
+}
+
+/**
+ * The owner first, then staff members by name.
+ */
+export async function listStaff(companyId: string): Promise<UserAccount[]> {
+  const users = await readCollection<UserAccount>('users');
+  return users
+    .filter((user) => companyIdOf(user) === companyId)
+    .sort((a, b) =>
+      a.id === companyId ? -1 : b.id === companyId ? 1 : displayNameOf(a).localeCompare(displayNameOf(b))
+    );
+}
+
+export async function listPendingInvitations(companyId: string): Promise<CompanyInvitation[]> {
+  const invitations = await readCollection<CompanyInvitation>(INVITATIONS);
+  return invitations.filter((invitation) => invitation.companyId === companyId && isPending(invitation));
+}
+
+/**
+ * Invites someone to join the company of `inviter` with `role`, by sending
+ * a signup link to their email or WhatsApp number.
+ */
+export async function inviteStaff(
+  inviter: UserAccount,
+  { role, channel, contact }: { role: InvitableRole; channel: 'email' | 'whatsapp'; contact: string }
+): Promise<InviteStaffResult> {
+  const companyId = companyIdOf(inviter);
+  if (!companyId || !canManageStaff(inviter)) {
+    return { ok: false, error: 'forbidden' };
+  }
+  const normalized = channel === 'email' ? normalizeEmail(contact) : normalizePhone(contact);
+  const staff = await listStaff(companyId);
+  if (staff.some((user) => user.email === normalized || user.whatsappPhone === normalized)) {
+    return { ok: false, error: 'already_member' };
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const now = Date.now();
+  const invitation: CompanyInvitation = {
+    id: randomUUID(),
+    companyId,
+    invitedBy: inviter.id,
+    role,
+    channel,
+    contact: normalized,
+    tokenHash: hashToken(token),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + INVITATION_TTL_MS).toISOString(),
+  };
+  await updateCollection<CompanyInvitation, void>(INVITATIONS, (invitations) => {
+    // A new invitation replaces any pending one for the same person
+    for (const existing of invitations) {
+      if (existing.companyId === companyId && existing.contact === normalized && isPending(existing, now)) {
+        existing.revokedAt = new Date(now).toISOString();
+      }
+    }
+    invitations.push(invitation);
+  });
+
+  const company = (await findUserById(companyId)) ?? inviter;
+  const message =
+    `${displayNameOf(company)} vous invite à rejoindre son compte MapYOO en tant que ` +
+    `${STAFF_ROLE_LABELS[role].toLowerCase()}. Créez votre accès ici : ${appUrl(`/invitations/${token}`)}\n` +
+    `Cette invitation expire dans 7 jours.`;
+  const sent =
+    channel === 'email'
+      ? await sendEmail(normalized, 'Invitation à rejoindre MapYOO', message)
+      : await sendWhatsAppMessage(normalized, message);
+  return sent ? { ok: true, invitation } : { ok: false, error: 'delivery_failed' };
+}
+
+export async function revokeInvitation(actor: UserAccount, invitationId: string): Promise<StaffChangeResult> {
+  const companyId = companyIdOf(actor);
+  if (!companyId || !canManageStaff(actor)) {
+    return { ok: false, error: 'forbidden' };
+  }
+  return updateCollection<CompanyInvitation, StaffChangeResult>(INVITATIONS, (invitations) => {
+    const invitation = invitations.find((candidate) => candidate.id === invitationId);
+    if (!invitation || invitation.companyId !== companyId || !isPending(invitation)) {
+      return { ok: false, error: 'not_found' };
+    }
+    invitation.revokedAt = new Date().toISOString();
+    return { ok: true };
+  });
+}
+
+/**
+ * A pending invitation and the company it is for, or null when the link is
+ * unknown, used, revoked or expired.
+ */
+export async function findInvitation(
+  token: string
+): Promise<{ invitation: CompanyInvitation; company: UserAccount } | null> {
+  const invitations = await readCollection<CompanyInvitation>(INVITATIONS);
+  const invitation = invitations.find((candidate) => candidate.tokenHash === hashToken(token));
+  if (!invitation || !isPending(invitation)) {
+    return null;
+  }
+  const company = await findUserById(invitation.companyId);
+  return company ? { invitation, company } : null;
+}
+
+/**
+ * Creates the staff account of an invited person. The email or WhatsApp
+ * number the invitation was sent to counts as verified.
+ */
+export async function acceptInvitation(
+  token: string,
+  values: StaffAccountFormValues
+): Promise<AcceptInvitationResult> {
+  const found = await findInvitation(token);
+  if (!found) {
+    return { ok: false, error: 'invalid_invitation' };
+  }
+  const { invitation } = found;
+  const contact = invitation.channel === 'email' ? normalizeEmail(values.email) : normalizePhone(values.whatsappPhone);
+  if (contact !== invitation.contact) {
+    return { ok: false, error: 'contact_mismatch' };
+  }
+
+  const now = new Date().toISOString();
+  const result = await createAccountWithPassword(
+    {
+      userType: 'client',
+      accountType: 'company',
+      companyId: invitation.companyId,
+      staffRole: invitation.role,
+      firstName: values.firstName,
+      lastName: values.lastName,
+      email: values.email,
+      phone: values.phone,
+      whatsappPhone: values.whatsappPhone,
+      ...(invitation.channel === 'email' ? { emailVerifiedAt: now } : { whatsappVerifiedAt: now }),
+    },
+    values.password
+  );
+  if (!result.ok) {
+    return result;
+  }
+
+  await updateCollection<CompanyInvitation, void>(INVITATIONS, (invitations) => {
+    const entry = invitations.find((candidate) => candidate.id === invitation.id);
+    if (entry) {
+      entry.acceptedAt = now;
+      entry.acceptedBy = result.user.id;
+    }
+  });
+  return { ok: true, user: result.user };
+}
+
+async function findStaffMember(actor: UserAccount, userId: string): Promise<UserAccount | null> {
+  const companyId = companyIdOf(actor);
+  if (!companyId || !canManageStaff(actor) || userId === companyId) {
+    return null;
+  }
+  const member = await findUserById(userId);
+  return member && companyIdOf(member) === companyId ? member : null;
+}
+
+export async function changeStaffRole(
+  actor: UserAccount,
+  userId: string,
+  role: InvitableRole
+): Promise<StaffChangeResult> {
+  if (!canManageStaff(actor)) {
+    return { ok: false, error: 'forbidden' };
+  }
+  const member = await findStaffMember(actor, userId);
+  if (!member) {
+    return { ok: false, error: 'not_found' };
+  }
+  await updateUser(member.id, { staffRole: role });
+  return { ok: true };
+}
+
+/**
+ * Deletes the login of a staff member and signs them out everywhere.
+ * Orders and invoices keep their name through `StaffActor`.
+ */
+export async function removeStaff(actor: UserAccount, userId: string): Promise<StaffChangeResult> {
+  if (!canManageStaff(actor)) {
+    return { ok: false, error: 'forbidden' };
+  }
+  const member = await findStaffMember(actor, userId);
+  if (!member) {
+    return { ok: false, error: 'not_found' };
+  }
+  await revokeUserSessions(member.id);
+  await deleteAccount(member);
+  return { ok: true };
+}
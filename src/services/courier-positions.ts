@@ -0,0 +1,45 @@
+import { readCollection, updateCollection } from './local-store';
+import type { GeoPoint } from '@/lib/geocoding';
+
+const COLLECTION = 'courier-positions';
+// Positions older than this are not shown: the app stopped reporting
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+export interface CourierPosition extends GeoPoint {
+  courierId: string;
+  at: string;
+}
+
+/**
+ * Records the latest GPS position reported by a livreur or chauffeur. Only
+ * the last one is kept.
+ */
+export async function recordCourierPosition(courierId: string, point: GeoPoint): Promise<void> {
+  await updateCollection<CourierPosition, void>(COLLECTION, (positions) => {
+    const position: CourierPosition = { courierId, lat: point.lat, lng: point.lng, at: new Date().toISOString() };
+    const index = positions.findIndex((candidate) => candidate.courierId === courierId);
+    if (index === -1) {
+      positions.push(position);
+    } else {
+      positions[index] = position;
+    }
+  });
+}
+
+/**
+ * Last known position of a courier, or null when it is too old to be useful.
+ */
+export async function findCourierPosition(courierId: string): Promise<CourierPosition | null> {
+  const positions = await readCollection<CourierPosition>(COLLECTION);
+  const position = positions.find((candidate) => candidate.courierId === courierId);
+  if (!position || Date.now() - new Date(position.at).getTime() > STALE_AFTER_MS) {
+    return null;
+  }
+  return position;
+}
+
+export async function deleteCourierPosition(courierId: string): Promise<void> {
+  await updateCollection<CourierPosition, void>(COLLECTION, (positions) => {
+    positions.splice(0, positions.length, ...positions.filter((position) => position.courierId !== courierId));
+  });
+}
@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import { getFileStorage } from './storage';
+import { ACCEPTED_DOCUMENT_TYPES, MAX_DOCUMENT_SIZE, type DocumentKind } from '@/lib/documents';
+
+const COLLECTION = 'documents';
+
+// Photos above this size are resized and re-encoded before storage.
+const COMPRESS_ABOVE_BYTES = 1024 * 1024;
+const MAX_IMAGE_DIMENSION = 2000;
+
+// Documents uploaded during signup must be attached to the new account
+// within this delay. Matches how long a registration draft can be resumed.
+const UNCLAIMED_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface StoredDocument {
+  id: string;
+  ownerId: string | null;
+  kind: DocumentKind;
+  mimeType: string;
+  size: number;
+  originalName: string;
+  storageKey: string;
+  createdAt: string;
+}
+
+export type StoreDocumentResult =
+  | { ok: true; document: StoredDocument }
+  | { ok: false; error: 'empty' | 'too_large' | 'unsupported_type' };
+
+export interface DocumentRef {
+  id: string;
+  kind: DocumentKind;
+}
+
+/**
+ * Detects the actual type of a file from its first bytes, ignoring whatever
+ * the browser claimed.
+ */
+function sniffMimeType(bytes: Buffer): string | null {
+  if (bytes.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Downsizes large photos to JPEG. Falls back to the original bytes when the
+ * image cannot be processed or the result is not smaller.
+ */
+async function compressImage(bytes: Buffer, mimeType: string): Promise<{ bytes: Buffer; mimeType: string }> {
+  if (!mimeType.startsWith('image/') || bytes.length <= COMPRESS_ABOVE_BYTES) {
+    return { bytes, mimeType };
+  }
+  try {
+    const sharp = (await import('sharp')).default;
+    const compressed = await sharp(bytes)
+      .rotate()
+      .resize({ width: MAX_IMAGE_DIMENSION, height: MAX_IMAGE_DIMENSION, fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80, mozjpeg: true })
+      .toBuffer();
+    return compressed.length < bytes.length ? { bytes: compressed, mimeType: 'image/jpeg' } : { bytes, mimeType };
+  } catch (error) {
+    console.error('Image compression failed, storing original:', error);
+    return { bytes, mimeType };
+  }
+}
+
+/**
+ * Validates and stores an uploaded file. `ownerId` is null for documents
+ * uploaded before the account exists; see `claimDocuments`.
+ */
+export async function storeDocument(
+  file: File,
+  kind: DocumentKind,
+  ownerId: string | null
+): Promise<StoreDocumentResult> {
+  if (file.size === 0) {
+    return { ok: false, error: 'empty' };
+  }
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    return { ok: false, error: 'too_large' };
+  }
+  const original = Buffer.from(await file.arrayBuffer());
+  const sniffed = sniffMimeType(original);
+  if (!sniffed || !ACCEPTED_DOCUMENT_TYPES.includes(sniffed)) {
+    return { ok: false, error: 'unsupported_type' };
+  }
+
+  const { bytes, mimeType } = await compressImage(original, sniffed);
+  const id = randomUUID();
+  const document: StoredDocument = {
+    id,
+    ownerId,
+    kind,
+    mimeType,
+    size: bytes.length,
+    originalName: file.name.slice(0, 200),
+    storageKey: `documents/${id}`,
+    createdAt: new Date().toISOString(),
+  };
+
+  await getFileStorage().put(document.storageKey, bytes);
+  await updateCollection<StoredDocument, void>(COLLECTION, (documents) => {
+    documents.push(document);
+  });
+  return { ok: true, document };
+}
+
+export async function findDocument(id: string): Promise<StoredDocument | null> {
+  const documents = await readCollection<StoredDocument>(COLLECTION);
+  return documents.find((document) => document.id === id) ?? null;
+}
+
+export async function listDocumentsByOwner(ownerId: string): Promise<StoredDocument[]> {
+  const documents = await readCollection<StoredDocument>(COLLECTION);
+  return documents.filter((document) => document.ownerId === ownerId);
+}
+
+export async function readDocumentFile(document: StoredDocument): Promise<Buffer | null> {
+  return getFileStorage().get(document.storageKey);
+}
+
+function isClaimable(document: StoredDocument | undefined, ref: DocumentRef, ownerId?: string): boolean {
+  return (
+    !!document &&
+    document.kind === ref.kind &&
+    (document.ownerId === null
+      ? Date.now() - new Date(document.createdAt).getTime() < UNCLAIMED_TTL_MS
+      : document.ownerId === ownerId)
+  );
+}
+
+/**
+ * Returns the references that cannot be attached to an account: unknown,
+ * of another kind, expired or already owned by someone else.
+ */
+export async function findUnclaimableDocuments<T extends DocumentRef>(refs: T[], ownerId?: string): Promise<T[]> {
+  const documents = await readCollection<StoredDocument>(COLLECTION);
+  return refs.filter((ref) => !isClaimable(documents.find((document) => document.id === ref.id), ref, ownerId));
+}
+
+/**
+ * Attaches documents uploaded during signup to the new account.
+ */
+export async function claimDocuments(ownerId: string, refs: DocumentRef[]): Promise<void> {
+  await updateCollection<StoredDocument, void>(COLLECTION, (documents) => {
+    for (const ref of refs) {
+      const document = documents.find((candidate) => candidate.id === ref.id);
+      if (document && isClaimable(document, ref, ownerId)) {
+        document.ownerId = ownerId;
+      }
+    }
+  });
+}
+
+/**
+ * Deletes every document of an account, files included.
+ */
+export async function deleteDocumentsOf(ownerId: string): Promise<void> {
+  const removed = await updateCollection<StoredDocument, StoredDocument[]>(COLLECTION, (documents) => {
+    const owned = documents.filter((document) => document.ownerId === ownerId);
+    documents.splice(0, documents.length, ...documents.filter((document) => document.ownerId !== ownerId));
+    return owned;
+  });
+  for (const document of removed) {
+    await getFileStorage().delete(document.storageKey);
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Sends an email to a specified address.
+ */
+export async function sendEmail(
+  to: string,
+  subject: string,
+  body: string
+): Promise<boolean> {
+  // TODO: Implement this by calling an API.
+
+  return true;
+}
@@ -0,0 +1,165 @@
+import { FirebaseError, getApp, getApps, initializeApp } from 'firebase/app';
+import {
+  connectAuthEmulator,
+  createUserWithEmailAndPassword,
+  getAuth,
+  signInWithEmailAndPassword,
+  signOut,
+  type Auth,
+} from 'firebase/auth';
+import { verifyPassword } from './password';
+import type { AuthProvider, CreateCredentialsResult } from './auth-provider';
+import type { UserAccount } from './users';
+
+const APP_NAME = 'mapyoo-server';
+
+// Sign-in errors that mean the credentials are wrong rather than that
+// Firebase could not be reached.
+const REJECTED_CREDENTIALS = new Set([
+  'auth/invalid-credential',
+  'auth/invalid-login-credentials',
+  'auth/wrong-password',
+  'auth/user-not-found',
+  'auth/user-disabled',
+  'auth/too-many-requests',
+]);
+
+interface FirebaseAuthConfig {
+  apiKey: string;
+  projectId: string;
+  // host:port of the Auth emulator, when used
+  emulatorHost?: string;
+  // OAuth token for the admin endpoints; the emulator accepts `owner`
+  adminToken?: string;
+}
+
+/**
+ * Firebase Authentication backend. Sign-up and sign-in go through the
+ * Firebase SDK; changing a password, attaching the phone number and deleting
+ * an account use the Identity Toolkit admin endpoints.
+ */
+export class FirebaseAuthProvider implements AuthProvider {
+  private readonly auth: Auth;
+
+  constructor(private readonly config: FirebaseAuthConfig) {
+    const app = getApps().some((candidate) => candidate.name === APP_NAME)
+      ? getApp(APP_NAME)
+      : initializeApp({ apiKey: config.apiKey, projectId: config.projectId }, APP_NAME);
+    this.auth = getAuth(app);
+    if (config.emulatorHost) {
+      connectAuthEmulator(this.auth, `http://${config.emulatorHost}`, { disableWarnings: true });
+    }
+  }
+
+  /**
+   * Reads FIREBASE_API_KEY and FIREBASE_PROJECT_ID. With
+   * FIREBASE_AUTH_EMULATOR_HOST set, a `demo-` project needs neither a real
+   * key nor FIREBASE_ADMIN_TOKEN.
+   */
+  static fromEnv(): FirebaseAuthProvider {
+    const emulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+    const apiKey = process.env.FIREBASE_API_KEY ?? (emulatorHost ? 'demo-api-key' : undefined);
+    const projectId = process.env.FIREBASE_PROJECT_ID ?? (emulatorHost ? 'demo-mapyoo' : undefined);
+    if (!apiKey || !projectId) {
+      throw new Error('FIREBASE_API_KEY and FIREBASE_PROJECT_ID are required when AUTH_PROVIDER=firebase.');
+    }
+    return new FirebaseAuthProvider({
+      apiKey,
+      projectId,
+      emulatorHost,
+      adminToken: process.env.FIREBASE_ADMIN_TOKEN ?? (emulatorHost ? 'owner' : undefined),
+    });
+  }
+
+  private async admin(operation: 'update' | 'delete', body: Record<string, unknown>): Promise<void> {
+    if (!this.config.adminToken) {
+      throw new Error('FIREBASE_ADMIN_TOKEN is required to manage Firebase accounts.');
+    }
+    const origin = this.config.emulatorHost
+      ? `http://${this.config.emulatorHost}/identitytoolkit.googleapis.com`
+      : 'https://identitytoolkit.googleapis.com';
+    const response = await fetch(`${origin}/v1/projects/${this.config.projectId}/accounts:${operation}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.config.adminToken}` },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      throw new Error(payload?.error?.message ?? `Firebase accounts:${operation} failed (${response.status})`);
+    }
+  }
+
+  async createCredentials(user: UserAccount, password: string): Promise<CreateCredentialsResult> {
+    let uid: string;
+    try {
+      const credential = await createUserWithEmailAndPassword(this.auth, user.email, password);
+      uid = credential.user.uid;
+    } catch (error) {
+      if (error instanceof FirebaseError && error.code === 'auth/email-already-in-use') {
+        return { ok: false, error: 'email_in_use' };
+      }
+      throw error;
+    } finally {
+      await signOut(this.auth);
+    }
+
+    try {
+      await this.admin('update', { localId: uid, phoneNumber: user.phone });
+    } catch (error) {
+      await this.admin('delete', { localId: uid });
+      if (error instanceof Error && error.message.startsWith('PHONE_NUMBER_EXISTS')) {
+        return { ok: false, error: 'phone_in_use' };
+      }
+      throw error;
+    }
+    return { ok: true, uid };
+  }
+
+  async verifyPassword(user: UserAccount, password: string): Promise<boolean> {
+    // Accounts created before the switch to Firebase keep their local hash
+    if (!user.authUid) {
+      return verifyPassword(password, user.passwordHash);
+    }
+    try {
+      const credential = await signInWithEmailAndPassword(this.auth, user.email, password);
+      return credential.user.uid === user.authUid;
+    } catch (error) {
+      if (error instanceof FirebaseError && REJECTED_CREDENTIALS.has(error.code)) {
+        return false;
+      }
+      throw error;
+    } finally {
+      await signOut(this.auth);
+    }
+  }
+
+  async setPassword(user: UserAccount, password: string): Promise<void> {
+    if (user.authUid) {
+      await this.admin('update', { localId: user.authUid, password });
+    }
+  }
+
+  async updateContacts(user: UserAccount, contacts: { email: string; phone: string }): Promise<CreateCredentialsResult> {
+    if (!user.authUid) {
+      return { ok: true };
+    }
+    try {
+      await this.admin('update', { localId: user.authUid, email: contacts.email, phoneNumber: contacts.phone });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('EMAIL_EXISTS')) {
+        return { ok: false, error: 'email_in_use' };
+      }
+      if (error instanceof Error && error.message.startsWith('PHONE_NUMBER_EXISTS')) {
+        return { ok: false, error: 'phone_in_use' };
+      }
+      throw error;
+    }
+    return { ok: true };
+  }
+
+  async deleteCredentials(user: UserAccount): Promise<void> {
+    if (user.authUid) {
+      await this.admin('delete', { localId: user.authUid });
+    }
+  }
+}
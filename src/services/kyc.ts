@@ -0,0 +1,186 @@
+import { readCollection } from './local-store';
+import { findDocument, listDocumentsByOwner, type StoredDocument } from './documents';
+import { findUserById, updateUser, type UserAccount } from './users';
+import { sendWhatsAppMessage } from './whatsapp';
+import { DOCUMENT_KIND_LABELS, type DocumentKind } from '@/lib/documents';
+import type { KycStatus } from '@/lib/kyc';
+
+export interface KycReview {
+  status: KycStatus;
+  submittedAt: string;
+  // Set when an admin asked for new files; cleared once they are sent
+  reuploadKinds?: DocumentKind[];
+  reason?: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+}
+
+export type KycDecision =
+  | { decision: 'approve' }
+  | { decision: 'reject'; reason: string }
+  | { decision: 'request_reupload'; kinds: DocumentKind[]; reason: string };
+
+/**
+ * Livreurs and chauffeurs must have their documents reviewed before working.
+ */
+export function requiresKyc(user: Pick<UserAccount, 'userType'>): boolean {
+  return user.userType === 'delivery' || user.userType === 'chauffeur';
+}
+
+/**
+ * Review state of an account. Accounts that need no review count as verified.
+ */
+export function kycOf(user: UserAccount): KycReview {
+  return user.kyc ?? { status: requiresKyc(user) ? 'pending' : 'verified', submittedAt: user.createdAt };
+}
+
+/**
+ * Review state once reviewed details of an account changed: back to the
+ * queue, or still waiting for the files an admin asked for.
+ */
+export function reviewAgain(user: UserAccount): KycReview {
+  const review = kycOf(user);
+  return review.reuploadKinds?.length
+    ? { ...review, status: 'pending' }
+    : { status: 'pending', submittedAt: new Date().toISOString() };
+}
+
+/**
+ * Whether orders may be assigned to this account.
+ */
+export function canReceiveOrders(user: UserAccount): boolean {
+  return requiresKyc(user) && kycOf(user).status === 'verified';
+}
+
+/**
+ * Accounts waiting for a review, oldest submission first. Accounts waiting
+ * for a re-upload are left out until they send their files.
+ */
+export async function listKycQueue(): Promise<UserAccount[]> {
+  const users = await readCollection<UserAccount>('users');
+  return users
+    .filter((user) => requiresKyc(user) && kycOf(user).status === 'pending' && !kycOf(user).reuploadKinds?.length)
+    .sort((a, b) => kycOf(a).submittedAt.localeCompare(kycOf(b).submittedAt));
+}
+
+/**
+ * The most recent document of each kind, as reviewed by admins.
+ */
+export async function latestDocumentsByKind(ownerId: string): Promise<Partial<Record<DocumentKind, StoredDocument>>> {
+  const latest: Partial<Record<DocumentKind, StoredDocument>> = {};
+  for (const document of await listDocumentsByOwner(ownerId)) {
+    const current = latest[document.kind];
+    if (!current || current.createdAt < document.createdAt) {
+      latest[document.kind] = document;
+    }
+  }
+  return latest;
+}
+
+function decisionMessage(decision: KycDecision): string {
+  switch (decision.decision) {
+    case 'approve':
+      return 'MapYOO : votre compte est vérifié. Vous pouvez maintenant recevoir des commandes.';
+    case 'reject':
+      return `MapYOO : votre compte n'a pas été validé. Motif : ${decision.reason}`;
+    case 'request_reupload':
+      return `MapYOO : merci de renvoyer les documents suivants : ${decision.kinds
+        .map((kind) => DOCUMENT_KIND_LABELS[kind])
+        .join(', ')}. ${decision.reason}`;
+  }
+}
+
+/**
+ * Records an admin decision on an account and notifies it on WhatsApp.
+ */
+export async function reviewAccount(userId: string, adminId: string, decision: KycDecision): Promise<UserAccount | null> {
+  const user = await findUserById(userId);
+  if (!user || !requiresKyc(user)) {
+    return null;
+  }
+
+  const previous = kycOf(user);
+  const kyc: KycReview = {
+    status: decision.decision === 'approve' ? 'verified' : decision.decision === 'reject' ? 'rejected' : 'pending',
+    submittedAt: previous.submittedAt,
+    reviewedAt: new Date().toISOString(),
+    reviewedBy: adminId,
+    reason: decision.decision === 'approve' ? undefined : decision.reason,
+    reuploadKinds: decision.decision === 'request_reupload' ? decision.kinds : undefined,
+  };
+  const updated = await updateUser(userId, { kyc });
+  if (updated) {
+    await sendWhatsAppMessage(updated.whatsappPhone, decisionMessage(decision));
+  }
+  return updated;
+}
+
+export type ResubmitResult =
+  | { ok: true }
+  | { ok: false; error: 'nothing_requested' | 'missing_documents' };
+
+/**
+ * Puts the account back in the queue once every requested document was
+ * uploaded again. `documentIds` are the ids of the new uploads.
+ */
+export async function resubmitDocuments(
+  user: UserAccount,
+  documentIds: Partial<Record<DocumentKind, string>>
+): Promise<ResubmitResult> {
+  const review = kycOf(user);
+  const requested = review.reuploadKinds ?? [];
+  if (requested.length === 0) {
+    return { ok: false, error: 'nothing_requested' };
+  }
+
+  // Each file must be a new upload of the right kind by this account
+  for (const kind of requested) {
+    const id = documentIds[kind];
+    const document = id ? await findDocument(id) : null;
+    if (
+      !document ||
+      document.kind !== kind ||
+      document.ownerId !== user.id ||
+      document.createdAt < (review.reviewedAt ?? review.submittedAt)
+    ) {
+      return { ok: false, error: 'missing_documents' };
+    }
+  }
+
+  await updateUser(user.id, {
+    kyc: { status: 'pending', submittedAt: new Date().toISOString() },
+  });
+  return { ok: true };
+}
+
+export type ReplaceDocumentResult = { ok: true } | { ok: false; error: 'invalid_document' };
+
+/**
+ * Replaces one document of an account, e.g. an expired CIN. `documentId` is
+ * a new upload of that kind by the account. Livreurs and chauffeurs go back
+ * to the review queue; a re-upload requested for that kind is fulfilled.
+ */
+export async function replaceDocument(
+  user: UserAccount,
+  kind: DocumentKind,
+  documentId: string
+): Promise<ReplaceDocumentResult> {
+  const document = await findDocument(documentId);
+  const latest = (await latestDocumentsByKind(user.id))[kind];
+  if (!document || document.kind !== kind || document.ownerId !== user.id || latest?.id !== document.id) {
+    return { ok: false, error: 'invalid_document' };
+  }
+  if (!requiresKyc(user)) {
+    return { ok: true };
+  }
+
+  const review = kycOf(user);
+  const remaining = review.reuploadKinds?.filter((candidate) => candidate !== kind) ?? [];
+  await updateUser(user.id, {
+    kyc:
+      remaining.length > 0
+        ? { ...review, status: 'pending', reuploadKinds: remaining }
+        : { status: 'pending', submittedAt: new Date().toISOString() },
+  });
+  return { ok: true };
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directory holding the local JSON collections. Override with
+ * MAPYOO_DATA_DIR to point tests or a dev machine at another store.
+ */
+const DATA_DIR = process.env.MAPYOO_DATA_DIR ?? path.join(process.cwd(), '.data');
+
+// Pending writes per collection, so concurrent updates never interleave.
+const queues = new Map<string, Promise<unknown>>();
+
+function collectionPath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+/**
+ * Reads every record of a collection. A missing collection is empty.
+ */
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(collectionPath(name), 'utf8');
+    return JSON.parse(raw) as T[];
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function writeCollection<T>(name: string, items: T[]): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const file = collectionPath(name);
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(items, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Loads a collection, lets `update` mutate it in place and writes it back.
+ * Updates to the same collection run one after another.
+ */
+export function updateCollection<T, R>(
+  name: string,
+  update: (items: T[]) => R | Promise<R>
+): Promise<R> {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const items = await readCollection<T>(name);
+      const result = await update(items);
+      await writeCollection(name, items);
+      return result;
+    });
+  queues.set(name, next);
+  return next;
+}
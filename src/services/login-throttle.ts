@@ -0,0 +1,150 @@
+import { updateCollection } from './local-store';
+
+const COLLECTION = 'login-attempts';
+
+// Failures older than this are forgotten.
+const WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+interface ThrottlePolicy {
+  // Failures allowed before any delay is imposed
+  freeAttempts: number;
+  // Failures that lock the key for LOCKOUT_MS
+  maxFailures: number;
+}
+
+// An IP may front many users (NAT, mobile carriers), so it gets more room
+// than a single account.
+const POLICIES: Record<LoginThrottleScope, ThrottlePolicy> = {
+  account: { freeAttempts: 3, maxFailures: 5 },
+  ip: { freeAttempts: 10, maxFailures: 30 },
+};
+
+const MAX_DELAY_SECONDS = 60;
+
+export type LoginThrottleScope = 'account' | 'ip';
+
+export interface LoginThrottleKey {
+  scope: LoginThrottleScope;
+  value: string;
+}
+
+interface LoginAttempts {
+  key: string;
+  failures: number;
+  firstFailureAt: string;
+  // Earliest time the next attempt is accepted
+  nextAttemptAt: string;
+  lockedUntil?: string;
+}
+
+export type LoginThrottleCheck =
+  | { ok: true }
+  | { ok: false; error: 'locked' | 'throttled'; retryAfterSeconds: number };
+
+function keyOf({ scope, value }: LoginThrottleKey): string {
+  return `${scope}:${value}`;
+}
+
+function isStale(entry: LoginAttempts, now: number): boolean {
+  return (
+    now - new Date(entry.firstFailureAt).getTime() > WINDOW_MS &&
+    (!entry.lockedUntil || new Date(entry.lockedUntil).getTime() <= now)
+  );
+}
+
+function secondsUntil(time: string, now: number): number {
+  return Math.max(1, Math.ceil((new Date(time).getTime() - now) / 1000));
+}
+
+/**
+ * Address of the client as reported by the proxy in front of the app.
+ */
+export function clientIpFrom(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Tells whether a login attempt may be made for all of `keys`. Locked keys
+ * and keys still inside their progressive delay are refused without
+ * checking the password.
+ */
+export async function checkLoginAllowed(keys: LoginThrottleKey[]): Promise<LoginThrottleCheck> {
+  return updateCollection<LoginAttempts, LoginThrottleCheck>(COLLECTION, (entries) => {
+    const now = Date.now();
+    let refused: LoginThrottleCheck = { ok: true };
+    for (const key of keys) {
+      const entry = entries.find((candidate) => candidate.key === keyOf(key));
+      if (!entry || isStale(entry, now)) continue;
+
+      const check: LoginThrottleCheck | null =
+        entry.lockedUntil && new Date(entry.lockedUntil).getTime() > now
+          ? { ok: false, error: 'locked', retryAfterSeconds: secondsUntil(entry.lockedUntil, now) }
+          : new Date(entry.nextAttemptAt).getTime() > now
+            ? { ok: false, error: 'throttled', retryAfterSeconds: secondsUntil(entry.nextAttemptAt, now) }
+            : null;
+      // Report the longest wait when several keys are blocked
+      if (check && (refused.ok || (!check.ok && check.retryAfterSeconds > refused.retryAfterSeconds))) {
+        refused = check;
+      }
+    }
+    return refused;
+  });
+}
+
+/**
+ * Counts a failed attempt against each key. Past the free attempts every
+ * failure doubles the delay before the next try, and reaching the limit
+ * locks the key. Returns how many attempts the account key has left before
+ * it is locked, or null if no account key was given.
+ */
+export async function recordLoginFailure(keys: LoginThrottleKey[]): Promise<number | null> {
+  return updateCollection<LoginAttempts, number | null>(COLLECTION, (entries) => {
+    const now = Date.now();
+    let attemptsLeft: number | null = null;
+
+    for (const key of keys) {
+      const policy = POLICIES[key.scope];
+      let entry = entries.find((candidate) => candidate.key === keyOf(key));
+      if (entry && isStale(entry, now)) {
+        entries.splice(entries.indexOf(entry), 1);
+        entry = undefined;
+      }
+      if (!entry) {
+        entry = { key: keyOf(key), failures: 0, firstFailureAt: new Date(now).toISOString(), nextAttemptAt: '' };
+        entries.push(entry);
+      }
+
+      entry.failures++;
+      const delaySeconds =
+        entry.failures <= policy.freeAttempts
+          ? 0
+          : Math.min(MAX_DELAY_SECONDS, 2 ** (entry.failures - policy.freeAttempts));
+      entry.nextAttemptAt = new Date(now + delaySeconds * 1000).toISOString();
+      if (entry.failures >= policy.maxFailures) {
+        entry.lockedUntil = new Date(now + LOCKOUT_MS).toISOString();
+      }
+      if (key.scope === 'account') {
+        attemptsLeft = Math.max(0, policy.maxFailures - entry.failures);
+      }
+    }
+
+    // Drop expired entries so the file does not grow forever
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (isStale(entries[i], now)) entries.splice(i, 1);
+    }
+    return attemptsLeft;
+  });
+}
+
+/**
+ * Forgets the failures of an account after a successful login. The IP
+ * counter is kept so one valid account cannot be used to reset it.
+ */
+export async function clearLoginFailures(key: LoginThrottleKey): Promise<void> {
+  await updateCollection<LoginAttempts, void>(COLLECTION, (entries) => {
+    const index = entries.findIndex((candidate) => candidate.key === keyOf(key));
+    if (index !== -1) entries.splice(index, 1);
+  });
+}
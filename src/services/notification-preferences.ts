@@ -0,0 +1,43 @@
+import { updateUser, type UserAccount } from './users';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  MANDATORY_TOPICS,
+  NOTIFICATION_TOPICS,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationTopic,
+} from '@/lib/notifications';
+
+/**
+ * Preferences of an account, with the defaults for topics it never set.
+ */
+export function notificationPreferencesOf(user: UserAccount): NotificationPreferences {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...user.notificationPreferences };
+}
+
+/**
+ * Whether a message on `topic` may be sent to `user` over `channel`.
+ */
+export function wantsNotification(user: UserAccount, topic: NotificationTopic, channel: NotificationChannel): boolean {
+  return MANDATORY_TOPICS.includes(topic) || notificationPreferencesOf(user)[topic][channel];
+}
+
+/**
+ * Saves the preferences, ignoring unknown topics and keeping mandatory
+ * topics on.
+ */
+export async function saveNotificationPreferences(
+  user: UserAccount,
+  preferences: Partial<Record<string, Partial<Record<string, unknown>>>>
+): Promise<NotificationPreferences> {
+  const saved = notificationPreferencesOf(user);
+  for (const { id } of NOTIFICATION_TOPICS) {
+    const mandatory = MANDATORY_TOPICS.includes(id);
+    saved[id] = {
+      whatsapp: mandatory || preferences[id]?.whatsapp === true,
+      email: mandatory || preferences[id]?.email === true,
+    };
+  }
+  await updateUser(user.id, { notificationPreferences: saved });
+  return saved;
+}
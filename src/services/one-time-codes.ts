@@ -0,0 +1,131 @@
+import { createHash, randomInt, randomUUID } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+
+const COLLECTION = 'one-time-codes';
+
+export type CodePurpose =
+  | 'password_reset'
+  | 'whatsapp_verification'
+  | 'email_verification'
+  | 'two_factor_setup'
+  | 'two_factor_login';
+export type CodeChannel = 'whatsapp' | 'email';
+
+export interface OneTimeCode {
+  id: string;
+  purpose: CodePurpose;
+  userId: string;
+  channel: CodeChannel;
+  codeHash: string;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  expiresAt: string;
+  consumedAt?: string;
+}
+
+export type VerifyCodeResult =
+  | { ok: true; code: OneTimeCode }
+  | { ok: false; error: 'invalid_code' | 'expired' | 'too_many_attempts' };
+
+interface IssueCodeOptions {
+  purpose: CodePurpose;
+  userId: string;
+  channel: CodeChannel;
+  ttlSeconds?: number;
+  maxAttempts?: number;
+}
+
+function hashCode(id: string, code: string): string {
+  return createHash('sha256').update(`${id}:${code}`).digest('hex');
+}
+
+/**
+ * Issues a 6-digit code. Earlier unused codes for the same purpose and user
+ * are consumed so only the latest one works.
+ */
+export async function issueCode({
+  purpose,
+  userId,
+  channel,
+  ttlSeconds = 10 * 60,
+  maxAttempts = 5,
+}: IssueCodeOptions): Promise<{ id: string; code: string }> {
+  const id = randomUUID();
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const now = Date.now();
+
+  await updateCollection<OneTimeCode, void>(COLLECTION, (codes) => {
+    for (const existing of codes) {
+      if (existing.purpose === purpose && existing.userId === userId && !existing.consumedAt) {
+        existing.consumedAt = new Date(now).toISOString();
+      }
+    }
+    codes.push({
+      id,
+      purpose,
+      userId,
+      channel,
+      codeHash: hashCode(id, code),
+      attempts: 0,
+      maxAttempts,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+    });
+  });
+
+  return { id, code };
+}
+
+/**
+ * The most recently issued code for a purpose and user, used or not. Lets
+ * callers enforce a delay between two sends.
+ */
+export async function findLatestCode(purpose: CodePurpose, userId: string): Promise<OneTimeCode | null> {
+  const codes = await readCollection<OneTimeCode>(COLLECTION);
+  let latest: OneTimeCode | null = null;
+  for (const code of codes) {
+    if (code.purpose === purpose && code.userId === userId && (!latest || latest.createdAt < code.createdAt)) {
+      latest = code;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Codes issued for a purpose and user since `since`, used or not, oldest
+ * first. Lets callers cap how many codes are sent in a period.
+ */
+export async function listCodesSince(purpose: CodePurpose, userId: string, since: Date): Promise<OneTimeCode[]> {
+  const codes = await readCollection<OneTimeCode>(COLLECTION);
+  return codes
+    .filter((code) => code.purpose === purpose && code.userId === userId && new Date(code.createdAt) >= since)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Checks `code` against the issued code `id` and consumes it on success.
+ * Every wrong guess counts towards the attempt limit.
+ */
+export async function verifyCode(id: string, purpose: CodePurpose, code: string): Promise<VerifyCodeResult> {
+  return updateCollection<OneTimeCode, VerifyCodeResult>(COLLECTION, (codes) => {
+    const entry = codes.find((candidate) => candidate.id === id && candidate.purpose === purpose);
+    if (!entry || entry.consumedAt) {
+      return { ok: false, error: 'invalid_code' };
+    }
+    if (new Date(entry.expiresAt).getTime() < Date.now()) {
+      return { ok: false, error: 'expired' };
+    }
+    if (entry.attempts >= entry.maxAttempts) {
+      return { ok: false, error: 'too_many_attempts' };
+    }
+    if (entry.codeHash !== hashCode(id, code)) {
+      entry.attempts++;
+      return entry.attempts >= entry.maxAttempts
+        ? { ok: false, error: 'too_many_attempts' }
+        : { ok: false, error: 'invalid_code' };
+    }
+    entry.consumedAt = new Date().toISOString();
+    return { ok: true, code: entry };
+  });
+}
@@ -0,0 +1,80 @@
+import { sendEmail } from './email';
+import { wantsNotification } from './notification-preferences';
+import { cancelOrder, canPlaceOrders, findCustomerOrder, orderActorOf, settleRefund, type Order } from './orders';
+import { getPricingRules } from './pricing';
+import { findUserById, type UserAccount } from './users';
+import { recordWalletTransaction } from './wallet';
+import { sendWhatsAppMessage } from './whatsapp';
+import type { RefundDestination } from '@/lib/cancellation';
+import { formatTrackingNumber } from '@/lib/orders';
+
+export type CustomerCancelResult =
+  | { ok: true; order: Order }
+  | { ok: false; error: 'forbidden' | 'not_found' | 'not_cancellable' };
+
+/**
+ * Pays back what the customer is owed as MapYOO credit. Card refunds stay
+ * pending: no payment provider is connected yet, so they are made by hand.
+ * Cash on delivery orders were never paid, so their fee is charged to the
+ * credit instead.
+ */
+async function settleMoney(order: Order): Promise<void> {
+  const { cancellation } = order;
+  const label = `Commande ${formatTrackingNumber(order.trackingNumber)} annulée`;
+  if (cancellation?.refund) {
+    if (cancellation.refund.destination === 'wallet') {
+      await recordWalletTransaction(order.customerId, cancellation.refund.amount, label, order.id);
+      await settleRefund(order.id);
+    }
+  } else if (cancellation?.collectionVoided && cancellation.fee > 0) {
+    await recordWalletTransaction(order.customerId, -cancellation.fee, `${label} : frais d'annulation`, order.id);
+  }
+}
+
+async function notifyCourier(courierId: string, order: Order): Promise<void> {
+  const courier = await findUserById(courierId);
+  if (!courier) {
+    return;
+  }
+  const instructions =
+    order.statusHistory[order.statusHistory.length - 1].from === 'picked_up'
+      ? "Rapportez le colis à l'adresse de ramassage."
+      : 'Ne vous rendez pas au ramassage.';
+  const cash = order.cancellation?.collectionVoided ? ' Aucun paiement à encaisser.' : '';
+  const message = `La commande ${formatTrackingNumber(order.trackingNumber)} a été annulée par le client. ${instructions}${cash}`;
+  if (wantsNotification(courier, 'order_updates', 'whatsapp')) {
+    await sendWhatsAppMessage(courier.whatsappPhone, message);
+  }
+  if (wantsNotification(courier, 'order_updates', 'email')) {
+    await sendEmail(courier.email, 'Commande annulée', message);
+  }
+}
+
+/**
+ * Cancels an order of the account of `user` on the current rules, then
+ * refunds it and tells the livreur or chauffeur in charge to stop.
+ */
+export async function cancelCustomerOrder(
+  user: UserAccount,
+  trackingNumber: string,
+  refundTo: RefundDestination
+): Promise<CustomerCancelResult> {
+  if (!canPlaceOrders(user)) {
+    return { ok: false, error: 'forbidden' };
+  }
+  const order = await findCustomerOrder(user, trackingNumber);
+  if (!order) {
+    return { ok: false, error: 'not_found' };
+  }
+  const { rules } = await getPricingRules();
+  const result = await cancelOrder(order.id, orderActorOf(user), rules.cancellation, refundTo);
+  if (!result.ok) {
+    return result;
+  }
+
+  await settleMoney(result.order);
+  if (result.order.assignedTo) {
+    await notifyCourier(result.order.assignedTo, result.order);
+  }
+  return { ok: true, order: result.order };
+}
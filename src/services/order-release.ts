@@ -0,0 +1,31 @@
+import { releaseDueOrders } from './orders';
+
+// Scheduled orders are released within this delay of their release time
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+async function releaseOnce(): Promise<void> {
+  try {
+    const released = await releaseDueOrders();
+    if (released.length > 0) {
+      console.log(`Released ${released.length} scheduled order(s) to dispatch`);
+    }
+  } catch (error) {
+    console.error('Releasing scheduled orders failed:', error);
+  }
+}
+
+/**
+ * Hands scheduled orders to dispatch as their pickup window approaches, for
+ * as long as the server runs. Started once per process; orders that came
+ * due while the server was down are released on the first check.
+ */
+export function startOrderRelease(): void {
+  if (timer) {
+    return;
+  }
+  void releaseOnce();
+  timer = setInterval(releaseOnce, CHECK_INTERVAL_MS);
+  timer.unref?.();
+}
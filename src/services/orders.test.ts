@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { UserAccount } from './users';
+
+// The store reads its directory on import, so services are loaded once it is set
+let dataDir: string;
+let orders: typeof import('./orders');
+let store: typeof import('./local-store');
+
+function account(id: string, fields: Partial<UserAccount>): UserAccount {
+  const now = new Date().toISOString();
+  return {
+    id,
+    userType: 'client',
+    accountType: 'individual',
+    email: `${id}@example.ma`,
+    phone: '+212600000000',
+    whatsappPhone: '+212600000000',
+    firstName: 'Test',
+    lastName: id,
+    passwordHash: '',
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  };
+}
+
+const place = (address: string) => ({ address, lat: 33.57, lng: -7.59 });
+
+describe('assignOrder', () => {
+  const client = account('client', {});
+
+  before(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'mapyoo-orders-'));
+    process.env.MAPYOO_DATA_DIR = dataDir;
+    store = await import('./local-store');
+    orders = await import('./orders');
+    await store.updateCollection<UserAccount, void>('users', (users) => {
+      users.push(
+        client,
+        account('unverified', { userType: 'delivery' }),
+        account('verified', {
+          userType: 'delivery',
+          kyc: { status: 'verified', submittedAt: new Date().toISOString() },
+        })
+      );
+    });
+  });
+
+  after(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  async function pendingOrder() {
+    const result = await orders.createOrder(
+      client,
+      {
+        type: 'package',
+        pickup: place('1 rue de la Liberté, Casablanca'),
+        destination: place('2 boulevard Zerktouni, Casablanca'),
+        recipient: { firstName: 'Sara', lastName: 'Alaoui', phone: '+212600000001' },
+        paymentMethod: 'online',
+      },
+      { total: 30, currency: 'MAD', distanceKm: 3, lines: [], computedAt: new Date().toISOString() }
+    );
+    assert.ok(result.ok);
+    return result.order;
+  }
+
+  it('rejects a courier whose documents are not verified', async () => {
+    const order = await pendingOrder();
+    const result = await orders.assignOrder(order.id, 'unverified', orders.orderActorOf(client));
+    assert.deepEqual(result, { ok: false, error: 'courier_not_verified' });
+    assert.equal((await orders.findOrder(order.id))?.status, 'pending');
+  });
+
+  it('rejects an unknown courier', async () => {
+    const order = await pendingOrder();
+    const result = await orders.assignOrder(order.id, 'nobody', orders.orderActorOf(client));
+    assert.deepEqual(result, { ok: false, error: 'courier_not_verified' });
+  });
+
+  it('assigns a verified courier', async () => {
+    const order = await pendingOrder();
+    const result = await orders.assignOrder(order.id, 'verified', orders.orderActorOf(client));
+    assert.ok(result.ok);
+    assert.equal(result.order.assignedTo, 'verified');
+  });
+});
@@ -0,0 +1,605 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import { optimizeStops } from './routing';
+import { actorOf, companyIdOf, staffRoleOf, type StaffActor } from './companies';
+import { canReceiveOrders } from './kyc';
+import { accountRoleOf, displayNameOf, findUserById, type UserAccount } from './users';
+import { hasStaffPermission, type StaffRole } from '@/lib/company-roles';
+import type { Place } from '@/lib/geocoding';
+import {
+  canTransition,
+  normalizeTrackingNumber,
+  statusGroupOf,
+  type OrderFilters,
+  type OrderStatus,
+  type OrderType,
+  type PackageType,
+  type PaymentMethod,
+  type StopKind,
+  type StopStatus,
+} from '@/lib/orders';
+import { cancellationTerms, type RefundDestination } from '@/lib/cancellation';
+import { formatPrice, type CancellationRules, type Quote } from '@/lib/pricing';
+import {
+  SCHEDULING_LIMITS,
+  isBookableWindow,
+  moroccoDayOf,
+  releaseTimeOf,
+  windowStartingAt,
+  windowsOfDay,
+  type TimeWindow,
+} from '@/lib/scheduling';
+import type { AccountRole } from '@/lib/roles';
+import type { PackageOrderFormValues } from '@/lib/schemas';
+
+const COLLECTION = 'orders';
+// Crockford base32: no I, L, O or U, so codes read well over the phone
+const TRACKING_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TRACKING_LENGTH = 10;
+const ERASED_NAME = 'Compte supprimé';
+
+export interface Recipient {
+  firstName: string;
+  lastName: string;
+  phone: string;
+}
+
+export interface ParcelDetails {
+  type: PackageType;
+  weightKg: number;
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+  // In dirhams, for insurance
+  declaredValue: number;
+  description?: string;
+}
+
+/** Who changed an order, as it was at the time of the change. */
+export interface OrderActor {
+  // Null for changes made by the platform itself
+  userId: string | null;
+  role: AccountRole | 'system';
+  name: string;
+  staffRole?: StaffRole;
+}
+
+/** A pickup or drop-off of a multi-stop order. */
+export interface OrderStop {
+  id: string;
+  kind: StopKind;
+  place: Place;
+  // Drop-offs only
+  recipient?: Recipient;
+  status: StopStatus;
+  // Set when the courier reports the outcome
+  updatedAt?: string;
+  reason?: string;
+}
+
+export interface OrderCancellation {
+  fee: number;
+  // Online payments only
+  refund?: { amount: number; destination: RefundDestination; status: 'pending' | 'done' };
+  // Cash on delivery: the courier has nothing to collect any more
+  collectionVoided: boolean;
+}
+
+export interface StatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: string;
+  by: OrderActor;
+  reason?: string;
+}
+
+export interface Order {
+  id: string;
+  trackingNumber: string;
+  type: OrderType;
+  // The individual client, or the company for orders placed by its staff
+  customerId: string;
+  placedBy: StaffActor | null;
+  // First and last stops for multi-stop orders, with the recipient there
+  pickup: Place;
+  destination: Place;
+  recipient: Recipient;
+  // Multi-stop orders only: every stop, in the order the courier visits them
+  stops?: OrderStop[];
+  // Package orders only
+  parcel?: ParcelDetails;
+  paymentMethod: PaymentMethod;
+  // Pickup window booked by the customer; without one, pickup is as soon as possible
+  schedule?: TimeWindow;
+  // Price computed on the server when the order was placed
+  quote: Quote;
+  status: OrderStatus;
+  // Livreur or chauffeur in charge, from assignment on
+  assignedTo?: string;
+  // Set when the customer cancels
+  cancellation?: OrderCancellation;
+  // Append-only, oldest first; the first entry is the creation
+  statusHistory: StatusChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewStop = Pick<OrderStop, 'kind' | 'place' | 'recipient'>;
+
+/** What the customer provides; the rest is set by `createOrder`. */
+export type NewOrder = Pick<
+  Order,
+  'type' | 'pickup' | 'destination' | 'recipient' | 'parcel' | 'paymentMethod' | 'schedule'
+> & { stops?: NewStop[] };
+
+export type CreateOrderResult = { ok: true; order: Order } | { ok: false; error: 'window_full' };
+
+export type TransitionResult =
+  | { ok: true; order: Order }
+  | { ok: false; error: 'not_found' | 'illegal_transition' | 'courier_not_verified' };
+
+export type CancelResult =
+  | { ok: true; order: Order }
+  | { ok: false; error: 'not_found' | 'not_cancellable' };
+
+export type StopUpdateResult =
+  | { ok: true; order: Order }
+  | { ok: false; error: 'not_found' | 'not_assigned' | 'not_under_way' };
+
+export const SYSTEM_ACTOR: OrderActor = { userId: null, role: 'system', name: 'MapYOO' };
+
+/**
+ * Random tracking number such as `MY7K3P9XQ2HT`. 50 random bits, so it can
+ * be shared with recipients without exposing other orders.
+ */
+function generateTrackingNumber(): string {
+  const bytes = randomBytes(TRACKING_LENGTH);
+  let code = 'MY';
+  for (const byte of bytes) {
+    code += TRACKING_ALPHABET[byte % TRACKING_ALPHABET.length];
+  }
+  return code;
+}
+
+/** Account the orders of `user` are filed under. */
+export function customerIdOf(user: UserAccount): string {
+  return companyIdOf(user) ?? user.id;
+}
+
+/**
+ * Individual clients may order; company staff need the `place_orders`
+ * permission.
+ */
+export function canPlaceOrders(user: UserAccount): boolean {
+  const staffRole = staffRoleOf(user);
+  return user.userType === 'client' && (!staffRole || hasStaffPermission(staffRole, 'place_orders'));
+}
+
+export function orderActorOf(user: UserAccount): OrderActor {
+  const staff = actorOf(user);
+  return {
+    userId: user.id,
+    role: accountRoleOf(user),
+    name: displayNameOf(user),
+    ...(staff && { staffRole: staff.staffRole }),
+  };
+}
+
+// Orders holding a place in the pickup window starting at `start`
+function bookedIn(orders: Order[], start: string): number {
+  return orders.filter((order) => order.schedule?.start === start && order.status !== 'cancelled').length;
+}
+
+/**
+ * Records an order placed by `user`. `quote` must come from `quoteOrder`.
+ * Orders start as drafts when the customer still has to confirm them,
+ * scheduled when they have a pickup window, pending otherwise. The window
+ * must have been checked with `isBookableWindow`; its capacity is checked
+ * here.
+ */
+export async function createOrder(
+  user: UserAccount,
+  input: NewOrder,
+  quote: Quote,
+  status: 'draft' | 'scheduled' | 'pending' = input.schedule ? 'scheduled' : 'pending'
+): Promise<CreateOrderResult> {
+  const now = new Date().toISOString();
+  return updateCollection<Order, CreateOrderResult>(COLLECTION, (orders) => {
+    const { stops, ...fields } = input;
+    if (input.schedule && bookedIn(orders, input.schedule.start) >= SCHEDULING_LIMITS.capacityPerWindow) {
+      return { ok: false, error: 'window_full' };
+    }
+    let trackingNumber = generateTrackingNumber();
+    while (orders.some((order) => order.trackingNumber === trackingNumber)) {
+      trackingNumber = generateTrackingNumber();
+    }
+    const order: Order = {
+      id: randomUUID(),
+      trackingNumber,
+      ...fields,
+      ...(stops && { stops: stops.map((stop) => ({ id: randomUUID(), ...stop, status: 'pending' as const })) }),
+      quote,
+      customerId: customerIdOf(user),
+      placedBy: actorOf(user),
+      status,
+      statusHistory: [{ from: null, to: status, at: now, by: orderActorOf(user) }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    orders.push(order);
+    return { ok: true, order };
+  });
+}
+
+/**
+ * The order described by the package form. `values` must have been
+ * validated with `packageOrderSchema`.
+ */
+export function packageOrderInput(values: PackageOrderFormValues): NewOrder {
+  const { timing, pickupWindow, extraPickups, extraDropoffs, ...order } = values;
+  const schedule = timing === 'scheduled' && pickupWindow ? windowStartingAt(pickupWindow) : null;
+  const stops: NewStop[] | null =
+    extraPickups.length > 0 || extraDropoffs.length > 0
+      ? [
+          { kind: 'pickup', place: order.pickup },
+          ...extraPickups.map((place): NewStop => ({ kind: 'pickup', place })),
+          { kind: 'dropoff', place: order.destination, recipient: order.recipient },
+          ...extraDropoffs.map(({ place, recipient }): NewStop => ({ kind: 'dropoff', place, recipient })),
+        ]
+      : null;
+  return { type: 'package', ...order, ...(schedule && { schedule }), ...(stops && { stops }) };
+}
+
+/**
+ * Puts the stops of a multi-stop order in the fastest visiting order, see
+ * `optimizeStops`, and points `pickup`, `destination` and `recipient` at
+ * the first and last stops. Other orders are returned as they are.
+ */
+export async function sequenceStops(input: NewOrder): Promise<NewOrder> {
+  if (!input.stops) {
+    return input;
+  }
+  const pickups = input.stops.filter((stop) => stop.kind === 'pickup');
+  const dropoffs = input.stops.filter((stop) => stop.kind === 'dropoff');
+  const sequence = await optimizeStops(
+    pickups.map((stop) => stop.place),
+    dropoffs.map((stop) => stop.place)
+  );
+  const stops = [...sequence.pickups.map((index) => pickups[index]), ...sequence.dropoffs.map((index) => dropoffs[index])];
+  const last = stops[stops.length - 1];
+  return { ...input, stops, pickup: stops[0].place, destination: last.place, recipient: last.recipient! };
+}
+
+/** The places an order goes through, in order. */
+export function routePointsOf(order: Pick<NewOrder, 'pickup' | 'destination' | 'stops'>): Place[] {
+  return order.stops ? order.stops.map((stop) => stop.place) : [order.pickup, order.destination];
+}
+
+// Appends the move to `to` to the history of `order`
+function recordTransition(order: Order, to: OrderStatus, actor: OrderActor, reason?: string): void {
+  const at = new Date().toISOString();
+  order.statusHistory.push({ from: order.status, to, at, by: actor, ...(reason && { reason }) });
+  order.status = to;
+  order.updatedAt = at;
+}
+
+/**
+ * Moves an order to `to` if the status machine allows it, and appends the
+ * change to its history. `update` applies changes that go with the new
+ * status, in the same write.
+ */
+async function applyTransition(
+  orderId: string,
+  to: OrderStatus,
+  actor: OrderActor,
+  reason?: string,
+  update?: (order: Order) => void
+): Promise<TransitionResult> {
+  return updateCollection<Order, TransitionResult>(COLLECTION, (orders) => {
+    const order = orders.find((candidate) => candidate.id === orderId);
+    if (!order) {
+      return { ok: false, error: 'not_found' };
+    }
+    if (!canTransition(order.status, to)) {
+      return { ok: false, error: 'illegal_transition' };
+    }
+    recordTransition(order, to, actor, reason);
+    update?.(order);
+    return { ok: true, order };
+  });
+}
+
+/**
+ * Changes the status of an order. Assignment goes through `assignOrder`,
+ * which also records the livreur.
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: Exclude<OrderStatus, 'assigned'>,
+  actor: OrderActor,
+  reason?: string
+): Promise<TransitionResult> {
+  return applyTransition(orderId, to, actor, reason, (order) => {
+    // Back in the queue: the livreur no longer has it
+    if (to === 'pending') {
+      delete order.assignedTo;
+    }
+  });
+}
+
+/**
+ * Cancels an order on the terms `rules` give at its current status. The
+ * terms are computed in the same write, so an order picked up meanwhile is
+ * not cancelled at the earlier price. Refunds are recorded as pending; see
+ * `settleRefund`.
+ */
+export async function cancelOrder(
+  orderId: string,
+  actor: OrderActor,
+  rules: CancellationRules,
+  refundTo: RefundDestination
+): Promise<CancelResult> {
+  return updateCollection<Order, CancelResult>(COLLECTION, (orders) => {
+    const order = orders.find((candidate) => candidate.id === orderId);
+    if (!order) {
+      return { ok: false, error: 'not_found' };
+    }
+    const terms = cancellationTerms(rules, order);
+    if (!terms) {
+      return { ok: false, error: 'not_cancellable' };
+    }
+    recordTransition(order, 'cancelled', actor, terms.fee > 0 ? `Frais d'annulation : ${formatPrice(terms.fee)}` : undefined);
+    order.cancellation = {
+      fee: terms.fee,
+      ...(terms.refund > 0 && { refund: { amount: terms.refund, destination: refundTo, status: 'pending' as const } }),
+      collectionVoided: order.paymentMethod === 'cod',
+    };
+    return { ok: true, order };
+  });
+}
+
+/** Records that the refund of a cancelled order was paid out. */
+export async function settleRefund(orderId: string): Promise<void> {
+  await updateCollection<Order, void>(COLLECTION, (orders) => {
+    const refund = orders.find((order) => order.id === orderId)?.cancellation?.refund;
+    if (refund) {
+      refund.status = 'done';
+    }
+  });
+}
+
+// Statuses during which the courier reports stop outcomes
+const UNDER_WAY: OrderStatus[] = ['assigned', 'picked_up', 'in_transit'];
+
+/**
+ * Records the outcome of a stop, as reported by the courier of the order.
+ * The order status is changed separately, once the run is over.
+ */
+export async function updateStopStatus(
+  orderId: string,
+  stopId: string,
+  status: Exclude<StopStatus, 'pending'>,
+  courierId: string,
+  reason?: string
+): Promise<StopUpdateResult> {
+  return updateCollection<Order, StopUpdateResult>(COLLECTION, (orders) => {
+    const order = orders.find((candidate) => candidate.id === orderId);
+    const stop = order?.stops?.find((candidate) => candidate.id === stopId);
+    if (!order || !stop) {
+      return { ok: false, error: 'not_found' };
+    }
+    if (order.assignedTo !== courierId) {
+      return { ok: false, error: 'not_assigned' };
+    }
+    if (!UNDER_WAY.includes(order.status)) {
+      return { ok: false, error: 'not_under_way' };
+    }
+    const at = new Date().toISOString();
+    stop.status = status;
+    stop.updatedAt = at;
+    if (reason) {
+      stop.reason = reason;
+    } else {
+      delete stop.reason;
+    }
+    order.updatedAt = at;
+    return { ok: true, order };
+  });
+}
+
+/**
+ * Hands a pending order to a livreur or chauffeur. Only reviewed couriers
+ * receive orders, so unknown accounts and accounts whose documents are not
+ * verified yet are refused.
+ */
+export async function assignOrder(orderId: string, courierId: string, actor: OrderActor): Promise<TransitionResult> {
+  const courier = await findUserById(courierId);
+  if (!courier || !canReceiveOrders(courier)) {
+    return { ok: false, error: 'courier_not_verified' };
+  }
+  return applyTransition(orderId, 'assigned', actor, undefined, (order) => {
+    order.assignedTo = courierId;
+  });
+}
+
+export async function findOrder(id: string): Promise<Order | null> {
+  const orders = await readCollection<Order>(COLLECTION);
+  return orders.find((order) => order.id === id) ?? null;
+}
+
+export async function findOrderByTrackingNumber(trackingNumber: string): Promise<Order | null> {
+  const orders = await readCollection<Order>(COLLECTION);
+  return orders.find((order) => order.trackingNumber === trackingNumber) ?? null;
+}
+
+/**
+ * An order of the customer `user` belongs to, or null. Staff members see
+ * every order of their company.
+ */
+export async function findCustomerOrder(user: UserAccount, trackingNumber: string): Promise<Order | null> {
+  const order = await findOrderByTrackingNumber(trackingNumber);
+  return order && order.customerId === customerIdOf(user) ? order : null;
+}
+
+// Keeps the area of an address, as used for pricing and statistics
+function anonymizePlace(place: Place): Place {
+  return { address: '', lat: Math.round(place.lat * 100) / 100, lng: Math.round(place.lng * 100) / 100 };
+}
+
+const NO_RECIPIENT: Recipient = { firstName: '', lastName: '', phone: '' };
+
+// The order without the addresses, recipients and parcel description
+function withoutCustomerData(order: Order): Order {
+  return {
+    ...order,
+    pickup: anonymizePlace(order.pickup),
+    destination: anonymizePlace(order.destination),
+    recipient: NO_RECIPIENT,
+    stops: order.stops?.map((stop) => ({
+      ...stop,
+      place: anonymizePlace(stop.place),
+      ...(stop.recipient && { recipient: NO_RECIPIENT }),
+    })),
+    ...(order.parcel && { parcel: { ...order.parcel, description: undefined } }),
+  };
+}
+
+/** An order as exported to the livreur or chauffeur who delivered it. */
+export type DeliveredOrderRecord = Omit<Order, 'customerId' | 'placedBy' | 'cancellation'>;
+
+/**
+ * Orders of `userId` for its personal data export. Orders it placed or that
+ * are filed under it are complete. Orders it only delivered keep the run
+ * and its own actions, without the customer's or recipients' data.
+ */
+export async function exportOrdersOf(
+  userId: string
+): Promise<{ placed: Order[]; delivered: DeliveredOrderRecord[] }> {
+  const orders = await readCollection<Order>(COLLECTION);
+  const placed = orders.filter((order) => order.customerId === userId || order.placedBy?.userId === userId);
+  const delivered = orders
+    .filter((order) => order.assignedTo === userId && !placed.includes(order))
+    .map((order) => {
+      const { customerId: _customerId, placedBy: _placedBy, cancellation: _cancellation, ...run } =
+        withoutCustomerData(order);
+      return {
+        ...run,
+        statusHistory: run.statusHistory.map((change) =>
+          change.by.userId === userId ? change : { ...change, by: { userId: null, role: change.by.role, name: '' } }
+        ),
+      };
+    });
+  return { placed, delivered };
+}
+
+/**
+ * Strips personal data from the orders of an erased account. Orders stay
+ * for accounting, without names, phones or exact addresses. Orders of a
+ * company, and orders the account delivered, only lose its name.
+ */
+export async function anonymizeOrdersOf(userId: string): Promise<void> {
+  await updateCollection<Order, void>(COLLECTION, (orders) => {
+    for (const [index, order] of orders.entries()) {
+      if (order.placedBy?.userId === userId) {
+        order.placedBy = { ...order.placedBy, name: ERASED_NAME };
+      }
+      // The history is otherwise never rewritten
+      for (const change of order.statusHistory) {
+        if (change.by.userId === userId) {
+          change.by = { ...change.by, name: ERASED_NAME };
+        }
+      }
+      if (order.customerId === userId) {
+        orders[index] = withoutCustomerData(order);
+      }
+    }
+  });
+}
+
+export const ORDER_PAGE_SIZE = 20;
+
+export interface OrderPage {
+  orders: Order[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+function matchesQuery(order: Order, query: string): boolean {
+  const trackingNumber = normalizeTrackingNumber(query);
+  if (trackingNumber.length >= 4 && order.trackingNumber.includes(trackingNumber)) {
+    return true;
+  }
+  const needle = query.toLowerCase();
+  const digits = query.replace(/\D/g, '');
+  // Multi-stop orders match on any of their recipients
+  const recipients = order.stops?.flatMap((stop) => (stop.recipient ? [stop.recipient] : [])) ?? [order.recipient];
+  return recipients.some(
+    ({ firstName, lastName, phone }) =>
+      `${firstName} ${lastName}`.toLowerCase().includes(needle) ||
+      `${lastName} ${firstName}`.toLowerCase().includes(needle) ||
+      (digits.length >= 4 && phone.replace(/\D/g, '').includes(digits.replace(/^0/, '')))
+  );
+}
+
+/**
+ * One page of the orders of a customer, newest first.
+ */
+export async function listCustomerOrders(customerId: string, filters: OrderFilters, page = 1): Promise<OrderPage> {
+  const orders = await readCollection<Order>(COLLECTION);
+  const matching = orders
+    .filter(
+      (order) =>
+        order.customerId === customerId &&
+        (!filters.group || statusGroupOf(order.status) === filters.group) &&
+        (!filters.type || order.type === filters.type) &&
+        (!filters.from || moroccoDayOf(new Date(order.createdAt)) >= filters.from) &&
+        (!filters.to || moroccoDayOf(new Date(order.createdAt)) <= filters.to) &&
+        (!filters.query || matchesQuery(order, filters.query))
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const pageCount = Math.max(1, Math.ceil(matching.length / ORDER_PAGE_SIZE));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return {
+    orders: matching.slice((current - 1) * ORDER_PAGE_SIZE, current * ORDER_PAGE_SIZE),
+    total: matching.length,
+    page: current,
+    pageCount,
+  };
+}
+
+export interface PickupWindowAvailability {
+  window: TimeWindow;
+  remaining: number;
+}
+
+/**
+ * The windows of `day` that can still be booked, with the places left in
+ * each.
+ */
+export async function listPickupWindows(day: string, now = new Date()): Promise<PickupWindowAvailability[]> {
+  const orders = await readCollection<Order>(COLLECTION);
+  return windowsOfDay(day)
+    .filter((window) => isBookableWindow(window, now))
+    .map((window) => ({
+      window,
+      remaining: Math.max(0, SCHEDULING_LIMITS.capacityPerWindow - bookedIn(orders, window.start)),
+    }));
+}
+
+/**
+ * Hands to dispatch the scheduled orders whose pickup window is close.
+ * Returns the orders released.
+ */
+export async function releaseDueOrders(now = new Date()): Promise<Order[]> {
+  return updateCollection<Order, Order[]>(COLLECTION, (orders) => {
+    const due = orders.filter(
+      (order) => order.status === 'scheduled' && order.schedule && releaseTimeOf(order.schedule) <= now
+    );
+    for (const order of due) {
+      recordTransition(order, 'pending', SYSTEM_ACTOR, 'Créneau de ramassage proche');
+    }
+    return due;
+  });
+}
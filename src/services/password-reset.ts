@@ -0,0 +1,143 @@
+import { createHash, randomBytes } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import {
+  findLatestCode,
+  issueCode,
+  listCodesSince,
+  verifyCode,
+  type CodeChannel,
+  type VerifyCodeResult,
+} from './one-time-codes';
+import { checkNewPassword, savePassword, type NewPasswordError } from './account-password';
+import { revokeUserSessions } from './session';
+import { findUserByEmailOrPhone, findUserById } from './users';
+import { sendEmail } from './email';
+import { sendWhatsAppMessage } from './whatsapp';
+
+const TOKEN_COLLECTION = 'password-reset-tokens';
+const TOKEN_TTL_SECONDS = 15 * 60;
+const RESEND_COOLDOWN_SECONDS = 60;
+// Codes an account may receive per hour, every code bringing new guesses
+const MAX_CODES_PER_HOUR = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface PasswordResetToken {
+  tokenHash: string;
+  userId: string;
+  expiresAt: string;
+  usedAt?: string;
+}
+
+export type RequestResetResult =
+  | { ok: true; requestId: string }
+  | { ok: false; error: 'account_not_found' | 'delivery_failed' }
+  | { ok: false; error: 'cooldown' | 'too_many_requests'; resendAt: string };
+
+export type VerifyResetCodeResult =
+  | { ok: true; resetToken: string }
+  | Extract<VerifyCodeResult, { ok: false }>;
+
+export type CompleteResetResult = { ok: true } | { ok: false; error: 'invalid_token' | NewPasswordError };
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Sends a reset code to the account behind `emailOrPhone` over `channel`,
+ * at most once per cooldown and a few times per hour. On success the id of
+ * the issued code identifies the request.
+ */
+export async function requestPasswordReset(
+  emailOrPhone: string,
+  channel: CodeChannel
+): Promise<RequestResetResult> {
+  const user = await findUserByEmailOrPhone(emailOrPhone);
+  if (!user) {
+    return { ok: false, error: 'account_not_found' };
+  }
+
+  const latest = await findLatestCode('password_reset', user.id);
+  if (latest) {
+    const resendAt = new Date(latest.createdAt).getTime() + RESEND_COOLDOWN_SECONDS * 1000;
+    if (resendAt > Date.now()) {
+      return { ok: false, error: 'cooldown', resendAt: new Date(resendAt).toISOString() };
+    }
+  }
+  const lastHour = await listCodesSince('password_reset', user.id, new Date(Date.now() - HOUR_MS));
+  if (lastHour.length >= MAX_CODES_PER_HOUR) {
+    const resendAt = new Date(lastHour[0].createdAt).getTime() + HOUR_MS;
+    return { ok: false, error: 'too_many_requests', resendAt: new Date(resendAt).toISOString() };
+  }
+
+  const { id, code } = await issueCode({ purpose: 'password_reset', userId: user.id, channel });
+  const message = `Votre code de réinitialisation MapYOO est ${code}. Il expire dans 10 minutes.`;
+
+  const sent =
+    channel === 'whatsapp'
+      ? await sendWhatsAppMessage(user.whatsappPhone, message)
+      : await sendEmail(user.email, 'Réinitialisation de votre mot de passe', message);
+  return sent ? { ok: true, requestId: id } : { ok: false, error: 'delivery_failed' };
+}
+
+/**
+ * Checks a reset code and exchanges it for a short-lived reset token.
+ */
+export async function verifyPasswordResetCode(
+  requestId: string,
+  code: string
+): Promise<VerifyResetCodeResult> {
+  const result = await verifyCode(requestId, 'password_reset', code);
+  if (!result.ok) {
+    return result;
+  }
+
+  const resetToken = randomBytes(32).toString('base64url');
+  await updateCollection<PasswordResetToken, void>(TOKEN_COLLECTION, (tokens) => {
+    tokens.push({
+      tokenHash: hashToken(resetToken),
+      userId: result.code.userId,
+      expiresAt: new Date(Date.now() + TOKEN_TTL_SECONDS * 1000).toISOString(),
+    });
+  });
+  return { ok: true, resetToken };
+}
+
+function isUsable(entry: PasswordResetToken | undefined): entry is PasswordResetToken {
+  return !!entry && !entry.usedAt && new Date(entry.expiresAt).getTime() >= Date.now();
+}
+
+/**
+ * Sets a new password for the account behind `resetToken` and revokes every
+ * session of that account. The token stays usable when the password is
+ * refused by the policy, so the user can pick another one.
+ */
+export async function completePasswordReset(resetToken: string, password: string): Promise<CompleteResetResult> {
+  const tokenHash = hashToken(resetToken);
+  const tokens = await readCollection<PasswordResetToken>(TOKEN_COLLECTION);
+  const entry = tokens.find((candidate) => candidate.tokenHash === tokenHash);
+  const user = isUsable(entry) ? await findUserById(entry.userId) : null;
+  if (!user) {
+    return { ok: false, error: 'invalid_token' };
+  }
+  const error = await checkNewPassword(user, password);
+  if (error) {
+    return { ok: false, error };
+  }
+
+  const consumed = await updateCollection<PasswordResetToken, boolean>(TOKEN_COLLECTION, (entries) => {
+    const current = entries.find((candidate) => candidate.tokenHash === tokenHash);
+    if (!isUsable(current)) {
+      return false;
+    }
+    current.usedAt = new Date().toISOString();
+    return true;
+  });
+  if (!consumed) {
+    return { ok: false, error: 'invalid_token' };
+  }
+
+  await savePassword(user, password);
+  await revokeUserSessions(user.id);
+  return { ok: true };
+}
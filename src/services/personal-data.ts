@@ -0,0 +1,352 @@
+import { randomUUID } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import { deleteAccount } from './account-password';
+import { appUrl } from './app-url';
+import { deleteCourierPosition, type CourierPosition } from './courier-positions';
+import { deleteDocumentsOf, listDocumentsByOwner, readDocumentFile } from './documents';
+import { sendEmail } from './email';
+import { clearLoginFailures } from './login-throttle';
+import { anonymizeOrdersOf, exportOrdersOf } from './orders';
+import { listActiveSessions } from './session';
+import { getFileStorage } from './storage';
+import { listWalletTransactions } from './wallet';
+import { createZip, type ZipEntry } from './zip';
+import type { UserAccount } from './users';
+
+const EXPORTS = 'data-exports';
+const ERASURE_LOG = 'erasure-log';
+// Archives can be downloaded for a week, and requested once a day
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const EXPORT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+export type DataExportStatus = 'pending' | 'ready' | 'failed';
+
+export interface DataExport {
+  id: string;
+  userId: string;
+  status: DataExportStatus;
+  createdAt: string;
+  completedAt?: string;
+  expiresAt?: string;
+  storageKey?: string;
+  size?: number;
+}
+
+export type RequestExportResult =
+  | { ok: true; dataExport: DataExport }
+  | { ok: false; error: 'already_pending' | 'too_soon' };
+
+/**
+ * One kind of data held about an account. Every store keeping personal
+ * data registers a source below, so exports and erasures cover it.
+ */
+export interface PersonalDataSource {
+  // Name of the JSON file in the export
+  name: string;
+  collect(user: UserAccount): Promise<{ data: unknown; files?: ZipEntry[] }>;
+  // Removes the data, or anonymizes what must be kept for accounting
+  erase(user: UserAccount): Promise<void>;
+}
+
+/** Proof that an account was erased, without any personal data. */
+interface ErasureRecord {
+  id: string;
+  userType: UserAccount['userType'];
+  accountCreatedAt: string;
+  erasedAt: string;
+}
+
+async function removeRecords<T>(collection: string, predicate: (record: T) => boolean): Promise<void> {
+  await updateCollection<T, void>(collection, (records) => {
+    records.splice(0, records.length, ...records.filter((record) => !predicate(record)));
+  });
+}
+
+// Security records are erased but not exported: they only hold hashes.
+const securityRecords: PersonalDataSource = {
+  name: 'security',
+  async collect() {
+    return { data: null };
+  },
+  async erase(user) {
+    for (const collection of ['one-time-codes', 'login-challenges', 'password-reset-tokens', 'sessions']) {
+      await removeRecords<{ userId: string }>(collection, (record) => record.userId === user.id);
+    }
+    await clearLoginFailures({ scope: 'account', value: user.id });
+  },
+};
+
+const profile: PersonalDataSource = {
+  name: 'profile',
+  async collect(user) {
+    // Credentials and second-factor secrets are left out
+    const {
+      passwordHash: _passwordHash,
+      passwordHistory: _passwordHistory,
+      twoFactor,
+      twoFactorSetup: _twoFactorSetup,
+      authUid: _authUid,
+      ...data
+    } = user;
+    return { data: { ...data, twoFactor: twoFactor ? { method: twoFactor.method, enabledAt: twoFactor.enabledAt } : null } };
+  },
+  // The account record itself is removed last, by `eraseAccount`
+  async erase() {},
+};
+
+const sessions: PersonalDataSource = {
+  name: 'sessions',
+  async collect(user) {
+    const active = await listActiveSessions(user.id);
+    return {
+      data: active.map(({ id, createdAt, lastActiveAt, userAgent, ip, location }) => ({
+        id,
+        createdAt,
+        lastActiveAt,
+        userAgent,
+        ip,
+        location,
+      })),
+    };
+  },
+  // Removed with the security records
+  async erase() {},
+};
+
+const documents: PersonalDataSource = {
+  name: 'documents',
+  async collect(user) {
+    const owned = await listDocumentsByOwner(user.id);
+    const files: ZipEntry[] = [];
+    for (const document of owned) {
+      const bytes = await readDocumentFile(document);
+      if (bytes) {
+        const extension = document.mimeType === 'application/pdf' ? 'pdf' : document.mimeType.split('/')[1];
+        files.push({ path: `documents/${document.kind}-${document.id}.${extension}`, data: bytes });
+      }
+    }
+    return {
+      data: owned.map(({ id, kind, mimeType, size, originalName, createdAt }) => ({
+        id,
+        kind,
+        mimeType,
+        size,
+        originalName,
+        createdAt,
+      })),
+      files,
+    };
+  },
+  async erase(user) {
+    await deleteDocumentsOf(user.id);
+  },
+};
+
+const companyInvitations: PersonalDataSource = {
+  name: 'company-invitations',
+  async collect(user) {
+    const invitations = await readCollection<{ companyId: string; acceptedBy?: string; tokenHash: string }>(
+      'company-invitations'
+    );
+    return {
+      data: invitations
+        .filter((invitation) => invitation.companyId === user.id || invitation.acceptedBy === user.id)
+        .map(({ tokenHash: _tokenHash, ...invitation }) => invitation),
+    };
+  },
+  async erase(user) {
+    await removeRecords<{ companyId: string; acceptedBy?: string }>(
+      'company-invitations',
+      (invitation) => invitation.companyId === user.id || invitation.acceptedBy === user.id
+    );
+  },
+};
+
+const orders: PersonalDataSource = {
+  name: 'orders',
+  async collect(user) {
+    return { data: await exportOrdersOf(user.id) };
+  },
+  // Kept for accounting, without personal data
+  async erase(user) {
+    await anonymizeOrdersOf(user.id);
+  },
+};
+
+const wallet: PersonalDataSource = {
+  name: 'wallet',
+  async collect(user) {
+    return { data: await listWalletTransactions(user.id) };
+  },
+  // Amounts and order references only, kept for accounting
+  async erase() {},
+};
+
+// Last GPS position of livreurs and chauffeurs
+const courierPosition: PersonalDataSource = {
+  name: 'position',
+  async collect(user) {
+    const positions = await readCollection<CourierPosition>('courier-positions');
+    return { data: positions.find((position) => position.courierId === user.id) ?? null };
+  },
+  async erase(user) {
+    await deleteCourierPosition(user.id);
+  },
+};
+
+export const PERSONAL_DATA_SOURCES: PersonalDataSource[] = [
+  profile,
+  sessions,
+  documents,
+  orders,
+  wallet,
+  courierPosition,
+  companyInvitations,
+  securityRecords,
+];
+
+/**
+ * Everything held about `user`, as the entries of the export archive: one
+ * JSON file per source plus the stored documents.
+ */
+export async function collectPersonalData(user: UserAccount): Promise<ZipEntry[]> {
+  const entries: ZipEntry[] = [];
+  for (const source of PERSONAL_DATA_SOURCES) {
+    const { data, files = [] } = await source.collect(user);
+    if (data !== null) {
+      entries.push({ path: `${source.name}.json`, data: Buffer.from(JSON.stringify(data, null, 2)) });
+    }
+    entries.push(...files);
+  }
+  return entries;
+}
+
+/**
+ * Erases an account under law 09-08: personal data is deleted, records kept
+ * for accounting are anonymized, and the account and its credentials are
+ * removed. Only an anonymous trace of the erasure is kept.
+ */
+export async function eraseAccount(user: UserAccount): Promise<void> {
+  for (const source of PERSONAL_DATA_SOURCES) {
+    await source.erase(user);
+  }
+  await deleteAccount(user);
+  for (const dataExport of await removeExportsOf(user.id)) {
+    if (dataExport.storageKey) {
+      await getFileStorage().delete(dataExport.storageKey);
+    }
+  }
+  await updateCollection<ErasureRecord, void>(ERASURE_LOG, (records) => {
+    records.push({
+      id: randomUUID(),
+      userType: user.userType,
+      accountCreatedAt: user.createdAt,
+      erasedAt: new Date().toISOString(),
+    });
+  });
+}
+
+function isExpired(dataExport: DataExport): boolean {
+  return !!dataExport.expiresAt && new Date(dataExport.expiresAt).getTime() <= Date.now();
+}
+
+async function removeExportsOf(userId: string): Promise<DataExport[]> {
+  return updateCollection<DataExport, DataExport[]>(EXPORTS, (exports) => {
+    const removed = exports.filter((dataExport) => dataExport.userId === userId);
+    exports.splice(0, exports.length, ...exports.filter((dataExport) => dataExport.userId !== userId));
+    return removed;
+  });
+}
+
+async function completeExport(id: string, changes: Partial<DataExport>): Promise<void> {
+  await updateCollection<DataExport, void>(EXPORTS, (exports) => {
+    const dataExport = exports.find((candidate) => candidate.id === id);
+    if (dataExport) {
+      Object.assign(dataExport, changes, { completedAt: new Date().toISOString() });
+    }
+  });
+}
+
+async function buildExport(user: UserAccount, dataExport: DataExport): Promise<void> {
+  try {
+    const archive = createZip(await collectPersonalData(user));
+    const storageKey = `exports/${dataExport.id}.zip`;
+    await getFileStorage().put(storageKey, archive);
+    await completeExport(dataExport.id, {
+      status: 'ready',
+      storageKey,
+      size: archive.length,
+      expiresAt: new Date(Date.now() + EXPORT_TTL_MS).toISOString(),
+    });
+    await sendEmail(
+      user.email,
+      'Vos données MapYOO sont prêtes',
+      `L'archive de vos données est disponible pendant 7 jours : ${appUrl('/settings/privacy')}`
+    );
+  } catch (error) {
+    console.error('Personal data export failed:', error);
+    await completeExport(dataExport.id, { status: 'failed' });
+  }
+}
+
+/**
+ * Starts building the archive of everything held about `user`. The zip is
+ * built in the background; the user is emailed once it can be downloaded.
+ */
+export async function requestDataExport(user: UserAccount): Promise<RequestExportResult> {
+  const dataExport: DataExport = {
+    id: randomUUID(),
+    userId: user.id,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+  const error = await updateCollection<DataExport, 'already_pending' | 'too_soon' | null>(EXPORTS, (exports) => {
+    const own = exports.filter((candidate) => candidate.userId === user.id);
+    if (own.some((candidate) => candidate.status === 'pending')) {
+      return 'already_pending';
+    }
+    if (own.some((candidate) => Date.now() - new Date(candidate.createdAt).getTime() < EXPORT_COOLDOWN_MS)) {
+      return 'too_soon';
+    }
+    exports.push(dataExport);
+    return null;
+  });
+  if (error) {
+    return { ok: false, error };
+  }
+
+  void buildExport(user, dataExport);
+  return { ok: true, dataExport };
+}
+
+/**
+ * Exports of `user`, newest first. Expired archives are deleted on the way.
+ */
+export async function listDataExports(userId: string): Promise<DataExport[]> {
+  const expired = await updateCollection<DataExport, DataExport[]>(EXPORTS, (exports) => {
+    const stale = exports.filter((dataExport) => dataExport.userId === userId && isExpired(dataExport));
+    exports.splice(0, exports.length, ...exports.filter((dataExport) => !stale.includes(dataExport)));
+    return stale;
+  });
+  for (const dataExport of expired) {
+    if (dataExport.storageKey) {
+      await getFileStorage().delete(dataExport.storageKey);
+    }
+  }
+  const exports = await readCollection<DataExport>(EXPORTS);
+  return exports
+    .filter((dataExport) => dataExport.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * The archive of an export, if it belongs to `userId` and is still available.
+ */
+export async function readDataExport(userId: string, id: string): Promise<Buffer | null> {
+  const exports = await readCollection<DataExport>(EXPORTS);
+  const dataExport = exports.find((candidate) => candidate.id === id);
+  if (!dataExport || dataExport.userId !== userId || dataExport.status !== 'ready' || isExpired(dataExport)) {
+    return null;
+  }
+  return dataExport.storageKey ? getFileStorage().get(dataExport.storageKey) : null;
+}
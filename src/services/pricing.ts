@@ -0,0 +1,64 @@
+import { readCollection, updateCollection } from './local-store';
+import { routeThrough } from './routing';
+import { routePointsOf, type NewOrder } from './orders';
+import { computePrice, DEFAULT_PRICING_RULES, type PricingRules, type Quote } from '@/lib/pricing';
+
+const COLLECTION = 'pricing-rules';
+
+/** Rules as saved by an admin. The collection holds a single record. */
+interface StoredPricingRules extends PricingRules {
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface PricingRulesInfo {
+  rules: PricingRules;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export async function getPricingRules(): Promise<PricingRulesInfo> {
+  const [stored] = await readCollection<StoredPricingRules>(COLLECTION);
+  if (!stored) {
+    return { rules: DEFAULT_PRICING_RULES, updatedAt: null, updatedBy: null };
+  }
+  const { updatedAt, updatedBy, ...rules } = stored;
+  // Rules saved before a setting existed get its default
+  return { rules: { ...DEFAULT_PRICING_RULES, ...rules }, updatedAt, updatedBy };
+}
+
+/**
+ * Replaces the rules. Orders keep the quote they were placed with.
+ */
+export async function savePricingRules(rules: PricingRules, adminId: string): Promise<void> {
+  await updateCollection<StoredPricingRules, void>(COLLECTION, (records) => {
+    records.splice(0, records.length, { ...rules, updatedAt: new Date().toISOString(), updatedBy: adminId });
+  });
+}
+
+/**
+ * Prices an order from the current rules and the driving distance. This is
+ * the only price orders are recorded with; prices shown by the browser are
+ * never trusted. Time surcharges apply at the start of the pickup window
+ * for scheduled orders.
+ */
+export async function quoteOrder(
+  order: Pick<NewOrder, 'type' | 'pickup' | 'destination' | 'stops' | 'parcel' | 'schedule'>,
+  at = order.schedule ? new Date(order.schedule.start) : new Date()
+): Promise<Quote> {
+  const { rules } = await getPricingRules();
+  const stops = routePointsOf(order);
+  const route = await routeThrough(stops);
+  return computePrice(rules, {
+    type: order.type,
+    distanceKm: route.distanceKm,
+    stops,
+    weightKg: order.parcel?.weightKg,
+    dimensionsCm: order.parcel && {
+      length: order.parcel.lengthCm,
+      width: order.parcel.widthCm,
+      height: order.parcel.heightCm,
+    },
+    at,
+  });
+}
@@ -0,0 +1,84 @@
+import { getAuthProvider } from './auth-provider';
+import { staffRoleOf } from './companies';
+import { requiresKyc, reviewAgain } from './kyc';
+import { sendVerification, type VerificationChannel } from './signup-verification';
+import {
+  findContactConflicts,
+  normalizeEmail,
+  normalizePhone,
+  updateUserContacts,
+  type UniqueField,
+  type UserAccount,
+} from './users';
+import type { CompanyProfileFormValues, PersonalProfileFormValues } from '@/lib/schemas';
+
+export type ProfileKind = 'personal' | 'company';
+
+export type UpdateProfileResult =
+  | { ok: true; user: UserAccount; reverify: VerificationChannel[]; kycReset: boolean }
+  | { ok: false; conflicts: UniqueField[] };
+
+/**
+ * Company owners edit the company details; everyone else, staff members
+ * included, edits their own name.
+ */
+export function profileKindOf(user: UserAccount): ProfileKind {
+  return user.accountType === 'company' && (staffRoleOf(user) ?? 'owner') === 'owner' ? 'company' : 'personal';
+}
+
+/**
+ * Saves the profile of `user`. A new email or WhatsApp number must be
+ * confirmed again, so the account is inactive until it is. New RC/IF or
+ * ICE numbers of a livreur or chauffeur are reviewed again, like new
+ * documents.
+ */
+export async function updateProfile(
+  user: UserAccount,
+  values: PersonalProfileFormValues | CompanyProfileFormValues
+): Promise<UpdateProfileResult> {
+  const conflicts = await findContactConflicts(user.id, values);
+  if (conflicts.length > 0) {
+    return { ok: false, conflicts };
+  }
+
+  const emailChanged = normalizeEmail(values.email) !== user.email;
+  const whatsappChanged = normalizePhone(values.whatsappPhone) !== user.whatsappPhone;
+  if (emailChanged || normalizePhone(values.phone) !== user.phone) {
+    const credentials = await (await getAuthProvider()).updateContacts(user, {
+      email: normalizeEmail(values.email),
+      phone: normalizePhone(values.phone),
+    });
+    if (!credentials.ok) {
+      return { ok: false, conflicts: [credentials.error === 'email_in_use' ? 'email' : 'phone'] };
+    }
+  }
+
+  const details =
+    'companyName' in values
+      ? { companyName: values.companyName, rcOrIfNumber: values.rcOrIfNumber, ice: values.ice || undefined }
+      : { firstName: values.firstName, lastName: values.lastName };
+  const kycReset =
+    requiresKyc(user) &&
+    'companyName' in values &&
+    (details.rcOrIfNumber !== user.rcOrIfNumber || details.ice !== user.ice);
+  const result = await updateUserContacts(user.id, {
+    ...details,
+    email: values.email,
+    phone: values.phone,
+    whatsappPhone: values.whatsappPhone,
+    ...(emailChanged ? { emailVerifiedAt: undefined } : {}),
+    ...(whatsappChanged ? { whatsappVerifiedAt: undefined } : {}),
+    ...(kycReset ? { kyc: reviewAgain(user) } : {}),
+  });
+  if (!result.ok) {
+    return result;
+  }
+
+  const reverify: VerificationChannel[] = [];
+  if (whatsappChanged) reverify.push('whatsapp');
+  if (emailChanged) reverify.push('email');
+  for (const channel of reverify) {
+    await sendVerification(result.user, channel);
+  }
+  return { ok: true, user: result.user, reverify, kycReset };
+}
@@ -0,0 +1,224 @@
+import { createHash, randomBytes } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import { appUrl } from './app-url';
+import { findDocument, findUnclaimableDocuments } from './documents';
+import { sendEmail } from './email';
+import { sendWhatsAppMessage } from './whatsapp';
+import type { AccountType } from './users';
+import type { RegistrationUserType } from './registration';
+import { toE164 } from '@/lib/identity';
+import { DOCUMENT_FIELDS } from '@/lib/documents';
+import { DRAFT_FIELDS, REGISTRATION_STEPS, type RegistrationStep } from '@/lib/registration-steps';
+
+const COLLECTION = 'registration-drafts';
+const RESUME_LINK_SENDS = 'resume-link-sends';
+// Kept in line with how long unclaimed signup documents are stored.
+const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const RESUME_LINK_COOLDOWN_MS = 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// Links sent per hour to one number or email, and from one IP, which may
+// front many users (NAT, mobile carriers)
+const MAX_LINKS_PER_CONTACT = 5;
+const MAX_LINKS_PER_IP = 20;
+const MAX_VALUE_LENGTH = 200;
+
+interface StoredDraft {
+  tokenHash: string;
+  userType: RegistrationUserType;
+  accountType: AccountType;
+  step: RegistrationStep;
+  values: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+  resumeLinkSentAt?: string;
+}
+
+// One resume link sent, logged once per contact and once per IP
+interface ResumeLinkSend {
+  key: string;
+  sentAt: string;
+}
+
+export interface DraftInput {
+  userType: RegistrationUserType;
+  accountType: AccountType;
+  step: RegistrationStep;
+  values: Record<string, unknown>;
+}
+
+export interface DraftDocument {
+  name: string;
+  mimeType: string;
+}
+
+export interface RegistrationDraft {
+  userType: RegistrationUserType;
+  accountType: AccountType;
+  step: RegistrationStep;
+  values: Record<string, string>;
+  // Uploaded files referenced by the draft, by form field
+  documents: Record<string, DraftDocument>;
+}
+
+export type SendResumeLinkResult =
+  | { ok: true }
+  | { ok: false; error: 'draft_not_found' | 'missing_contact' | 'cooldown' | 'too_many_requests' | 'delivery_failed' };
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isLive(draft: StoredDraft, now = Date.now()): boolean {
+  return new Date(draft.expiresAt).getTime() > now;
+}
+
+// Keeps known fields only, as trimmed strings of reasonable length.
+function sanitizeValues(values: Record<string, unknown>): Record<string, string> {
+  const sanitized: Record<string, string> = {};
+  for (const field of DRAFT_FIELDS) {
+    const value = values[field];
+    if (typeof value === 'string' && value.trim()) {
+      sanitized[field] = value.trim().slice(0, MAX_VALUE_LENGTH);
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * Creates or updates a draft and returns its token. An unknown or expired
+ * token starts a new draft.
+ */
+export async function saveDraft(token: string | null, input: DraftInput): Promise<string> {
+  const values = sanitizeValues(input.values);
+  const step = REGISTRATION_STEPS.some((candidate) => candidate.id === input.step) ? input.step : 'identity';
+
+  return updateCollection<StoredDraft, string>(COLLECTION, (drafts) => {
+    const now = Date.now();
+    // Drop expired drafts while we hold the file
+    for (let i = drafts.length - 1; i >= 0; i--) {
+      if (!isLive(drafts[i], now)) drafts.splice(i, 1);
+    }
+
+    const existing = token ? drafts.find((draft) => draft.tokenHash === hashToken(token)) : undefined;
+    const expiresAt = new Date(now + DRAFT_TTL_MS).toISOString();
+    if (existing && token) {
+      Object.assign(existing, {
+        userType: input.userType,
+        accountType: input.accountType,
+        step,
+        values,
+        updatedAt: new Date(now).toISOString(),
+        expiresAt,
+      });
+      return token;
+    }
+
+    const newToken = randomBytes(24).toString('base64url');
+    drafts.push({
+      tokenHash: hashToken(newToken),
+      userType: input.userType,
+      accountType: input.accountType,
+      step,
+      values,
+      createdAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+      expiresAt,
+    });
+    return newToken;
+  });
+}
+
+/**
+ * Loads a draft by token. Document ids that can no longer be attached to a
+ * new account (expired or claimed) are dropped so the user uploads again.
+ */
+export async function loadDraft(token: string): Promise<RegistrationDraft | null> {
+  const drafts = await readCollection<StoredDraft>(COLLECTION);
+  const draft = drafts.find((candidate) => candidate.tokenHash === hashToken(token));
+  if (!draft || !isLive(draft)) {
+    return null;
+  }
+
+  const values = { ...draft.values };
+  const refs = Object.entries(DOCUMENT_FIELDS)
+    .filter(([field]) => values[field])
+    .map(([field, kind]) => ({ field, kind, id: values[field] }));
+  const unclaimable = await findUnclaimableDocuments(refs);
+  const documents: Record<string, DraftDocument> = {};
+  for (const ref of refs) {
+    const document = unclaimable.includes(ref) ? null : await findDocument(ref.id);
+    if (document) {
+      documents[ref.field] = { name: document.originalName, mimeType: document.mimeType };
+    } else {
+      delete values[ref.field];
+    }
+  }
+  return { userType: draft.userType, accountType: draft.accountType, step: draft.step, values, documents };
+}
+
+export async function deleteDraft(token: string): Promise<void> {
+  await updateCollection<StoredDraft, void>(COLLECTION, (drafts) => {
+    const index = drafts.findIndex((draft) => draft.tokenHash === hashToken(token));
+    if (index !== -1) drafts.splice(index, 1);
+  });
+}
+
+/**
+ * Sends a link to resume the draft on another device, to the WhatsApp
+ * number or email typed in the draft. Once a minute per draft, and a few
+ * times per hour per contact and per `ip`, so the form cannot be used to
+ * flood someone else's number or inbox.
+ */
+export async function sendResumeLink(
+  token: string,
+  channel: 'whatsapp' | 'email',
+  ip: string
+): Promise<SendResumeLinkResult> {
+  const drafts = await readCollection<StoredDraft>(COLLECTION);
+  const draft = drafts.find((candidate) => candidate.tokenHash === hashToken(token));
+  if (!draft || !isLive(draft)) {
+    return { ok: false, error: 'draft_not_found' };
+  }
+  const destination =
+    channel === 'whatsapp'
+      ? draft.values.whatsappPhone && toE164(draft.values.whatsappPhone)
+      : draft.values.email?.includes('@') && draft.values.email;
+  if (!destination) {
+    return { ok: false, error: 'missing_contact' };
+  }
+  if (draft.resumeLinkSentAt && Date.now() - new Date(draft.resumeLinkSentAt).getTime() < RESUME_LINK_COOLDOWN_MS) {
+    return { ok: false, error: 'cooldown' };
+  }
+
+  const allowed = await updateCollection<ResumeLinkSend, boolean>(RESUME_LINK_SENDS, (sends) => {
+    const now = Date.now();
+    for (let i = sends.length - 1; i >= 0; i--) {
+      if (now - new Date(sends[i].sentAt).getTime() >= HOUR_MS) sends.splice(i, 1);
+    }
+    const limits: [string, number][] = [
+      [`contact:${destination}`, MAX_LINKS_PER_CONTACT],
+      [`ip:${ip}`, MAX_LINKS_PER_IP],
+    ];
+    if (limits.some(([key, max]) => sends.filter((send) => send.key === key).length >= max)) {
+      return false;
+    }
+    const sentAt = new Date(now).toISOString();
+    sends.push(...limits.map(([key]) => ({ key, sentAt })));
+    return true;
+  });
+  if (!allowed) {
+    return { ok: false, error: 'too_many_requests' };
+  }
+  await updateCollection<StoredDraft, void>(COLLECTION, (stored) => {
+    const entry = stored.find((candidate) => candidate.tokenHash === draft.tokenHash);
+    if (entry) entry.resumeLinkSentAt = new Date().toISOString();
+  });
+
+  const message = `Reprenez votre inscription MapYOO ici : ${appUrl(`/register?draft=${token}`)}\nCe lien expire dans 7 jours.`;
+  const sent =
+    channel === 'whatsapp'
+      ? await sendWhatsAppMessage(destination, message)
+      : await sendEmail(destination, 'Reprendre votre inscription', message);
+  return sent ? { ok: true } : { ok: false, error: 'delivery_failed' };
+}
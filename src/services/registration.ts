@@ -0,0 +1,69 @@
+import type * as z from 'zod';
+import { createAccountWithPassword } from './account-password';
+import { type AccountType, type CreateUserResult, type UniqueField, type UserType } from './users';
+import {
+  companyAccountSchema,
+  individualChauffeurSchema,
+  individualClientSchema,
+  individualDeliverySchema,
+} from '@/lib/schemas';
+
+export type RegistrationUserType = Exclude<UserType, 'admin'>;
+
+// Union of the fields of every registration schema.
+export type RegistrationValues = Partial<
+  z.infer<typeof individualDeliverySchema> &
+    z.infer<typeof individualChauffeurSchema> &
+    z.infer<typeof companyAccountSchema>
+> &
+  Pick<z.infer<typeof companyAccountSchema>, 'email' | 'phone' | 'whatsappPhone' | 'password'>;
+
+/** Field errors shown when an email or phone number is already taken. */
+export const CONFLICT_MESSAGES: Record<UniqueField, string> = {
+  email: "Email déjà utilisé",
+  phone: "Téléphone déjà utilisé",
+  whatsappPhone: "Téléphone WhatsApp déjà utilisé",
+};
+
+/** Schema the server re-validates each registration form with. */
+export const registrationSchemas: Record<RegistrationUserType, Record<AccountType, z.ZodType<RegistrationValues>>> = {
+  client: { individual: individualClientSchema, company: companyAccountSchema },
+  delivery: { individual: individualDeliverySchema, company: companyAccountSchema },
+  chauffeur: { individual: individualChauffeurSchema, company: companyAccountSchema },
+};
+
+/**
+ * Stores an account from already validated registration values.
+ */
+export async function registerAccount(
+  userType: RegistrationUserType,
+  accountType: AccountType,
+  values: RegistrationValues
+): Promise<CreateUserResult> {
+  const identity =
+    accountType === 'individual'
+      ? {
+          firstName: values.firstName,
+          lastName: values.lastName,
+          cin: values.cin || undefined,
+          cae: values.cae,
+          drivingLicense: values.drivingLicense,
+        }
+      : {
+          companyName: values.companyName,
+          rcOrIfNumber: values.rcOrIfNumber,
+          ice: values.ice || undefined,
+        };
+
+  return createAccountWithPassword(
+    {
+      userType,
+      accountType,
+      email: values.email,
+      phone: values.phone,
+      whatsappPhone: values.whatsappPhone,
+      ...identity,
+    },
+    values.password
+  );
+}
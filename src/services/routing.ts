@@ -0,0 +1,144 @@
+import { haversineKm } from '@/lib/distance';
+import type { GeoPoint } from '@/lib/geocoding';
+
+const OSRM_URL = process.env.OSRM_URL ?? 'https://router.project-osrm.org';
+const OSRM_TIMEOUT_MS = 5000;
+// Used when OSRM cannot be reached: roads are about this much longer than straight lines
+const ROAD_FACTOR = 1.3;
+const FALLBACK_SPEED_KMH = 25;
+
+export interface RouteSummary {
+  distanceKm: number;
+  durationMinutes: number;
+  // False when estimated from straight lines because OSRM failed
+  routed: boolean;
+}
+
+function coordinates(points: GeoPoint[]): string {
+  return points.map((point) => `${point.lng},${point.lat}`).join(';');
+}
+
+function estimateRoute(points: GeoPoint[]): RouteSummary {
+  let distanceKm = 0;
+  for (let i = 1; i < points.length; i++) {
+    distanceKm += haversineKm(points[i - 1], points[i]) * ROAD_FACTOR;
+  }
+  return { distanceKm, durationMinutes: Math.ceil((distanceKm / FALLBACK_SPEED_KMH) * 60), routed: false };
+}
+
+/**
+ * Driving distance and duration through `points`, in order. Falls back to
+ * a straight-line estimate so an order can always be priced.
+ */
+export async function routeThrough(points: GeoPoint[]): Promise<RouteSummary> {
+  try {
+    const response = await fetch(`${OSRM_URL}/route/v1/driving/${coordinates(points)}?overview=false`, {
+      signal: AbortSignal.timeout(OSRM_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`OSRM error: ${response.status}`);
+    }
+    const data = await response.json();
+    const route = data.routes?.[0];
+    if (!route) {
+      throw new Error(`OSRM found no route: ${data.code}`);
+    }
+    return { distanceKm: route.distance / 1000, durationMinutes: Math.ceil(route.duration / 60), routed: true };
+  } catch (error) {
+    console.error('Routing failed, estimating distance:', error);
+    return estimateRoute(points);
+  }
+}
+
+function estimateMinutes(from: GeoPoint, to: GeoPoint): number {
+  return ((haversineKm(from, to) * ROAD_FACTOR) / FALLBACK_SPEED_KMH) * 60;
+}
+
+/**
+ * Driving minutes between every pair of `points`, from the OSRM table
+ * service. Pairs OSRM cannot route, or all of them when it fails, are
+ * estimated from straight lines.
+ */
+async function durationMatrix(points: GeoPoint[]): Promise<number[][]> {
+  let durations: (number | null)[][] | undefined;
+  try {
+    const response = await fetch(`${OSRM_URL}/table/v1/driving/${coordinates(points)}?annotations=duration`, {
+      signal: AbortSignal.timeout(OSRM_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`OSRM error: ${response.status}`);
+    }
+    durations = (await response.json()).durations;
+  } catch (error) {
+    console.error('Routing failed, estimating durations:', error);
+  }
+  return points.map((from, i) =>
+    points.map((to, j) => {
+      const seconds = durations?.[i]?.[j];
+      return typeof seconds === 'number' ? seconds / 60 : estimateMinutes(from, to);
+    })
+  );
+}
+
+function pathMinutes(matrix: number[][], path: number[]): number {
+  let minutes = 0;
+  for (let i = 1; i < path.length; i++) {
+    minutes += matrix[path[i - 1]][path[i]];
+  }
+  return minutes;
+}
+
+/**
+ * Orders `candidates` into a short path from `start`: nearest neighbour
+ * first, then reversing segments (2-opt) while it saves time. Runs have a
+ * dozen stops at most, so this stays cheap.
+ */
+function shortPath(matrix: number[][], start: number, candidates: number[]): number[] {
+  let path: number[] = [];
+  const left = [...candidates];
+  let current = start;
+  while (left.length > 0) {
+    const nearest = left.reduce((best, candidate) => (matrix[current][candidate] < matrix[current][best] ? candidate : best));
+    left.splice(left.indexOf(nearest), 1);
+    path.push(nearest);
+    current = nearest;
+  }
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < path.length - 1; i++) {
+      for (let j = i + 1; j < path.length; j++) {
+        const candidate = [...path.slice(0, i), ...path.slice(i, j + 1).reverse(), ...path.slice(j + 1)];
+        if (pathMinutes(matrix, [start, ...candidate]) < pathMinutes(matrix, [start, ...path]) - 0.01) {
+          path = candidate;
+          improved = true;
+        }
+      }
+    }
+  }
+  return path;
+}
+
+export interface StopSequence {
+  // Indexes into the `pickups` and `dropoffs` given, in visiting order
+  pickups: number[];
+  dropoffs: number[];
+}
+
+/**
+ * Visiting order for a run with several stops. Starts at the first pickup,
+ * collects the other pickups so every parcel is on board, then drops them
+ * off, ending wherever is fastest. OSRM's trip service cannot keep pickups
+ * before drop-offs, so the order is computed here from its duration table.
+ */
+export async function optimizeStops(pickups: GeoPoint[], dropoffs: GeoPoint[]): Promise<StopSequence> {
+  const matrix = await durationMatrix([...pickups, ...dropoffs]);
+  const pickupOrder = [0, ...shortPath(matrix, 0, pickups.map((_, index) => index).slice(1))];
+  const dropoffOrder = shortPath(
+    matrix,
+    pickupOrder[pickupOrder.length - 1],
+    dropoffs.map((_, index) => pickups.length + index)
+  );
+  return { pickups: pickupOrder, dropoffs: dropoffOrder.map((index) => index - pickups.length) };
+}
@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { cookies, headers } from 'next/headers';
+import { readCollection, updateCollection } from './local-store';
+import { clientIpFrom } from './login-throttle';
+import { SESSION_COOKIE, signSessionToken, verifySessionToken } from '@/lib/session-token';
+import { accountRoleOf, type UserAccount } from './users';
+import type { AccountRole } from '@/lib/roles';
+
+const COLLECTION = 'sessions';
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7;
+// Last activity is written at most this often, not on every request
+const ACTIVITY_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface Session {
+  id: string;
+  userId: string;
+  role: AccountRole;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  // Where the session was opened, for the sessions list
+  userAgent?: string;
+  ip?: string;
+  location?: string;
+  lastActiveAt?: string;
+}
+
+function isActive(session: Session): boolean {
+  return !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+}
+
+/**
+ * City and country set by the hosting proxy, when it geolocates requests.
+ */
+function approximateLocationFrom(requestHeaders: Headers): string | undefined {
+  const city = requestHeaders.get('x-vercel-ip-city');
+  const country = requestHeaders.get('x-vercel-ip-country') ?? requestHeaders.get('cf-ipcountry');
+  const parts = [city && decodeURIComponent(city), country].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Opens a session for `user` and sets it as an httpOnly cookie.
+ */
+export async function createSession(user: UserAccount): Promise<Session> {
+  const now = Date.now();
+  const requestHeaders = await headers();
+  const session: Session = {
+    id: randomUUID(),
+    userId: user.id,
+    role: accountRoleOf(user),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_SECONDS * 1000).toISOString(),
+    userAgent: requestHeaders.get('user-agent')?.slice(0, 500) ?? undefined,
+    ip: clientIpFrom(requestHeaders),
+    location: approximateLocationFrom(requestHeaders),
+    lastActiveAt: new Date(now).toISOString(),
+  };
+  await updateCollection<Session, void>(COLLECTION, (sessions) => {
+    sessions.push(session);
+  });
+
+  const token = await signSessionToken({
+    sid: session.id,
+    uid: user.id,
+    role: session.role,
+    exp: Math.floor(now / 1000) + SESSION_TTL_SECONDS,
+  });
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return session;
+}
+
+/**
+ * Returns the session behind the request cookie, or null when there is no
+ * cookie or the session was revoked or has expired. The store is read on
+ * every call, so a revoked session is refused from the next request on.
+ */
+export async function getCurrentSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  const payload = await verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!payload) {
+    return null;
+  }
+  const sessions = await readCollection<Session>(COLLECTION);
+  const session = sessions.find((candidate) => candidate.id === payload.sid);
+  if (!session || session.userId !== payload.uid || !isActive(session)) {
+    return null;
+  }
+  if (Date.now() - new Date(session.lastActiveAt ?? session.createdAt).getTime() > ACTIVITY_RESOLUTION_MS) {
+    await touchSession(session.id);
+  }
+  return session;
+}
+
+async function touchSession(id: string): Promise<void> {
+  await updateCollection<Session, void>(COLLECTION, (sessions) => {
+    const session = sessions.find((candidate) => candidate.id === id);
+    if (session) {
+      session.lastActiveAt = new Date().toISOString();
+    }
+  });
+}
+
+/**
+ * Sessions of a user that are still usable, most recently active first.
+ */
+export async function listActiveSessions(userId: string): Promise<Session[]> {
+  const sessions = await readCollection<Session>(COLLECTION);
+  const lastActive = (session: Session) => session.lastActiveAt ?? session.createdAt;
+  return sessions
+    .filter((session) => session.userId === userId && isActive(session))
+    .sort((a, b) => lastActive(b).localeCompare(lastActive(a)));
+}
+
+/**
+ * Revokes one session of `userId`. Returns false when it is not one of its
+ * active sessions.
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const count = await revokeSessions((session) => session.userId === userId && session.id === sessionId);
+  return count > 0;
+}
+
+/**
+ * Revokes the current session and clears the cookie.
+ */
+export async function destroyCurrentSession(): Promise<void> {
+  const session = await getCurrentSession();
+  if (session) {
+    await revokeSessions((candidate) => candidate.id === session.id);
+  }
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+/**
+ * Revokes every active session of a user.
+ */
+export async function revokeUserSessions(userId: string): Promise<number> {
+  return revokeSessions((session) => session.userId === userId);
+}
+
+/**
+ * Revokes every session of `userId` except `keepSessionId`, e.g. after a
+ * password change made from that session.
+ */
+export async function revokeOtherSessions(userId: string, keepSessionId: string): Promise<number> {
+  return revokeSessions((session) => session.userId === userId && session.id !== keepSessionId);
+}
+
+async function revokeSessions(predicate: (session: Session) => boolean): Promise<number> {
+  return updateCollection<Session, number>(COLLECTION, (sessions) => {
+    const revokedAt = new Date().toISOString();
+    let count = 0;
+    for (const session of sessions) {
+      if (isActive(session) && predicate(session)) {
+        session.revokedAt = revokedAt;
+        count++;
+      }
+    }
+    return count;
+  });
+}
@@ -0,0 +1,163 @@
+import {
+  findLatestCode,
+  issueCode,
+  listCodesSince,
+  verifyCode,
+  type CodePurpose,
+  type VerifyCodeResult,
+} from './one-time-codes';
+import { findUserById, updateUser, type UserAccount } from './users';
+import { appUrl } from './app-url';
+import { sendEmail } from './email';
+import { sendWhatsAppMessage } from './whatsapp';
+
+const WHATSAPP_CODE_TTL_SECONDS = 10 * 60;
+const EMAIL_LINK_TTL_SECONDS = 24 * 60 * 60;
+const RESEND_COOLDOWN_SECONDS = 60;
+// Codes or links an account may receive per hour and channel
+const MAX_CODES_PER_HOUR = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type VerificationChannel = 'whatsapp' | 'email';
+
+export interface VerificationStatus {
+  whatsappVerified: boolean;
+  emailVerified: boolean;
+  // When a new code or link may be requested, per channel
+  whatsappResendAt: string | null;
+  emailResendAt: string | null;
+}
+
+export type SendVerificationResult =
+  | { ok: true; resendAt: string }
+  | { ok: false; error: 'already_verified' | 'delivery_failed' }
+  | { ok: false; error: 'cooldown' | 'too_many_requests'; resendAt: string };
+
+export type ConfirmWhatsAppResult =
+  | { ok: true }
+  | Extract<VerifyCodeResult, { ok: false }>;
+
+const PURPOSES: Record<VerificationChannel, CodePurpose> = {
+  whatsapp: 'whatsapp_verification',
+  email: 'email_verification',
+};
+
+function isVerified(user: UserAccount, channel: VerificationChannel): boolean {
+  return channel === 'whatsapp' ? !!user.whatsappVerifiedAt : !!user.emailVerifiedAt;
+}
+
+/**
+ * An account is active once both its WhatsApp number and its email were
+ * confirmed. Inactive accounts can only reach the verification page.
+ */
+export function isAccountActive(user: UserAccount): boolean {
+  return !!user.whatsappVerifiedAt && !!user.emailVerifiedAt;
+}
+
+// Why and until when no new code or link may be sent, or null
+async function resendBlock(
+  user: UserAccount,
+  channel: VerificationChannel
+): Promise<{ error: 'cooldown' | 'too_many_requests'; resendAt: string } | null> {
+  const latest = await findLatestCode(PURPOSES[channel], user.id);
+  if (latest) {
+    const at = new Date(latest.createdAt).getTime() + RESEND_COOLDOWN_SECONDS * 1000;
+    if (at > Date.now()) {
+      return { error: 'cooldown', resendAt: new Date(at).toISOString() };
+    }
+  }
+  const lastHour = await listCodesSince(PURPOSES[channel], user.id, new Date(Date.now() - HOUR_MS));
+  if (lastHour.length >= MAX_CODES_PER_HOUR) {
+    const at = new Date(lastHour[0].createdAt).getTime() + HOUR_MS;
+    return { error: 'too_many_requests', resendAt: new Date(at).toISOString() };
+  }
+  return null;
+}
+
+async function resendAt(user: UserAccount, channel: VerificationChannel): Promise<string | null> {
+  return (await resendBlock(user, channel))?.resendAt ?? null;
+}
+
+export async function verificationStatusOf(user: UserAccount): Promise<VerificationStatus> {
+  return {
+    whatsappVerified: !!user.whatsappVerifiedAt,
+    emailVerified: !!user.emailVerifiedAt,
+    whatsappResendAt: user.whatsappVerifiedAt ? null : await resendAt(user, 'whatsapp'),
+    emailResendAt: user.emailVerifiedAt ? null : await resendAt(user, 'email'),
+  };
+}
+
+/**
+ * Sends a code to the account's WhatsApp number or a confirmation link to
+ * its email, at most once per cooldown and a few times per hour. A new send
+ * invalidates the previous code or link.
+ */
+export async function sendVerification(
+  user: UserAccount,
+  channel: VerificationChannel
+): Promise<SendVerificationResult> {
+  if (isVerified(user, channel)) {
+    return { ok: false, error: 'already_verified' };
+  }
+  const blocked = await resendBlock(user, channel);
+  if (blocked) {
+    return { ok: false, ...blocked };
+  }
+
+  const { id, code } = await issueCode({
+    purpose: PURPOSES[channel],
+    userId: user.id,
+    channel,
+    ttlSeconds: channel === 'whatsapp' ? WHATSAPP_CODE_TTL_SECONDS : EMAIL_LINK_TTL_SECONDS,
+  });
+  let sent: boolean;
+  if (channel === 'whatsapp') {
+    sent = await sendWhatsAppMessage(
+      user.whatsappPhone,
+      `Votre code de vérification MapYOO est ${code}. Il expire dans 10 minutes.`
+    );
+  } else {
+    const link = appUrl(`/verify/email?id=${encodeURIComponent(id)}&code=${code}`);
+    sent = await sendEmail(
+      user.email,
+      'Confirmez votre adresse email',
+      `Bienvenue sur MapYOO ! Confirmez votre adresse email en ouvrant ce lien : ${link}\nCe lien expire dans 24 heures.`
+    );
+  }
+
+  const nextResendAt = new Date(Date.now() + RESEND_COOLDOWN_SECONDS * 1000).toISOString();
+  return sent ? { ok: true, resendAt: nextResendAt } : { ok: false, error: 'delivery_failed' };
+}
+
+/**
+ * Checks the code typed by the user against the last one sent to their
+ * WhatsApp number.
+ */
+export async function confirmWhatsApp(user: UserAccount, code: string): Promise<ConfirmWhatsAppResult> {
+  const latest = await findLatestCode('whatsapp_verification', user.id);
+  if (!latest) {
+    return { ok: false, error: 'invalid_code' };
+  }
+  const result = await verifyCode(latest.id, 'whatsapp_verification', code);
+  if (!result.ok) {
+    return result;
+  }
+  await updateUser(user.id, { whatsappVerifiedAt: new Date().toISOString() });
+  return { ok: true };
+}
+
+/**
+ * Confirms the email behind a link from `sendVerification`. Returns the
+ * account, or null when the link is unknown, used or expired.
+ */
+export async function confirmEmail(id: string, code: string): Promise<UserAccount | null> {
+  const result = await verifyCode(id, 'email_verification', code);
+  if (!result.ok) {
+    return null;
+  }
+  const user = await findUserById(result.code.userId);
+  if (!user) {
+    return null;
+  }
+  return user.emailVerifiedAt ? user : updateUser(user.id, { emailVerifiedAt: new Date().toISOString() });
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Where uploaded files end up. Keys are opaque paths chosen by the caller.
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Development backend writing files under a local directory.
+ */
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: FileStorage | null = null;
+
+/**
+ * Storage backend selected by DOCUMENT_STORAGE. Only `local` exists for now;
+ * its directory defaults to `.data/uploads` (UPLOADS_DIR overrides it).
+ */
+export function getFileStorage(): FileStorage {
+  if (!storage) {
+    const backend = process.env.DOCUMENT_STORAGE ?? 'local';
+    if (backend !== 'local') {
+      throw new Error(`Unknown DOCUMENT_STORAGE backend: ${backend}`);
+    }
+    const root =
+      process.env.UPLOADS_DIR ??
+      path.join(process.env.MAPYOO_DATA_DIR ?? path.join(process.cwd(), '.data'), 'uploads');
+    storage = new LocalFileStorage(root);
+  }
+  return storage;
+}
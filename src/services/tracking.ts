@@ -0,0 +1,92 @@
+import { findCourierPosition, type CourierPosition } from './courier-positions';
+import { findOrderByTrackingNumber, routePointsOf, type Order } from './orders';
+import { haversineKm } from '@/lib/distance';
+import type { GeoPoint } from '@/lib/geocoding';
+import {
+  isFinalStatus,
+  normalizeTrackingNumber,
+  type OrderStatus,
+  type OrderType,
+  type StopKind,
+  type StopStatus,
+} from '@/lib/orders';
+import type { TimeWindow } from '@/lib/scheduling';
+
+// Roads are longer than straight lines; couriers average this speed in town
+const ROAD_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 25;
+// Time to reach the pickup and collect the order once assigned
+const PICKUP_ALLOWANCE_MINUTES = 20;
+
+/**
+ * What anyone holding the tracking number may see: no names, phones or
+ * addresses, and no courier position outside the delivery run.
+ */
+export interface TrackingView {
+  trackingNumber: string;
+  type: OrderType;
+  status: OrderStatus;
+  timeline: { status: OrderStatus; at: string }[];
+  pickupWindow: TimeWindow | null;
+  // Progress of multi-stop orders, in visiting order
+  stops: { kind: StopKind; status: StopStatus }[] | null;
+  estimatedArrival: string | null;
+  courierPosition: (GeoPoint & { at: string }) | null;
+}
+
+function travelMinutes(points: GeoPoint[]): number {
+  let distanceKm = 0;
+  for (let i = 1; i < points.length; i++) {
+    distanceKm += haversineKm(points[i - 1], points[i]);
+  }
+  return Math.ceil(((distanceKm * ROAD_FACTOR) / AVERAGE_SPEED_KMH) * 60);
+}
+
+/**
+ * Rough arrival time at the last stop from straight-line distances. From
+ * the courier's live position through the stops left while in transit, over
+ * the whole route before that, and not before the pickup window opens for
+ * scheduled orders.
+ */
+function estimateArrival(order: Order, position: CourierPosition | null): string | null {
+  if (isFinalStatus(order.status) || order.status === 'draft' || order.status === 'failed') {
+    return null;
+  }
+  let departure = Date.now();
+  let minutes: number;
+  if (order.status === 'in_transit' && position) {
+    const remaining = order.stops
+      ? order.stops.filter((stop) => stop.status === 'pending').map((stop) => stop.place)
+      : [order.destination];
+    minutes = travelMinutes([position, ...remaining]);
+  } else {
+    minutes = travelMinutes(routePointsOf(order));
+    if (order.status === 'scheduled' || order.status === 'pending' || order.status === 'assigned') {
+      minutes += PICKUP_ALLOWANCE_MINUTES;
+      if (order.schedule) {
+        departure = Math.max(departure, new Date(order.schedule.start).getTime());
+      }
+    }
+  }
+  return new Date(departure + minutes * 60 * 1000).toISOString();
+}
+
+export async function getTrackingView(code: string): Promise<TrackingView | null> {
+  const order = await findOrderByTrackingNumber(normalizeTrackingNumber(code));
+  if (!order || order.status === 'draft') {
+    return null;
+  }
+  const position =
+    order.status === 'in_transit' && order.assignedTo ? await findCourierPosition(order.assignedTo) : null;
+
+  return {
+    trackingNumber: order.trackingNumber,
+    type: order.type,
+    status: order.status,
+    timeline: order.statusHistory.map((change) => ({ status: change.to, at: change.at })),
+    pickupWindow: order.schedule ?? null,
+    stops: order.stops?.map((stop) => ({ kind: stop.kind, status: stop.status })) ?? null,
+    estimatedArrival: estimateArrival(order, position),
+    courierPosition: position && { lat: position.lat, lng: position.lng, at: position.at },
+  };
+}
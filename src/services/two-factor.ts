@@ -0,0 +1,432 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import {
+  checkLoginAllowed,
+  clearLoginFailures,
+  recordLoginFailure,
+  type LoginThrottleCheck,
+  type LoginThrottleKey,
+} from './login-throttle';
+import { findLatestCode, issueCode, verifyCode } from './one-time-codes';
+import { generateTotpSecret, otpauthUri, verifyTotp } from './totp';
+import { findUserById, updateUser, type UserAccount } from './users';
+import { sendWhatsAppMessage } from './whatsapp';
+
+const CHALLENGES = 'login-challenges';
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+// Challenges an account may open per window, each one sending a WhatsApp code
+const CHALLENGE_RATE_WINDOW_MS = 15 * 60 * 1000;
+const CHALLENGE_RATE_MAX = 5;
+
+export type TwoFactorMethod = 'totp' | 'whatsapp';
+
+export interface TwoFactorSettings {
+  method: TwoFactorMethod;
+  totpSecret?: string;
+  // Last accepted TOTP time step, so a code cannot be used twice
+  lastTotpStep?: number;
+  recoveryCodeHashes: string[];
+  enabledAt: string;
+}
+
+/** Second factor being set up, until the user proves it works. */
+export interface TwoFactorSetup {
+  method: TwoFactorMethod;
+  totpSecret?: string;
+  // Set when the current second factor was checked, to replace it
+  replacesCurrent?: boolean;
+  createdAt: string;
+}
+
+interface LoginChallenge {
+  tokenHash: string;
+  userId: string;
+  method: TwoFactorMethod;
+  attempts: number;
+  expiresAt: string;
+  consumedAt?: string;
+}
+
+export type TwoFactorSetupStart =
+  | { method: 'totp'; secret: string; uri: string }
+  | { method: 'whatsapp'; phone: string };
+
+// Too many wrong codes on the account, on the login or settings pages
+type ThrottledError = Extract<LoginThrottleCheck, { ok: false }>;
+
+export type StartSetupResult =
+  | { ok: true; setup: TwoFactorSetupStart }
+  | { ok: false; error: 'invalid_code' }
+  | ThrottledError;
+
+export type ConfirmSetupResult =
+  | { ok: true; recoveryCodes: string[] }
+  | { ok: false; error: 'invalid_code' }
+  | ThrottledError;
+
+export type CreateChallengeResult =
+  | { ok: true; token: string }
+  | { ok: false; error: 'too_many_challenges'; retryAfterSeconds: number };
+
+export type VerifyChallengeResult =
+  | { ok: true; user: UserAccount; usedRecoveryCode: boolean }
+  | { ok: false; error: 'invalid_code' | 'expired' | 'too_many_attempts' }
+  | { ok: false; error: 'locked' | 'throttled'; retryAfterSeconds: number };
+
+export type ResendChallengeResult = { ok: true } | { ok: false; error: 'expired' | 'cooldown' | 'not_whatsapp' };
+
+export type SendSettingsCodeResult = { ok: true } | { ok: false; error: 'cooldown' | 'not_whatsapp' };
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, '');
+}
+
+function generateRecoveryCodes(): string[] {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from({ length: 10 }, () => alphabet[randomInt(alphabet.length)]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+/** Admins handle every account and payout, so they cannot opt out. */
+export function isTwoFactorRequired(user: UserAccount): boolean {
+  return user.userType === 'admin';
+}
+
+export function hasTwoFactor(user: UserAccount): boolean {
+  return !!user.twoFactor;
+}
+
+async function sendWhatsAppCode(user: UserAccount, purpose: 'two_factor_login' | 'two_factor_setup'): Promise<void> {
+  const { code } = await issueCode({ purpose, userId: user.id, channel: 'whatsapp', ttlSeconds: 5 * 60 });
+  await sendWhatsAppMessage(user.whatsappPhone, `Votre code de connexion MapYOO est ${code}. Il expire dans 5 minutes.`);
+}
+
+async function checkWhatsAppCode(
+  user: UserAccount,
+  purpose: 'two_factor_login' | 'two_factor_setup',
+  code: string
+): Promise<boolean> {
+  const latest = await findLatestCode(purpose, user.id);
+  return !!latest && (await verifyCode(latest.id, purpose, code)).ok;
+}
+
+/**
+ * Runs a code check of the settings page against the login counters of the
+ * account, so a stolen session cannot guess codes any faster than a login.
+ */
+async function throttledCheck(
+  user: UserAccount,
+  check: () => Promise<boolean>
+): Promise<{ ok: true } | { ok: false; error: 'invalid_code' } | ThrottledError> {
+  const key: LoginThrottleKey = { scope: 'account', value: user.id };
+  const allowed = await checkLoginAllowed([key]);
+  if (!allowed.ok) {
+    return allowed;
+  }
+  if (!(await check())) {
+    await recordLoginFailure([key]);
+    return { ok: false, error: 'invalid_code' };
+  }
+  await clearLoginFailures(key);
+  return { ok: true };
+}
+
+/**
+ * Starts setting up a second factor. For TOTP the secret is returned to be
+ * added to an authenticator app; for WhatsApp a code is sent. When 2FA is
+ * already on, this changes the method and needs a code of the current one,
+ * so a signed-in session alone cannot replace it.
+ */
+export async function startTwoFactorSetup(
+  user: UserAccount,
+  method: TwoFactorMethod,
+  currentCode?: string
+): Promise<StartSetupResult> {
+  if (user.twoFactor) {
+    const check = await throttledCheck(user, async () => (await checkSecondFactor(user, currentCode ?? '')).ok);
+    if (!check.ok) {
+      return check;
+    }
+  }
+  const setup: TwoFactorSetup = { method, createdAt: new Date().toISOString() };
+  if (method === 'totp') {
+    setup.totpSecret = generateTotpSecret();
+  }
+  if (user.twoFactor) {
+    setup.replacesCurrent = true;
+  }
+  await updateUser(user.id, { twoFactorSetup: setup });
+
+  if (method === 'whatsapp') {
+    await sendWhatsAppCode(user, 'two_factor_setup');
+    return { ok: true, setup: { method, phone: user.whatsappPhone } };
+  }
+  return { ok: true, setup: { method, secret: setup.totpSecret!, uri: otpauthUri(setup.totpSecret!, user.email) } };
+}
+
+/**
+ * Enables the second factor being set up once the user typed a valid code.
+ * Returns fresh recovery codes, shown only this once.
+ */
+export async function confirmTwoFactorSetup(user: UserAccount, code: string): Promise<ConfirmSetupResult> {
+  const setup = user.twoFactorSetup;
+  // A setup started before 2FA was turned on cannot replace it
+  if (!setup || (user.twoFactor && !setup.replacesCurrent)) {
+    return { ok: false, error: 'invalid_code' };
+  }
+  let lastTotpStep: number | undefined;
+  const check = await throttledCheck(user, async () => {
+    if (setup.method === 'whatsapp') {
+      return checkWhatsAppCode(user, 'two_factor_setup', code);
+    }
+    lastTotpStep = verifyTotp(setup.totpSecret!, code) ?? undefined;
+    return lastTotpStep !== undefined;
+  });
+  if (!check.ok) {
+    return check;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await updateUser(user.id, {
+    twoFactor: {
+      method: setup.method,
+      totpSecret: setup.totpSecret,
+      lastTotpStep,
+      recoveryCodeHashes: recoveryCodes.map((recoveryCode) => hash(normalizeRecoveryCode(recoveryCode))),
+      enabledAt: new Date().toISOString(),
+    },
+    twoFactorSetup: undefined,
+  });
+  return { ok: true, recoveryCodes };
+}
+
+/**
+ * Checks a code from the enabled second factor, or a recovery code, which
+ * is then used up. Returns false when neither matches.
+ */
+async function checkSecondFactor(
+  user: UserAccount,
+  code: string
+): Promise<{ ok: boolean; usedRecoveryCode: boolean }> {
+  const settings = user.twoFactor;
+  if (!settings) {
+    return { ok: false, usedRecoveryCode: false };
+  }
+
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    if (settings.method === 'totp') {
+      const step = verifyTotp(settings.totpSecret!, trimmed, settings.lastTotpStep);
+      if (step === null) {
+        return { ok: false, usedRecoveryCode: false };
+      }
+      await updateUser(user.id, { twoFactor: { ...settings, lastTotpStep: step } });
+      return { ok: true, usedRecoveryCode: false };
+    }
+    return { ok: await checkWhatsAppCode(user, 'two_factor_login', trimmed), usedRecoveryCode: false };
+  }
+
+  const candidate = Buffer.from(hash(normalizeRecoveryCode(trimmed)));
+  const index = settings.recoveryCodeHashes.findIndex((stored) => timingSafeEqual(Buffer.from(stored), candidate));
+  if (index === -1) {
+    return { ok: false, usedRecoveryCode: false };
+  }
+  await updateUser(user.id, {
+    twoFactor: { ...settings, recoveryCodeHashes: settings.recoveryCodeHashes.filter((_, i) => i !== index) },
+  });
+  return { ok: true, usedRecoveryCode: true };
+}
+
+/**
+ * Replaces the recovery codes after checking a current code.
+ */
+export async function regenerateRecoveryCodes(user: UserAccount, code: string): Promise<ConfirmSetupResult> {
+  const check = await throttledCheck(user, async () => (await checkSecondFactor(user, code)).ok);
+  if (!check.ok) {
+    return check;
+  }
+  const fresh = await findUserById(user.id);
+  const recoveryCodes = generateRecoveryCodes();
+  await updateUser(user.id, {
+    twoFactor: {
+      ...fresh!.twoFactor!,
+      recoveryCodeHashes: recoveryCodes.map((recoveryCode) => hash(normalizeRecoveryCode(recoveryCode))),
+    },
+  });
+  return { ok: true, recoveryCodes };
+}
+
+/**
+ * Turns 2FA off after checking a current code. Not allowed when 2FA is
+ * mandatory for the account.
+ */
+export async function disableTwoFactor(
+  user: UserAccount,
+  code: string
+): Promise<{ ok: true } | { ok: false; error: 'invalid_code' | 'required' } | ThrottledError> {
+  if (isTwoFactorRequired(user)) {
+    return { ok: false, error: 'required' };
+  }
+  const check = await throttledCheck(user, async () => (await checkSecondFactor(user, code)).ok);
+  if (!check.ok) {
+    return check;
+  }
+  await updateUser(user.id, { twoFactor: undefined });
+  return { ok: true };
+}
+
+/** Asks WhatsApp users for a new code when they log in. */
+export async function sendLoginCode(user: UserAccount): Promise<void> {
+  if (user.twoFactor?.method === 'whatsapp') {
+    await sendWhatsAppCode(user, 'two_factor_login');
+  }
+}
+
+// A login code was sent less than RESEND_COOLDOWN_MS ago
+async function isLoginCodeCoolingDown(userId: string): Promise<boolean> {
+  const latest = await findLatestCode('two_factor_login', userId);
+  return !!latest && Date.now() - new Date(latest.createdAt).getTime() < RESEND_COOLDOWN_MS;
+}
+
+/**
+ * Sends WhatsApp users a code for the settings page, where changing the
+ * method, the recovery codes or turning 2FA off needs one. Once a minute
+ * at most, like a resend on the login page.
+ */
+export async function sendSettingsCode(user: UserAccount): Promise<SendSettingsCodeResult> {
+  if (user.twoFactor?.method !== 'whatsapp') {
+    return { ok: false, error: 'not_whatsapp' };
+  }
+  if (await isLoginCodeCoolingDown(user.id)) {
+    return { ok: false, error: 'cooldown' };
+  }
+  await sendLoginCode(user);
+  return { ok: true };
+}
+
+// Challenges are created CHALLENGE_TTL_MS before they expire
+function challengeCreatedAt(challenge: LoginChallenge): number {
+  return new Date(challenge.expiresAt).getTime() - CHALLENGE_TTL_MS;
+}
+
+/**
+ * Opens the second login step after a correct password. The returned token
+ * identifies the pending login; WhatsApp users receive their code now. Only
+ * a few challenges may be opened per account in a window, so the password
+ * cannot be replayed to get fresh code attempts.
+ */
+export async function createLoginChallenge(user: UserAccount): Promise<CreateChallengeResult> {
+  const token = randomBytes(24).toString('base64url');
+  const created = await updateCollection<LoginChallenge, CreateChallengeResult>(CHALLENGES, (challenges) => {
+    const now = Date.now();
+    const windowStart = now - CHALLENGE_RATE_WINDOW_MS;
+    // Expired challenges are kept for the window, to be counted
+    for (let i = challenges.length - 1; i >= 0; i--) {
+      if (challengeCreatedAt(challenges[i]) < windowStart) challenges.splice(i, 1);
+    }
+    const recent = challenges.filter((challenge) => challenge.userId === user.id);
+    if (recent.length >= CHALLENGE_RATE_MAX) {
+      const oldest = Math.min(...recent.map(challengeCreatedAt));
+      return {
+        ok: false,
+        error: 'too_many_challenges',
+        retryAfterSeconds: Math.max(1, Math.ceil((oldest - windowStart) / 1000)),
+      };
+    }
+    challenges.push({
+      tokenHash: hash(token),
+      userId: user.id,
+      method: user.twoFactor!.method,
+      attempts: 0,
+      expiresAt: new Date(now + CHALLENGE_TTL_MS).toISOString(),
+    });
+    return { ok: true, token };
+  });
+  if (created.ok) {
+    await sendLoginCode(user);
+  }
+  return created;
+}
+
+/**
+ * Completes a pending login with a second-factor or recovery code. Wrong
+ * codes count as login failures of the account and of `ipKey`, so they are
+ * throttled and lock the account like wrong passwords. The failures are
+ * left for the caller to clear once the session is open.
+ */
+export async function verifyLoginChallenge(
+  token: string,
+  code: string,
+  ipKey: LoginThrottleKey
+): Promise<VerifyChallengeResult> {
+  const challenge = await updateCollection<LoginChallenge, LoginChallenge | VerifyChallengeResult>(
+    CHALLENGES,
+    (challenges) => {
+      const entry = challenges.find((candidate) => candidate.tokenHash === hash(token));
+      if (!entry || entry.consumedAt || new Date(entry.expiresAt).getTime() < Date.now()) {
+        return { ok: false, error: 'expired' };
+      }
+      if (entry.attempts >= CHALLENGE_MAX_ATTEMPTS) {
+        return { ok: false, error: 'too_many_attempts' };
+      }
+      entry.attempts++;
+      return { ...entry };
+    }
+  );
+  if ('ok' in challenge) {
+    return challenge;
+  }
+
+  const throttleKeys: LoginThrottleKey[] = [ipKey, { scope: 'account', value: challenge.userId }];
+  const allowed = await checkLoginAllowed(throttleKeys);
+  if (!allowed.ok) {
+    return allowed;
+  }
+
+  const user = await findUserById(challenge.userId);
+  const check = user ? await checkSecondFactor(user, code) : { ok: false, usedRecoveryCode: false };
+  if (!user || !check.ok) {
+    await recordLoginFailure(throttleKeys);
+    return challenge.attempts >= CHALLENGE_MAX_ATTEMPTS
+      ? { ok: false, error: 'too_many_attempts' }
+      : { ok: false, error: 'invalid_code' };
+  }
+
+  await updateCollection<LoginChallenge, void>(CHALLENGES, (challenges) => {
+    const entry = challenges.find((candidate) => candidate.tokenHash === challenge.tokenHash);
+    if (entry) entry.consumedAt = new Date().toISOString();
+  });
+  return { ok: true, user, usedRecoveryCode: check.usedRecoveryCode };
+}
+
+/**
+ * Sends a new WhatsApp code for a pending login, once a minute at most.
+ */
+export async function resendLoginChallengeCode(token: string): Promise<ResendChallengeResult> {
+  const challenges = await readCollection<LoginChallenge>(CHALLENGES);
+  const entry = challenges.find((candidate) => candidate.tokenHash === hash(token));
+  if (!entry || entry.consumedAt || new Date(entry.expiresAt).getTime() < Date.now()) {
+    return { ok: false, error: 'expired' };
+  }
+  if (entry.method !== 'whatsapp') {
+    return { ok: false, error: 'not_whatsapp' };
+  }
+  if (await isLoginCodeCoolingDown(entry.userId)) {
+    return { ok: false, error: 'cooldown' };
+  }
+  const user = await findUserById(entry.userId);
+  if (!user) {
+    return { ok: false, error: 'expired' };
+  }
+  await sendLoginCode(user);
+  return { ok: true };
+}
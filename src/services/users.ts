@@ -0,0 +1,242 @@
+import { randomUUID } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import type { AccountRole } from '@/lib/roles';
+import { toE164 } from '@/lib/identity';
+import type { StaffRole } from '@/lib/company-roles';
+import type { NotificationPreferences } from '@/lib/notifications';
+import type { KycReview } from './kyc';
+import type { TwoFactorSettings, TwoFactorSetup } from './two-factor';
+
+const COLLECTION = 'users';
+
+export type UserType = 'client' | 'delivery' | 'chauffeur' | 'admin';
+export type AccountType = 'individual' | 'company';
+
+export interface UserAccount {
+  id: string;
+  userType: UserType;
+  accountType: AccountType;
+  email: string;
+  phone: string;
+  whatsappPhone: string;
+  firstName?: string;
+  lastName?: string;
+  companyName?: string;
+  cin?: string;
+  cae?: string;
+  drivingLicense?: string;
+  rcOrIfNumber?: string;
+  ice?: string;
+  kyc?: KycReview;
+  // Staff members of a company account point to the owner's account
+  companyId?: string;
+  staffRole?: StaffRole;
+  // Set once the WhatsApp code and the email link were confirmed
+  whatsappVerifiedAt?: string;
+  emailVerifiedAt?: string;
+  twoFactor?: TwoFactorSettings;
+  twoFactorSetup?: TwoFactorSetup;
+  notificationPreferences?: NotificationPreferences;
+  // Kept whatever the auth provider, for the password history
+  passwordHash: string;
+  // Id of the account at the auth provider, when it is not the local store
+  authUid?: string;
+  // Hashes of the previous passwords, most recent first
+  passwordHistory?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewUserAccount = Omit<UserAccount, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type UniqueField = 'email' | 'phone' | 'whatsappPhone';
+
+export type CreateUserResult =
+  | { ok: true; user: UserAccount }
+  | { ok: false; conflicts: UniqueField[] };
+
+export type UpdateContactsResult = CreateUserResult;
+
+/**
+ * Maps the registration user type and account type onto the role used for
+ * route protection.
+ */
+export function accountRoleOf(user: Pick<UserAccount, 'userType' | 'accountType'>): AccountRole {
+  switch (user.userType) {
+    case 'admin':
+      return 'admin';
+    case 'delivery':
+      return 'livreur';
+    case 'chauffeur':
+      return 'chauffeur';
+    case 'client':
+      return user.accountType === 'company' ? 'client_company' : 'client_individual';
+  }
+}
+
+/**
+ * Name shown in greetings: the company name or the person's full name.
+ */
+export function displayNameOf(user: UserAccount): string {
+  if (user.accountType === 'company' && user.companyName) {
+    return user.companyName;
+  }
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+/**
+ * Lower-cases an email so lookups are case-insensitive.
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Converts a phone number to E.164 so `0612345678` and `+212 6 12 34 56 78`
+ * match the same account. Numbers outside the supported dialing plans are
+ * only stripped of separators.
+ */
+export function normalizePhone(phone: string): string {
+  return toE164(phone) ?? phone.trim().replace(/[\s.\-()]/g, '');
+}
+
+export async function findUserById(id: string): Promise<UserAccount | null> {
+  const users = await readCollection<UserAccount>(COLLECTION);
+  return users.find((user) => user.id === id) ?? null;
+}
+
+/**
+ * Finds an account by its email or by its phone number, whichever
+ * `emailOrPhone` looks like.
+ */
+export async function findUserByEmailOrPhone(emailOrPhone: string): Promise<UserAccount | null> {
+  const users = await readCollection<UserAccount>(COLLECTION);
+  if (emailOrPhone.includes('@')) {
+    const email = normalizeEmail(emailOrPhone);
+    return users.find((user) => user.email === email) ?? null;
+  }
+  const phone = normalizePhone(emailOrPhone);
+  return users.find((user) => user.phone === phone || user.whatsappPhone === phone) ?? null;
+}
+
+/**
+ * Fields of `candidate` already used by another account. A phone number
+ * clashes with both the phone and the WhatsApp number of other accounts,
+ * since either one can be used to log in.
+ */
+function findConflicts(users: UserAccount[], candidate: Pick<UserAccount, UniqueField>): UniqueField[] {
+  const conflicts: UniqueField[] = [];
+  const usesPhone = (phone: string) =>
+    users.some((user) => user.phone === phone || user.whatsappPhone === phone);
+  if (users.some((user) => user.email === candidate.email)) {
+    conflicts.push('email');
+  }
+  if (usesPhone(candidate.phone)) {
+    conflicts.push('phone');
+  }
+  if (usesPhone(candidate.whatsappPhone)) {
+    conflicts.push('whatsappPhone');
+  }
+  return conflicts;
+}
+
+/**
+ * Stores a new account unless its email or phone numbers are already taken.
+ */
+export async function createUser(data: NewUserAccount): Promise<CreateUserResult> {
+  const now = new Date().toISOString();
+  const user: UserAccount = {
+    ...data,
+    id: randomUUID(),
+    email: normalizeEmail(data.email),
+    phone: normalizePhone(data.phone),
+    whatsappPhone: normalizePhone(data.whatsappPhone),
+    createdAt: now,
+    updatedAt: now,
+  };
+  return updateCollection<UserAccount, CreateUserResult>(COLLECTION, (users) => {
+    const conflicts = findConflicts(users, user);
+    if (conflicts.length > 0) {
+      return { ok: false, conflicts };
+    }
+    users.push(user);
+    return { ok: true, user };
+  });
+}
+
+/**
+ * Applies `changes` to an account and returns the updated record, or null
+ * when the account does not exist.
+ */
+export async function updateUser(
+  id: string,
+  changes: Partial<Omit<UserAccount, 'id' | 'createdAt'>>
+): Promise<UserAccount | null> {
+  return updateCollection<UserAccount, UserAccount | null>(COLLECTION, (users) => {
+    const user = users.find((candidate) => candidate.id === id);
+    if (!user) {
+      return null;
+    }
+    Object.assign(user, changes, { updatedAt: new Date().toISOString() });
+    return user;
+  });
+}
+
+/**
+ * Applies `changes`, which include the email and phone numbers, unless one
+ * of them is already used by another account.
+ */
+export async function updateUserContacts(
+  id: string,
+  changes: Partial<Omit<UserAccount, 'id' | 'createdAt'>> & Pick<UserAccount, UniqueField>
+): Promise<UpdateContactsResult> {
+  const contacts = {
+    email: normalizeEmail(changes.email),
+    phone: normalizePhone(changes.phone),
+    whatsappPhone: normalizePhone(changes.whatsappPhone),
+  };
+  return updateCollection<UserAccount, UpdateContactsResult>(COLLECTION, (users) => {
+    const user = users.find((candidate) => candidate.id === id);
+    if (!user) {
+      return { ok: false, conflicts: [] };
+    }
+    const conflicts = findConflicts(
+      users.filter((candidate) => candidate.id !== id),
+      contacts
+    );
+    if (conflicts.length > 0) {
+      return { ok: false, conflicts };
+    }
+    Object.assign(user, changes, contacts, { updatedAt: new Date().toISOString() });
+    return { ok: true, user };
+  });
+}
+
+/**
+ * Fields of `candidate` already used by an account other than `id`.
+ */
+export async function findContactConflicts(id: string, candidate: Pick<UserAccount, UniqueField>): Promise<UniqueField[]> {
+  const users = await readCollection<UserAccount>(COLLECTION);
+  return findConflicts(
+    users.filter((user) => user.id !== id),
+    {
+      email: normalizeEmail(candidate.email),
+      phone: normalizePhone(candidate.phone),
+      whatsappPhone: normalizePhone(candidate.whatsappPhone),
+    }
+  );
+}
+
+/**
+ * Removes an account from the store. Returns false if it did not exist.
+ */
+export async function deleteUser(id: string): Promise<boolean> {
+  return updateCollection<UserAccount, boolean>(COLLECTION, (users) => {
+    const index = users.findIndex((user) => user.id === id);
+    if (index === -1) {
+      return false;
+    }
+    users.splice(index, 1);
+    return true;
+  });
+}
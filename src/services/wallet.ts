@@ -0,0 +1,50 @@
+import { randomUUID } from 'crypto';
+import { readCollection, updateCollection } from './local-store';
+import { roundAmount } from '@/lib/pricing';
+
+const COLLECTION = 'wallet-transactions';
+
+/**
+ * A movement of MapYOO credit, in dirhams: refunds are positive, fees
+ * negative. The balance is the sum of the movements.
+ */
+export interface WalletTransaction {
+  id: string;
+  // The individual client, or the company
+  customerId: string;
+  amount: number;
+  label: string;
+  orderId?: string;
+  createdAt: string;
+}
+
+export async function recordWalletTransaction(
+  customerId: string,
+  amount: number,
+  label: string,
+  orderId?: string
+): Promise<WalletTransaction> {
+  const transaction: WalletTransaction = {
+    id: randomUUID(),
+    customerId,
+    amount: roundAmount(amount),
+    label,
+    ...(orderId && { orderId }),
+    createdAt: new Date().toISOString(),
+  };
+  await updateCollection<WalletTransaction, void>(COLLECTION, (transactions) => {
+    transactions.push(transaction);
+  });
+  return transaction;
+}
+
+export async function listWalletTransactions(customerId: string): Promise<WalletTransaction[]> {
+  const transactions = await readCollection<WalletTransaction>(COLLECTION);
+  return transactions.filter((transaction) => transaction.customerId === customerId);
+}
+
+/** Credit available to a customer. Negative when fees are owed. */
+export async function walletBalanceOf(customerId: string): Promise<number> {
+  const transactions = await listWalletTransactions(customerId);
+  return roundAmount(transactions.reduce((sum, transaction) => sum + transaction.amount, 0));
+}